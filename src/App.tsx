@@ -1,3 +1,4 @@
+import { useEffect } from "react";
 import {
   BrowserRouter as Router,
   Routes,
@@ -9,13 +10,18 @@ import Login from "./pages/Auth/Login";
 import Register from "./pages/Auth/Register";
 import Overview from "./pages/Dashboard/Overview";
 import Expenses from "./pages/Dashboard/Expenses";
+import RecurringExpenses from "./pages/Dashboard/RecurringExpenses";
 import Deposits from "./pages/Dashboard/Deposits";
 import Accounts from "./pages/Dashboard/Accounts";
+import AccountDetail from "./pages/Dashboard/AccountDetail";
 import Settings from "./pages/Dashboard/Settings";
 import Receipts from "./pages/Dashboard/Receipts";
 import Budgets from "./pages/Dashboard/Budgets";
 import Reports from "./pages/Dashboard/Reports";
+import Categories from "./pages/Dashboard/Categories";
+import Rules from "./pages/Dashboard/Rules";
 import ProtectedRoute from "./components/ProtectedRoute";
+import { startOfflineSync } from "./lib/offlineQueue";
 
 // Create a client
 const queryClient = new QueryClient({
@@ -24,10 +30,17 @@ const queryClient = new QueryClient({
       staleTime: 5 * 60 * 1000, // 5 minutes
       retry: 1,
     },
+    mutations: {
+      // Let mutations run while offline so they reach the offline queue
+      // instead of being paused by React Query.
+      networkMode: "always",
+    },
   },
 });
 
 export default function App() {
+  useEffect(() => startOfflineSync(queryClient), []);
+
   return (
     <QueryClientProvider client={queryClient}>
       <Router>
@@ -54,6 +67,14 @@ export default function App() {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/dashboard/recurring"
+              element={
+                <ProtectedRoute>
+                  <RecurringExpenses />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/dashboard/deposits"
               element={
@@ -70,6 +91,14 @@ export default function App() {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/dashboard/accounts/:accountId"
+              element={
+                <ProtectedRoute>
+                  <AccountDetail />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/dashboard/settings"
               element={
@@ -102,6 +131,22 @@ export default function App() {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/dashboard/categories"
+              element={
+                <ProtectedRoute>
+                  <Categories />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/dashboard/rules"
+              element={
+                <ProtectedRoute>
+                  <Rules />
+                </ProtectedRoute>
+              }
+            />
 
             {/* Redirect root to dashboard */}
             <Route path="/" element={<Navigate to="/dashboard" replace />} />
@@ -0,0 +1,119 @@
+import { TrendingUp } from "lucide-react";
+import dayjs from "dayjs";
+import type { Dayjs } from "dayjs";
+import { formatCurrency } from "../lib/utils";
+import type { SpendingForecast } from "../lib/forecast";
+
+interface BudgetForecastProps {
+  forecast: SpendingForecast;
+  limit: number;
+  thresholdPercentage: number;
+}
+
+const crossingLabel = (date: Dayjs | null) => {
+  if (!date) return "Not expected this month";
+  const prefix = date.isAfter(dayjs(), "day") ? "Projected" : "Reached";
+  return `${prefix} ${date.format("MMM D")}`;
+};
+
+export default function BudgetForecast({
+  forecast,
+  limit,
+  thresholdPercentage,
+}: BudgetForecastProps) {
+  const projectedPercentage = (forecast.projected / limit) * 100;
+  const scale = Math.max(forecast.high, limit);
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h3 className="text-lg font-medium text-gray-900 flex items-center">
+          <TrendingUp className="w-5 h-5 text-primary-600 mr-2" />
+          Month-end Forecast
+        </h3>
+      </div>
+      <div className="card-body space-y-4">
+        <div className="flex justify-between items-end">
+          <div>
+            <p className="text-sm text-gray-600">Projected spend</p>
+            <p
+              className={`text-2xl font-semibold ${
+                forecast.projected > limit
+                  ? "text-danger-600"
+                  : projectedPercentage >= thresholdPercentage
+                  ? "text-warning-600"
+                  : "text-gray-900"
+              }`}
+            >
+              {formatCurrency(forecast.projected)}
+            </p>
+            <p className="text-xs text-gray-500">
+              Likely between {formatCurrency(forecast.low)} and{" "}
+              {formatCurrency(forecast.high)}
+            </p>
+          </div>
+          <p className="text-sm text-gray-600">
+            {projectedPercentage.toFixed(0)}% of {formatCurrency(limit)}
+          </p>
+        </div>
+
+        {/* Spent, projected and upper band; the marker is the limit */}
+        <div className="relative w-full bg-gray-200 rounded-full h-3">
+          <div
+            className="absolute h-3 rounded-full bg-primary-200"
+            style={{ width: `${(forecast.high / scale) * 100}%` }}
+          ></div>
+          <div
+            className="absolute h-3 rounded-full bg-primary-400"
+            style={{ width: `${(forecast.projected / scale) * 100}%` }}
+          ></div>
+          <div
+            className="absolute h-3 rounded-full bg-primary-600"
+            style={{ width: `${(forecast.spent / scale) * 100}%` }}
+          ></div>
+          <div
+            className="absolute -top-1 h-5 w-0.5 bg-gray-900"
+            style={{ left: `${(limit / scale) * 100}%` }}
+            title="Budget limit"
+          ></div>
+        </div>
+
+        <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <dt className="text-gray-500">{thresholdPercentage}% alert</dt>
+            <dd className="font-medium text-gray-900">
+              {crossingLabel(forecast.thresholdDate)}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Budget limit</dt>
+            <dd
+              className={`font-medium ${
+                forecast.limitDate ? "text-danger-600" : "text-gray-900"
+              }`}
+            >
+              {crossingLabel(forecast.limitDate)}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Safe to spend</dt>
+            <dd className="font-medium text-gray-900">
+              {formatCurrency(forecast.safeToSpendPerDay)}/day
+            </dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Recurring still due</dt>
+            <dd className="font-medium text-gray-900">
+              {formatCurrency(forecast.recurringDue)}
+            </dd>
+          </div>
+        </dl>
+        <p className="text-xs text-gray-500">
+          Based on {formatCurrency(forecast.dailyPace)}/day of everyday spending
+          over the {forecast.daysLeft} days left, plus recurring expenses on
+          their due dates.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,517 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Save, Trash2 } from "lucide-react";
+import { budgetsAPI, expensesAPI } from "../lib/api";
+import {
+  getAuthToken,
+  getUserId,
+  formatCurrency,
+  dayStart,
+  dayEnd,
+} from "../lib/utils";
+import {
+  BASIS_LABELS,
+  getBudgetTemplates,
+  monthRange,
+  monthlySpending,
+  newBudgetTemplate,
+  planBudgets,
+  saveBudgetTemplates,
+} from "../lib/budgetTemplates";
+import type {
+  BudgetMonth,
+  BudgetPlanAction,
+  BudgetTemplate,
+  BudgetTemplateBasis,
+} from "../lib/budgetTemplates";
+import type { BankAccount, Budget } from "../lib/models";
+import dayjs from "dayjs";
+
+interface BudgetTemplateModalProps {
+  budgets: Budget[];
+  accounts: BankAccount[];
+  year: number;
+  onClose: () => void;
+}
+
+const ACTION_LABELS: Record<BudgetPlanAction, string> = {
+  create: "Create",
+  update: "Update",
+  keep: "Keep existing",
+  "no-data": "No spending history",
+};
+
+const ACTION_STYLES: Record<BudgetPlanAction, string> = {
+  create: "bg-success-100 text-success-800",
+  update: "bg-warning-100 text-warning-800",
+  keep: "bg-gray-100 text-gray-600",
+  "no-data": "bg-gray-100 text-gray-400",
+};
+
+const monthLabel = ({ month, year }: BudgetMonth) =>
+  dayjs()
+    .year(year)
+    .month(month - 1)
+    .format("MMM YYYY");
+
+export default function BudgetTemplateModal({
+  budgets,
+  accounts,
+  year,
+  onClose,
+}: BudgetTemplateModalProps) {
+  const [templates, setTemplates] = useState(getBudgetTemplates);
+  const [template, setTemplate] = useState<BudgetTemplate>(
+    () => templates[0] || newBudgetTemplate()
+  );
+  const [from, setFrom] = useState<BudgetMonth>({ month: 1, year });
+  const [to, setTo] = useState<BudgetMonth>({ month: 12, year });
+  const [overwrite, setOverwrite] = useState(false);
+  const [step, setStep] = useState<"setup" | "preview">("setup");
+  const [applying, setApplying] = useState(false);
+  const queryClient = useQueryClient();
+
+  const months = monthRange(from, to);
+
+  // Enough history for last year's spend on the first month through today.
+  const historyStart = dayjs()
+    .year(from.year)
+    .month(from.month - 1)
+    .subtract(12, "month")
+    .startOf("month");
+  const { data: expensesResponse, isLoading: historyLoading } = useQuery({
+    queryKey: ["expenses", "template", historyStart.format("YYYY-MM")],
+    queryFn: async () => {
+      const token = getAuthToken();
+      if (!token) throw new Error("No authentication token");
+
+      const userId = getUserId();
+      if (!userId) throw new Error("No user ID found");
+
+      const response = await expensesAPI.getAll(userId, {
+        startDate: dayStart(historyStart.format("YYYY-MM-DD")),
+        endDate: dayEnd(dayjs().endOf("month").format("YYYY-MM-DD")),
+      });
+      return response;
+    },
+    enabled: template.basis !== "flat",
+  });
+
+  const spending = monthlySpending(expensesResponse?.data || [], accounts);
+  const plan = planBudgets(template, months, budgets, spending, overwrite);
+  const changes = plan.filter(
+    (row) => row.action === "create" || row.action === "update"
+  );
+
+  const updateTemplate = (changes: Partial<BudgetTemplate>) => {
+    setTemplate((current) => ({ ...current, ...changes }));
+  };
+
+  const selectTemplate = (id: string) => {
+    setTemplate(templates.find((t) => t.id === id) || newBudgetTemplate());
+  };
+
+  const handleSaveTemplate = () => {
+    if (!template.name.trim()) {
+      alert("Please name the template");
+      return;
+    }
+    const saved = templates.some((t) => t.id === template.id)
+      ? templates.map((t) => (t.id === template.id ? template : t))
+      : [...templates, template];
+    saveBudgetTemplates(saved);
+    setTemplates(saved);
+  };
+
+  const handleDeleteTemplate = () => {
+    if (!window.confirm(`Delete the template "${template.name}"?`)) return;
+    const saved = templates.filter((t) => t.id !== template.id);
+    saveBudgetTemplates(saved);
+    setTemplates(saved);
+    setTemplate(saved[0] || newBudgetTemplate());
+  };
+
+  const handlePreview = () => {
+    if (months.length === 0) {
+      alert("The end month must not be before the start month");
+      return;
+    }
+    if (template.basis === "flat" && template.amount <= 0) {
+      alert("Please enter a valid budget amount");
+      return;
+    }
+    setStep("preview");
+  };
+
+  const handleApply = async () => {
+    const userId = getUserId();
+    if (!userId) return;
+
+    setApplying(true);
+    let failed = 0;
+    for (const row of changes) {
+      const amountLimit = row.amountLimit || 0;
+      try {
+        if (row.action === "update" && row.existing) {
+          await budgetsAPI.update(row.existing.id, {
+            amountLimit,
+            thresholdPercentage: template.thresholdPercentage,
+          });
+        } else {
+          await budgetsAPI.create({
+            userId,
+            month: row.month,
+            year: row.year,
+            amountLimit,
+            thresholdPercentage: template.thresholdPercentage,
+            rollover: template.rollover,
+          });
+        }
+      } catch {
+        failed++;
+      }
+    }
+    setApplying(false);
+
+    queryClient.invalidateQueries({ queryKey: ["budgets"] });
+    queryClient.invalidateQueries({ queryKey: ["budget-summary"] });
+
+    if (failed > 0) {
+      alert(
+        `Saved ${changes.length - failed} of ${changes.length} budgets. ${failed} failed.`
+      );
+    }
+    onClose();
+  };
+
+  const monthSelect = (
+    value: BudgetMonth,
+    onChange: (value: BudgetMonth) => void
+  ) => (
+    <div className="flex gap-2">
+      <select
+        value={value.month}
+        onChange={(e) =>
+          onChange({ ...value, month: parseInt(e.target.value) })
+        }
+        className="input flex-1"
+      >
+        {Array.from({ length: 12 }, (_, i) => (
+          <option key={i + 1} value={i + 1}>
+            {dayjs().month(i).format("MMMM")}
+          </option>
+        ))}
+      </select>
+      <input
+        type="number"
+        min="2020"
+        max="2030"
+        value={value.year}
+        onChange={(e) =>
+          onChange({ ...value, year: parseInt(e.target.value) || year })
+        }
+        className="input w-24"
+      />
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-bold mb-4">Apply Budget Template</h2>
+
+        {step === "setup" && (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Template
+              </label>
+              <div className="flex gap-2">
+                <select
+                  value={
+                    templates.some((t) => t.id === template.id)
+                      ? template.id
+                      : ""
+                  }
+                  onChange={(e) => selectTemplate(e.target.value)}
+                  className="input flex-1"
+                >
+                  <option value="">New template</option>
+                  {templates.map((t) => (
+                    <option key={t.id} value={t.id}>
+                      {t.name}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={handleSaveTemplate}
+                  className="btn btn-secondary flex items-center"
+                  title="Save template"
+                >
+                  <Save className="w-4 h-4" />
+                </button>
+                {templates.some((t) => t.id === template.id) && (
+                  <button
+                    type="button"
+                    onClick={handleDeleteTemplate}
+                    className="btn btn-secondary flex items-center text-danger-600"
+                    title="Delete template"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Name
+              </label>
+              <input
+                type="text"
+                value={template.name}
+                onChange={(e) => updateTemplate({ name: e.target.value })}
+                className="input w-full"
+                placeholder="e.g., Standard month"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Amount based on
+              </label>
+              <select
+                value={template.basis}
+                onChange={(e) =>
+                  updateTemplate({
+                    basis: e.target.value as BudgetTemplateBasis,
+                  })
+                }
+                className="input w-full"
+              >
+                {Object.entries(BASIS_LABELS).map(([basis, label]) => (
+                  <option key={basis} value={basis}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {template.basis === "flat" ? (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Budget Amount *
+                  </label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={template.amount}
+                    onChange={(e) =>
+                      updateTemplate({
+                        amount: parseFloat(e.target.value) || 0,
+                      })
+                    }
+                    className="input w-full"
+                  />
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Adjust by (%)
+                  </label>
+                  <input
+                    type="number"
+                    step="1"
+                    value={template.adjustPercentage}
+                    onChange={(e) =>
+                      updateTemplate({
+                        adjustPercentage: parseFloat(e.target.value) || 0,
+                      })
+                    }
+                    className="input w-full"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    Negative to budget less than you spent.
+                  </p>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Alert Threshold (%)
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  max="100"
+                  value={template.thresholdPercentage}
+                  onChange={(e) =>
+                    updateTemplate({
+                      thresholdPercentage: parseInt(e.target.value) || 80,
+                    })
+                  }
+                  className="input w-full"
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                id="templateRollover"
+                checked={template.rollover}
+                onChange={(e) => updateTemplate({ rollover: e.target.checked })}
+                className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+              />
+              <label
+                htmlFor="templateRollover"
+                className="ml-2 block text-sm text-gray-900"
+              >
+                Roll over unspent money between months
+              </label>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  From
+                </label>
+                {monthSelect(from, setFrom)}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  To
+                </label>
+                {monthSelect(to, setTo)}
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={() => {
+                setFrom({ month: 1, year });
+                setTo({ month: 12, year });
+              }}
+              className="text-sm text-primary-600 hover:text-primary-800"
+            >
+              Whole of {year}
+            </button>
+
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                id="templateOverwrite"
+                checked={overwrite}
+                onChange={(e) => setOverwrite(e.target.checked)}
+                className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+              />
+              <label
+                htmlFor="templateOverwrite"
+                className="ml-2 block text-sm text-gray-900"
+              >
+                Overwrite months that already have a budget
+              </label>
+            </div>
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              {changes.length} of {plan.length} months will change.
+              {historyLoading && " Loading spending history..."}
+            </p>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Month
+                    </th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Current
+                    </th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      New
+                    </th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Action
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {plan.map((row) => (
+                    <tr key={`${row.year}-${row.month}`}>
+                      <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">
+                        {monthLabel(row)}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">
+                        {row.existing
+                          ? `${formatCurrency(row.existing.amountLimit)} (${
+                              row.existing.thresholdPercentage
+                            }%)`
+                          : "-"}
+                      </td>
+                      <td
+                        className={`px-3 py-2 whitespace-nowrap text-sm ${
+                          row.action === "create" || row.action === "update"
+                            ? "font-medium text-gray-900"
+                            : "text-gray-400"
+                        }`}
+                      >
+                        {row.amountLimit !== null
+                          ? `${formatCurrency(row.amountLimit)} (${
+                              template.thresholdPercentage
+                            }%)`
+                          : "-"}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        <span
+                          className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                            ACTION_STYLES[row.action]
+                          }`}
+                        >
+                          {ACTION_LABELS[row.action]}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-4">
+          <button
+            type="button"
+            onClick={step === "preview" ? () => setStep("setup") : onClose}
+            className="btn btn-secondary"
+          >
+            {step === "preview" ? "Back" : "Cancel"}
+          </button>
+          {step === "setup" && (
+            <button
+              type="button"
+              onClick={handlePreview}
+              className="btn btn-primary"
+            >
+              Preview
+            </button>
+          )}
+          {step === "preview" && (
+            <button
+              type="button"
+              onClick={handleApply}
+              disabled={applying || historyLoading || changes.length === 0}
+              className="btn btn-primary"
+            >
+              {applying ? "Saving..." : `Apply to ${changes.length} Months`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
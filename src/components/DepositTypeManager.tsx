@@ -0,0 +1,315 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Archive, ArchiveRestore, Edit, Plus } from "lucide-react";
+import { categoriesAPI, depositsAPI } from "../lib/api";
+import { getAuthToken, getUserId } from "../lib/utils";
+import {
+  CATEGORY_COLORS,
+  DEPOSIT_TYPE_ICONS,
+  isArchived,
+} from "../lib/categories";
+import type { DepositType, DepositTypeInput } from "../lib/models";
+import IconColorPicker from "./IconColorPicker";
+
+interface DepositTypeManagerProps {
+  onClose: () => void;
+}
+
+const emptyTypeForm = (): DepositTypeInput => ({
+  name: "",
+  description: "",
+  icon: DEPOSIT_TYPE_ICONS[0],
+  color: CATEGORY_COLORS[4],
+});
+
+export default function DepositTypeManager({
+  onClose,
+}: DepositTypeManagerProps) {
+  // null while the list is shown; "new" or a type while editing
+  const [editing, setEditing] = useState<DepositType | "new" | null>(null);
+  const [formData, setFormData] = useState<DepositTypeInput>(emptyTypeForm());
+  const queryClient = useQueryClient();
+
+  // Get deposit types, archived ones included
+  const { data: depositTypesResponse, isLoading } = useQuery({
+    queryKey: ["deposit-types", "all"],
+    queryFn: async () => {
+      const token = getAuthToken();
+      if (!token) throw new Error("No authentication token");
+
+      const response = await categoriesAPI.getDepositTypes({
+        includeArchived: true,
+      });
+      return response;
+    },
+  });
+
+  const depositTypes = depositTypesResponse?.data || [];
+
+  // Every deposit, to count how often each type is used
+  const { data: depositsResponse } = useQuery({
+    queryKey: ["all-deposits"],
+    queryFn: async () => {
+      const token = getAuthToken();
+      if (!token) throw new Error("No authentication token");
+
+      const userId = getUserId();
+      if (!userId) throw new Error("No user ID found");
+
+      const response = await depositsAPI.getAll(userId);
+      return response;
+    },
+  });
+
+  const usage = new Map<string, number>();
+  for (const deposit of depositsResponse?.data || []) {
+    usage.set(
+      deposit.depositTypeId,
+      (usage.get(deposit.depositTypeId) || 0) + 1
+    );
+  }
+
+  const saveMutation = useMutation({
+    mutationFn: (data: DepositTypeInput) =>
+      editing && editing !== "new"
+        ? categoriesAPI.updateDepositType(editing.id, data)
+        : categoriesAPI.createDepositType(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["deposit-types"] });
+      setEditing(null);
+    },
+    onError: (error) => {
+      alert(error.message || "Failed to save deposit type");
+    },
+  });
+
+  const archiveMutation = useMutation({
+    mutationFn: ({ id, archived }: { id: string; archived: boolean }) =>
+      categoriesAPI.updateDepositType(id, { archived }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["deposit-types"] });
+    },
+    onError: (error) => {
+      alert(error.message || "Failed to archive deposit type");
+    },
+  });
+
+  const startEditing = (type: DepositType | "new") => {
+    setEditing(type);
+    setFormData(
+      type === "new"
+        ? emptyTypeForm()
+        : {
+            name: type.name,
+            description: type.description || "",
+            icon: type.icon || "",
+            color: type.color || CATEGORY_COLORS[4],
+          }
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = formData.name.trim();
+    if (!name) {
+      alert("Please enter a name");
+      return;
+    }
+    const duplicate = depositTypes.some(
+      (t) =>
+        (editing === "new" || t.id !== editing?.id) &&
+        t.name.toLowerCase() === name.toLowerCase()
+    );
+    if (duplicate) {
+      alert(`A deposit type called "${name}" already exists`);
+      return;
+    }
+    saveMutation.mutate({ ...formData, name });
+  };
+
+  // Archived types stay on the deposits that use them
+  const handleArchive = (type: DepositType) => {
+    const count = usage.get(type.id) || 0;
+    const message = count
+      ? `${count} deposit(s) use "${type.name}". They will keep it, but it will no longer be offered for new deposits. Archive it?`
+      : `Archive "${type.name}"?`;
+    if (window.confirm(message)) {
+      archiveMutation.mutate({ id: type.id, archived: true });
+    }
+  };
+
+  // Active types first
+  const sortedTypes = [...depositTypes].sort(
+    (a, b) =>
+      Number(isArchived(a)) - Number(isArchived(b)) ||
+      a.name.localeCompare(b.name)
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-md max-h-[90vh] overflow-y-auto">
+        {editing ? (
+          <>
+            <h2 className="text-xl font-bold mb-4">
+              {editing === "new" ? "New Deposit Type" : "Edit Deposit Type"}
+            </h2>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Name *
+                </label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) =>
+                    setFormData({ ...formData, name: e.target.value })
+                  }
+                  className="input w-full"
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Description
+                </label>
+                <input
+                  type="text"
+                  value={formData.description}
+                  onChange={(e) =>
+                    setFormData({ ...formData, description: e.target.value })
+                  }
+                  className="input w-full"
+                />
+              </div>
+
+              <IconColorPicker
+                icons={DEPOSIT_TYPE_ICONS}
+                icon={formData.icon || ""}
+                color={formData.color || CATEGORY_COLORS[4]}
+                onIconChange={(icon) => setFormData({ ...formData, icon })}
+                onColorChange={(color) => setFormData({ ...formData, color })}
+              />
+
+              <div className="flex justify-end space-x-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setEditing(null)}
+                  className="btn btn-secondary"
+                >
+                  Back
+                </button>
+                <button
+                  type="submit"
+                  disabled={saveMutation.isPending}
+                  className="btn btn-primary"
+                >
+                  {saveMutation.isPending ? "Saving..." : "Save"}
+                </button>
+              </div>
+            </form>
+          </>
+        ) : (
+          <>
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-bold">Deposit Types</h2>
+              <button
+                onClick={() => startEditing("new")}
+                className="text-primary-600 hover:text-primary-900 text-sm font-medium flex items-center"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                New Type
+              </button>
+            </div>
+
+            {isLoading ? (
+              <div className="flex items-center justify-center h-32">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+              </div>
+            ) : sortedTypes.length === 0 ? (
+              <p className="text-sm text-gray-500">No deposit types yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {sortedTypes.map((type) => {
+                  const archived = isArchived(type);
+                  const count = usage.get(type.id) || 0;
+                  return (
+                    <li
+                      key={type.id}
+                      className={`py-3 flex items-center justify-between ${
+                        archived ? "opacity-60" : ""
+                      }`}
+                    >
+                      <div className="flex items-center min-w-0">
+                        <div
+                          className="w-8 h-8 rounded-lg flex items-center justify-center shrink-0"
+                          style={{
+                            backgroundColor: `${type.color || "#6b7280"}33`,
+                          }}
+                        >
+                          {type.icon || "💰"}
+                        </div>
+                        <div className="ml-3 min-w-0">
+                          <p className="text-sm font-medium text-gray-900 truncate">
+                            {type.name}
+                            {archived && (
+                              <span className="ml-2 text-xs text-gray-500">
+                                Archived
+                              </span>
+                            )}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {count === 1 ? "1 deposit" : `${count} deposits`}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex space-x-2 ml-3 shrink-0">
+                        {archived ? (
+                          <button
+                            onClick={() =>
+                              archiveMutation.mutate({
+                                id: type.id,
+                                archived: false,
+                              })
+                            }
+                            className="text-primary-600 hover:text-primary-900"
+                            title="Restore"
+                          >
+                            <ArchiveRestore className="w-4 h-4" />
+                          </button>
+                        ) : (
+                          <>
+                            <button
+                              onClick={() => startEditing(type)}
+                              className="text-primary-600 hover:text-primary-900"
+                              title="Edit"
+                            >
+                              <Edit className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => handleArchive(type)}
+                              className="text-danger-600 hover:text-danger-900"
+                              title="Archive"
+                            >
+                              <Archive className="w-4 h-4" />
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+
+            <div className="flex justify-end pt-4">
+              <button onClick={onClose} className="btn btn-primary">
+                Done
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
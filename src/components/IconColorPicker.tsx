@@ -0,0 +1,77 @@
+import { CATEGORY_COLORS } from "../lib/categories";
+
+interface IconColorPickerProps {
+  icons: string[];
+  icon: string;
+  color: string;
+  onIconChange: (icon: string) => void;
+  onColorChange: (color: string) => void;
+}
+
+export default function IconColorPicker({
+  icons,
+  icon,
+  color,
+  onIconChange,
+  onColorChange,
+}: IconColorPickerProps) {
+  return (
+    <>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Icon
+        </label>
+        <div className="grid grid-cols-8 gap-1 mb-2">
+          {icons.map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => onIconChange(option)}
+              className={`h-9 rounded-lg text-lg ${
+                icon === option
+                  ? "bg-primary-100 ring-2 ring-primary-500"
+                  : "hover:bg-gray-100"
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+        <input
+          type="text"
+          value={icon}
+          onChange={(e) => onIconChange(e.target.value)}
+          className="input w-full"
+          placeholder="Or type any emoji"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Color
+        </label>
+        <div className="flex flex-wrap items-center gap-2">
+          {CATEGORY_COLORS.map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => onColorChange(option)}
+              className={`w-7 h-7 rounded-full ${
+                color === option ? "ring-2 ring-offset-2 ring-gray-400" : ""
+              }`}
+              style={{ backgroundColor: option }}
+              title={option}
+            ></button>
+          ))}
+          <input
+            type="color"
+            value={color}
+            onChange={(e) => onColorChange(e.target.value)}
+            className="w-9 h-8 cursor-pointer"
+            title="Custom color"
+          />
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,706 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { AlertTriangle, Upload } from "lucide-react";
+import { expensesAPI, depositsAPI, categoriesAPI } from "../lib/api";
+import { getAuthToken, getUserId, formatCurrency } from "../lib/utils";
+import { currencyOf } from "../lib/currency";
+import {
+  CSV_DATE_FORMATS,
+  CSV_DELIMITERS,
+  buildCategoryIndex,
+  detectDecimalSeparator,
+  detectDelimiter,
+  detectFormat,
+  findDuplicate,
+  mapCsvRows,
+  parseCsv,
+  parseOfx,
+  parseQif,
+  suggestCategory,
+} from "../lib/statementImport";
+import { applyRules } from "../lib/rules";
+import type { RuleSubject } from "../lib/rules";
+import type {
+  CsvColumnMapping,
+  DecimalSeparator,
+  StatementRow,
+} from "../lib/statementImport";
+import type { BankAccount } from "../lib/models";
+import dayjs from "dayjs";
+
+interface ImportStatementModalProps {
+  accounts: BankAccount[];
+  initialAccountId?: string;
+  onClose: () => void;
+}
+
+interface ReviewRow extends StatementRow {
+  include: boolean;
+  kind: "expense" | "deposit";
+  categoryId: string;
+  depositTypeId: string;
+  note: string;
+  // From rules; sent as they are.
+  tags: string[];
+  isDuplicate: boolean;
+}
+
+// Guesses a column from common bank export header names.
+const guessColumn = (headers: string[], names: string[]) => {
+  const index = headers.findIndex((header) =>
+    names.some((name) => header.toLowerCase().includes(name))
+  );
+  return index === -1 ? undefined : index;
+};
+
+export default function ImportStatementModal({
+  accounts,
+  initialAccountId,
+  onClose,
+}: ImportStatementModalProps) {
+  const [step, setStep] = useState<"upload" | "map" | "review">("upload");
+  const [bankAccountId, setBankAccountId] = useState(
+    initialAccountId ||
+      accounts.find((a) => a.isDefault)?.id ||
+      accounts[0]?.id ||
+      ""
+  );
+  const [csvText, setCsvText] = useState("");
+  const [delimiter, setDelimiter] = useState(",");
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({
+    hasHeader: true,
+    dateFormat: CSV_DATE_FORMATS[0],
+    decimalSeparator: ".",
+    date: 0,
+    description: 1,
+    amount: 2,
+  });
+  const [reviewRows, setReviewRows] = useState<ReviewRow[]>([]);
+  const [importing, setImporting] = useState(false);
+  const queryClient = useQueryClient();
+
+  // Past transactions drive both category suggestions and duplicate checks.
+  const { data: expensesResponse, isLoading: expensesLoading } = useQuery({
+    queryKey: ["expenses", "import"],
+    queryFn: async () => {
+      const token = getAuthToken();
+      if (!token) throw new Error("No authentication token");
+
+      const userId = getUserId();
+      if (!userId) throw new Error("No user ID found");
+
+      const response = await expensesAPI.getAll(userId);
+      return response;
+    },
+  });
+
+  const { data: depositsResponse, isLoading: depositsLoading } = useQuery({
+    queryKey: ["deposits", "import"],
+    queryFn: async () => {
+      const token = getAuthToken();
+      if (!token) throw new Error("No authentication token");
+
+      const userId = getUserId();
+      if (!userId) throw new Error("No user ID found");
+
+      const response = await depositsAPI.getAll(userId);
+      return response;
+    },
+  });
+
+  const { data: expenseCategoriesResponse } = useQuery({
+    queryKey: ["expense-categories"],
+    queryFn: async () => {
+      const token = getAuthToken();
+      if (!token) throw new Error("No authentication token");
+
+      const response = await categoriesAPI.getExpenseCategories();
+      return response;
+    },
+  });
+
+  const { data: depositTypesResponse } = useQuery({
+    queryKey: ["deposit-types"],
+    queryFn: async () => {
+      const token = getAuthToken();
+      if (!token) throw new Error("No authentication token");
+
+      const response = await categoriesAPI.getDepositTypes();
+      return response;
+    },
+  });
+
+  const expenses = expensesResponse?.data || [];
+  const deposits = depositsResponse?.data || [];
+  const expenseCategories = expenseCategoriesResponse?.data || [];
+  const depositTypes = depositTypesResponse?.data || [];
+  const historyLoading = expensesLoading || depositsLoading;
+
+  const startReview = (rows: StatementRow[]) => {
+    if (rows.length === 0) {
+      alert("No transactions were found in this file");
+      return;
+    }
+    const index = buildCategoryIndex(expenses);
+    setReviewRows(
+      rows.map((row) => {
+        const isDuplicate = !!findDuplicate(
+          row,
+          bankAccountId,
+          expenses,
+          deposits
+        );
+        const kind = row.amount < 0 ? "expense" : "deposit";
+        // Rules go first; the guesses only fill what they leave empty
+        const { subject } = applyRules<RuleSubject>(
+          {
+            amount: Math.abs(row.amount),
+            bankAccountId,
+            note: row.description,
+            date: row.date,
+          },
+          kind,
+          kind === "expense" ? expenseCategories : depositTypes
+        );
+        return {
+          ...row,
+          include: !isDuplicate,
+          kind,
+          categoryId:
+            subject.categoryId || suggestCategory(row.description, index) || "",
+          depositTypeId: subject.depositTypeId || depositTypes[0]?.id || "",
+          note: subject.note || "",
+          tags: subject.tags || [],
+          isDuplicate,
+        };
+      })
+    );
+    setStep("review");
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (!bankAccountId) {
+      alert("Please select a bank account first");
+      return;
+    }
+
+    const format = detectFormat(file.name);
+    if (!format) {
+      alert("Unsupported file type. Please upload a CSV, OFX or QIF file.");
+      return;
+    }
+
+    const text = await file.text();
+    if (format === "ofx") {
+      startReview(parseOfx(text));
+    } else if (format === "qif") {
+      startReview(parseQif(text));
+    } else {
+      setCsvText(text);
+      loadCsv(text, detectDelimiter(text));
+      setStep("map");
+    }
+  };
+
+  // Splits the file with `separator` and guesses the columns again, since
+  // they change with it.
+  const loadCsv = (text: string, separator: string) => {
+    const rows = parseCsv(text, separator);
+    const headers = rows[0] || [];
+    const debit = guessColumn(headers, ["debit", "withdrawal"]);
+    const credit = guessColumn(headers, ["credit", "deposit"]);
+    const columns =
+      debit !== undefined && credit !== undefined
+        ? { debit, credit }
+        : { amount: guessColumn(headers, ["amount"]) ?? 2 };
+    const amounts = rows
+      .slice(1)
+      .flatMap((cells) =>
+        Object.values(columns).map((index) => cells[index] || "")
+      );
+    setDelimiter(separator);
+    setCsvRows(rows);
+    setMapping({
+      hasHeader: true,
+      dateFormat: CSV_DATE_FORMATS[0],
+      decimalSeparator: detectDecimalSeparator(amounts),
+      date: guessColumn(headers, ["date"]) ?? 0,
+      description:
+        guessColumn(headers, ["description", "narration", "details"]) ?? 1,
+      ...columns,
+    });
+  };
+
+  const updateRow = (index: number, changes: Partial<ReviewRow>) => {
+    setReviewRows((rows) =>
+      rows.map((row, i) => (i === index ? { ...row, ...changes } : row))
+    );
+  };
+
+  const handleImport = async () => {
+    const userId = getUserId();
+    if (!userId) return;
+
+    const selected = reviewRows.filter((row) => row.include);
+    if (
+      selected.some((row) =>
+        row.kind === "expense" ? !row.categoryId : !row.depositTypeId
+      )
+    ) {
+      alert("Please choose a category or deposit type for every selected row");
+      return;
+    }
+
+    setImporting(true);
+    let failed = 0;
+    // Sequential so each create settles the account balance before the next.
+    for (const row of selected) {
+      const base = {
+        userId,
+        bankAccountId,
+        amount: Math.abs(row.amount),
+        note: row.note,
+        date: new Date(row.date).toISOString(),
+        ...(row.tags.length > 0 ? { tags: row.tags } : {}),
+      };
+      try {
+        if (row.kind === "expense") {
+          await expensesAPI.create({ ...base, categoryId: row.categoryId });
+        } else {
+          await depositsAPI.create({
+            ...base,
+            depositTypeId: row.depositTypeId,
+          });
+        }
+      } catch {
+        failed++;
+      }
+    }
+    setImporting(false);
+
+    queryClient.invalidateQueries({ queryKey: ["expenses"] });
+    queryClient.invalidateQueries({ queryKey: ["deposits"] });
+    queryClient.invalidateQueries({ queryKey: ["bank-accounts"] });
+
+    if (failed > 0) {
+      alert(
+        `Imported ${selected.length - failed} of ${selected.length} transactions. ${failed} failed.`
+      );
+    }
+    onClose();
+  };
+
+  const headers = csvRows[0] || [];
+  const columnOptions = headers.map((header, index) => (
+    <option key={index} value={index}>
+      {mapping.hasHeader ? header : `Column ${index + 1}`}
+    </option>
+  ));
+  const selectedCount = reviewRows.filter((row) => row.include).length;
+  const duplicateCount = reviewRows.filter((row) => row.isDuplicate).length;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-bold mb-4">Import Statement</h2>
+
+        {step === "upload" && (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Bank Account *
+              </label>
+              <select
+                value={bankAccountId}
+                onChange={(e) => setBankAccountId(e.target.value)}
+                className="input w-full"
+                required
+              >
+                <option value="">Select account</option>
+                {accounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.name} - {account.bankName}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Statement File *
+              </label>
+              <input
+                type="file"
+                accept=".csv,.ofx,.qfx,.qif"
+                onChange={handleFileChange}
+                disabled={historyLoading}
+                className="input w-full"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                {historyLoading
+                  ? "Loading existing transactions..."
+                  : "CSV, OFX or QIF exported from your bank."}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {step === "map" && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Tell us which columns hold each field. Outflows should be negative
+              in a single amount column.
+            </p>
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={mapping.hasHeader}
+                onChange={(e) =>
+                  setMapping({ ...mapping, hasHeader: e.target.checked })
+                }
+                className="mr-2"
+              />
+              First row is a header
+            </label>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Separator
+                </label>
+                <select
+                  value={delimiter}
+                  onChange={(e) => loadCsv(csvText, e.target.value)}
+                  className="input w-full"
+                >
+                  {CSV_DELIMITERS.map(({ value, label }) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Decimal Mark
+                </label>
+                <select
+                  value={mapping.decimalSeparator}
+                  onChange={(e) =>
+                    setMapping({
+                      ...mapping,
+                      decimalSeparator: e.target.value as DecimalSeparator,
+                    })
+                  }
+                  className="input w-full"
+                >
+                  <option value=".">Point (1,234.50)</option>
+                  <option value=",">Comma (1.234,50)</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Date Column
+                </label>
+                <select
+                  value={mapping.date}
+                  onChange={(e) =>
+                    setMapping({ ...mapping, date: Number(e.target.value) })
+                  }
+                  className="input w-full"
+                >
+                  {columnOptions}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Date Format
+                </label>
+                <select
+                  value={mapping.dateFormat}
+                  onChange={(e) =>
+                    setMapping({ ...mapping, dateFormat: e.target.value })
+                  }
+                  className="input w-full"
+                >
+                  {CSV_DATE_FORMATS.map((format) => (
+                    <option key={format} value={format}>
+                      {format}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Description Column
+                </label>
+                <select
+                  value={mapping.description}
+                  onChange={(e) =>
+                    setMapping({
+                      ...mapping,
+                      description: Number(e.target.value),
+                    })
+                  }
+                  className="input w-full"
+                >
+                  {columnOptions}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Amounts
+                </label>
+                <select
+                  value={mapping.amount !== undefined ? "single" : "split"}
+                  onChange={(e) =>
+                    setMapping(
+                      e.target.value === "single"
+                        ? {
+                            ...mapping,
+                            amount: 0,
+                            debit: undefined,
+                            credit: undefined,
+                          }
+                        : { ...mapping, amount: undefined, debit: 0, credit: 0 }
+                    )
+                  }
+                  className="input w-full"
+                >
+                  <option value="single">Single signed amount column</option>
+                  <option value="split">
+                    Separate debit and credit columns
+                  </option>
+                </select>
+              </div>
+              {mapping.amount !== undefined ? (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Amount Column
+                  </label>
+                  <select
+                    value={mapping.amount}
+                    onChange={(e) =>
+                      setMapping({ ...mapping, amount: Number(e.target.value) })
+                    }
+                    className="input w-full"
+                  >
+                    {columnOptions}
+                  </select>
+                </div>
+              ) : (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Debit Column
+                    </label>
+                    <select
+                      value={mapping.debit}
+                      onChange={(e) =>
+                        setMapping({
+                          ...mapping,
+                          debit: Number(e.target.value),
+                        })
+                      }
+                      className="input w-full"
+                    >
+                      {columnOptions}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Credit Column
+                    </label>
+                    <select
+                      value={mapping.credit}
+                      onChange={(e) =>
+                        setMapping({
+                          ...mapping,
+                          credit: Number(e.target.value),
+                        })
+                      }
+                      className="input w-full"
+                    >
+                      {columnOptions}
+                    </select>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        {step === "review" && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              {selectedCount} of {reviewRows.length} transactions selected.
+              {duplicateCount > 0 &&
+                ` ${duplicateCount} look like duplicates and were deselected.`}
+            </p>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2"></th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Date
+                    </th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Description
+                    </th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Amount
+                    </th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Type
+                    </th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Category
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {reviewRows.map((row, index) => (
+                    <tr
+                      key={index}
+                      className={row.isDuplicate ? "bg-warning-50" : ""}
+                    >
+                      <td className="px-3 py-2">
+                        <input
+                          type="checkbox"
+                          checked={row.include}
+                          onChange={(e) =>
+                            updateRow(index, { include: e.target.checked })
+                          }
+                        />
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">
+                        {dayjs(row.date).format("MMM D, YYYY")}
+                        {row.isDuplicate && (
+                          <span
+                            className="ml-1 inline-flex text-warning-600"
+                            title="Matches an existing transaction on this account"
+                          >
+                            <AlertTriangle className="w-4 h-4" />
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="text"
+                          value={row.note}
+                          onChange={(e) =>
+                            updateRow(index, { note: e.target.value })
+                          }
+                          className="input w-full text-sm"
+                        />
+                      </td>
+                      <td
+                        className={`px-3 py-2 whitespace-nowrap text-sm font-medium ${
+                          row.amount < 0
+                            ? "text-danger-600"
+                            : "text-success-600"
+                        }`}
+                      >
+                        {formatCurrency(
+                          row.amount,
+                          currencyOf(
+                            accounts.find((a) => a.id === bankAccountId)
+                          )
+                        )}
+                      </td>
+                      <td className="px-3 py-2">
+                        <select
+                          value={row.kind}
+                          onChange={(e) =>
+                            updateRow(index, {
+                              kind: e.target.value as ReviewRow["kind"],
+                            })
+                          }
+                          className="input text-sm"
+                        >
+                          <option value="expense">Expense</option>
+                          <option value="deposit">Deposit</option>
+                        </select>
+                      </td>
+                      <td className="px-3 py-2">
+                        {row.kind === "expense" ? (
+                          <select
+                            value={row.categoryId}
+                            onChange={(e) =>
+                              updateRow(index, { categoryId: e.target.value })
+                            }
+                            className="input w-full text-sm"
+                          >
+                            <option value="">Select category</option>
+                            {expenseCategories.map((category) => (
+                              <option key={category.id} value={category.id}>
+                                {category.icon} {category.name}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          <select
+                            value={row.depositTypeId}
+                            onChange={(e) =>
+                              updateRow(index, {
+                                depositTypeId: e.target.value,
+                              })
+                            }
+                            className="input w-full text-sm"
+                          >
+                            <option value="">Select type</option>
+                            {depositTypes.map((type) => (
+                              <option key={type.id} value={type.id}>
+                                {type.icon} {type.name}
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={importing}
+            className="btn btn-secondary"
+          >
+            Cancel
+          </button>
+          {step === "map" && (
+            <button
+              type="button"
+              onClick={() => startReview(mapCsvRows(csvRows, mapping))}
+              className="btn btn-primary"
+            >
+              Continue
+            </button>
+          )}
+          {step === "review" && (
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={importing || selectedCount === 0}
+              className="btn btn-primary flex items-center"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              {importing
+                ? "Importing..."
+                : `Import ${selectedCount} Transactions`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
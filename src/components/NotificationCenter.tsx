@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Bell, X, CheckCheck, AlertTriangle, Info } from "lucide-react";
+import { notificationsAPI, budgetsAPI } from "../lib/api";
+import { getAuthToken, getUserId } from "../lib/utils";
+import { buildInbox } from "../lib/notifications";
+import type { InboxItem } from "../lib/notifications";
+import dayjs from "dayjs";
+
+const POLL_INTERVAL = 60 * 1000;
+
+export default function NotificationCenter() {
+  const [isOpen, setIsOpen] = useState(false);
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  // Both feeds poll in the background and refresh whenever the tab regains
+  // focus, regardless of the app-wide stale time.
+  const { data: notificationsResponse } = useQuery({
+    queryKey: ["notifications"],
+    queryFn: async () => {
+      const token = getAuthToken();
+      if (!token) throw new Error("No authentication token");
+
+      const userId = getUserId();
+      if (!userId) throw new Error("No user ID found");
+
+      const response = await notificationsAPI.getAll(userId);
+      return response;
+    },
+    refetchInterval: POLL_INTERVAL,
+    refetchOnWindowFocus: "always",
+  });
+
+  const { data: alertsResponse } = useQuery({
+    queryKey: ["budget-alerts"],
+    queryFn: async () => {
+      const token = getAuthToken();
+      if (!token) throw new Error("No authentication token");
+
+      const userId = getUserId();
+      if (!userId) throw new Error("No user ID found");
+
+      const response = await budgetsAPI.getAlerts(userId);
+      return response;
+    },
+    refetchInterval: POLL_INTERVAL,
+    refetchOnWindowFocus: "always",
+  });
+
+  const items = buildInbox(
+    notificationsResponse?.data || [],
+    alertsResponse?.data || []
+  );
+  const unreadItems = items.filter((item) => !item.isRead);
+
+  const markAsRead = async (item: InboxItem) => {
+    if (item.source === "budget-alert") {
+      await budgetsAPI.markAlertAsRead(item.id);
+    } else {
+      await notificationsAPI.markAsRead(item.id);
+    }
+  };
+
+  const invalidateFeeds = () => {
+    queryClient.invalidateQueries({ queryKey: ["notifications"] });
+    queryClient.invalidateQueries({ queryKey: ["budget-alerts"] });
+  };
+
+  const markReadMutation = useMutation({
+    mutationFn: markAsRead,
+    onSuccess: invalidateFeeds,
+  });
+
+  // There is no bulk endpoint, so each unread item is marked individually.
+  const markAllReadMutation = useMutation({
+    mutationFn: (unread: InboxItem[]) => Promise.all(unread.map(markAsRead)),
+    onSuccess: invalidateFeeds,
+    onError: (err) => {
+      alert(err.message || "Failed to mark notifications as read");
+      invalidateFeeds();
+    },
+  });
+
+  const handleOpenItem = (item: InboxItem) => {
+    if (!item.isRead) markReadMutation.mutate(item);
+    setIsOpen(false);
+    navigate(item.link);
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="relative text-gray-400 hover:text-gray-500"
+      >
+        <Bell className="h-6 w-6" />
+        {unreadItems.length > 0 && (
+          <span className="absolute -top-1 -right-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-danger-600 px-1 text-[10px] font-medium text-white">
+            {unreadItems.length > 9 ? "9+" : unreadItems.length}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="fixed inset-0 z-50">
+          <div
+            className="fixed inset-0 bg-black/50"
+            onClick={() => setIsOpen(false)}
+          />
+          <div className="fixed inset-y-0 right-0 flex w-full max-w-sm flex-col bg-white shadow-xl">
+            <div className="flex items-center justify-between border-b border-gray-200 px-4 py-4">
+              <h2 className="text-lg font-medium text-gray-900">
+                Notifications
+              </h2>
+              <div className="flex items-center gap-x-3">
+                <button
+                  onClick={() => markAllReadMutation.mutate(unreadItems)}
+                  disabled={
+                    unreadItems.length === 0 || markAllReadMutation.isPending
+                  }
+                  className="flex items-center text-sm text-primary-600 hover:text-primary-900 disabled:text-gray-300"
+                >
+                  <CheckCheck className="mr-1 h-4 w-4" />
+                  Mark all read
+                </button>
+                <button
+                  onClick={() => setIsOpen(false)}
+                  className="text-gray-400 hover:text-gray-500"
+                >
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+              {items.length === 0 ? (
+                <div className="py-12 text-center">
+                  <Bell className="mx-auto h-12 w-12 text-gray-400" />
+                  <p className="mt-2 text-sm text-gray-500">
+                    You're all caught up
+                  </p>
+                </div>
+              ) : (
+                <ul className="divide-y divide-gray-200">
+                  {items.map((item) => (
+                    <li
+                      key={`${item.source}-${item.id}`}
+                      className={`flex gap-x-3 px-4 py-3 ${
+                        item.isRead ? "bg-white" : "bg-primary-50"
+                      }`}
+                    >
+                      <div className="mt-0.5">
+                        {item.source === "budget-alert" ? (
+                          <AlertTriangle className="h-5 w-5 text-warning-600" />
+                        ) : (
+                          <Info className="h-5 w-5 text-primary-600" />
+                        )}
+                      </div>
+                      <button
+                        onClick={() => handleOpenItem(item)}
+                        className="flex-1 text-left"
+                      >
+                        <p
+                          className={`text-sm text-gray-900 ${
+                            item.isRead ? "" : "font-semibold"
+                          }`}
+                        >
+                          {item.title}
+                        </p>
+                        <p className="text-sm text-gray-600">{item.message}</p>
+                        <p className="mt-1 text-xs text-gray-400">
+                          {dayjs(item.createdAt).format("MMM D, YYYY h:mm A")}
+                        </p>
+                      </button>
+                      {!item.isRead && (
+                        <button
+                          onClick={() => markReadMutation.mutate(item)}
+                          className="self-start text-xs text-gray-500 hover:text-gray-700"
+                        >
+                          Mark read
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,34 @@
+import { formatCurrency } from "../lib/utils";
+import { getBaseCurrency, hasRate } from "../lib/currency";
+
+interface OriginalAmountsProps {
+  totals: Record<string, number>;
+}
+
+// Shows the unconverted per-currency amounts behind a converted total, and
+// warns about currencies left out of it for lack of a rate. Renders nothing
+// when everything was already in the base currency.
+export default function OriginalAmounts({ totals }: OriginalAmountsProps) {
+  const currencies = Object.keys(totals);
+  if (currencies.every((currency) => currency === getBaseCurrency())) {
+    return null;
+  }
+
+  const missing = currencies.filter((currency) => !hasRate(currency));
+
+  return (
+    <>
+      <p className="text-xs text-gray-500">
+        {currencies
+          .map((currency) => formatCurrency(totals[currency], currency))
+          .join(" + ")}
+      </p>
+      {missing.length > 0 && (
+        <p className="text-xs text-warning-600">
+          Rate missing for {missing.join(", ")}; not included in the total. Add
+          it in Settings.
+        </p>
+      )}
+    </>
+  );
+}
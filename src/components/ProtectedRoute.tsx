@@ -2,6 +2,7 @@ import { useEffect, useState } from "react";
 import { Navigate, useLocation } from "react-router-dom";
 import type { ReactNode } from "react";
 import { authAPI } from "../lib/api";
+import SessionManager from "./SessionManager";
 
 interface ProtectedRouteProps {
   children: ReactNode;
@@ -48,5 +49,10 @@ export default function ProtectedRoute({ children }: ProtectedRouteProps) {
     return <Navigate to="/login" state={{ from: location }} replace />;
   }
 
-  return <>{children}</>;
+  return (
+    <>
+      {children}
+      <SessionManager />
+    </>
+  );
 }
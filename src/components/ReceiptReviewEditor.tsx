@@ -0,0 +1,550 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Plus, Save, X } from "lucide-react";
+import { receiptsAPI } from "../lib/api";
+import { formatCurrency } from "../lib/utils";
+import { currencyOf } from "../lib/currency";
+import {
+  emptyReceiptLine,
+  fromReceiptDraft,
+  itemsTotal,
+  receiptExpenses,
+  toReceiptDraft,
+  validateReceiptExpenses,
+} from "../lib/receipts";
+import { applyRules } from "../lib/rules";
+import type {
+  ReceiptDraft,
+  ReceiptExpenseMode,
+  ReceiptLineDraft,
+} from "../lib/receipts";
+import type { RuleSubject } from "../lib/rules";
+import type { BankAccount, ExpenseCategory, Receipt } from "../lib/models";
+
+interface ReceiptReviewEditorProps {
+  receipt: Receipt;
+  bankAccounts: BankAccount[];
+  expenseCategories: ExpenseCategory[];
+  onClose: () => void;
+}
+
+const MODE_LABELS: Record<ReceiptExpenseMode, string> = {
+  single: "One expense",
+  perItem: "One per line item",
+  perCategory: "One per category",
+};
+
+export default function ReceiptReviewEditor({
+  receipt,
+  bankAccounts,
+  expenseCategories,
+  onClose,
+}: ReceiptReviewEditorProps) {
+  const [draft, setDraft] = useState<ReceiptDraft>(() =>
+    toReceiptDraft(receipt)
+  );
+  const [mode, setMode] = useState<ReceiptExpenseMode>("single");
+  const [categoryId, setCategoryId] = useState("");
+  const [bankAccountId, setBankAccountId] = useState(
+    bankAccounts.find((a) => a.isDefault)?.id || ""
+  );
+  // Indexes of the expenses already created, so a retry after a failure part
+  // way through does not create them twice.
+  const [createdLines, setCreatedLines] = useState<number[]>([]);
+  const queryClient = useQueryClient();
+
+  const account = bankAccounts.find((a) => a.id === bankAccountId);
+  const lineTotal = itemsTotal(draft.items);
+  const isPdf = receipt.imageUrl.toLowerCase().endsWith(".pdf");
+
+  // Rules fill in the category for a single expense when none is chosen
+  const ruleCategoryId =
+    mode === "single" && !categoryId
+      ? applyRules<RuleSubject>(
+          {
+            amount: draft.total,
+            bankAccountId,
+            merchant: draft.merchant,
+            date: draft.date,
+          },
+          "expense",
+          expenseCategories
+        ).subject.categoryId || ""
+      : "";
+  const expenseCategoryId = categoryId || ruleCategoryId;
+
+  const updateDraft = (changes: Partial<ReceiptDraft>) => {
+    setDraft((current) => ({ ...current, ...changes }));
+  };
+
+  // Quantity and unit price keep the line amount in step; editing the amount
+  // directly leaves them alone.
+  const updateLine = (index: number, changes: Partial<ReceiptLineDraft>) => {
+    setDraft((current) => ({
+      ...current,
+      items: current.items.map((item, i) => {
+        if (i !== index) return item;
+        const updated = { ...item, ...changes };
+        if ("quantity" in changes || "unitPrice" in changes) {
+          updated.amount =
+            Math.round(updated.quantity * updated.unitPrice * 100) / 100;
+        }
+        return updated;
+      }),
+    }));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      receiptsAPI.update(receipt.id, {
+        processedData: fromReceiptDraft(receipt, draft),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["receipts"] });
+    },
+    onError: (error) => {
+      alert(error instanceof Error ? error.message : "Could not save receipt");
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const date = new Date(draft.date).toISOString();
+      // One at a time so each settles the account balance before the next.
+      const expenses = receiptExpenses(draft, mode, expenseCategoryId);
+      for (const [index, expense] of expenses.entries()) {
+        if (createdLines.includes(index)) continue;
+        // The category is settled by now; rules may still add tags or
+        // rewrite the note.
+        const { subject } = applyRules<RuleSubject>(
+          {
+            amount: expense.amount,
+            bankAccountId,
+            note: expense.note,
+            date: draft.date,
+            merchant: draft.merchant,
+            categoryId: expense.categoryId,
+          },
+          "expense",
+          expenseCategories
+        );
+        await receiptsAPI.createExpense({
+          receiptId: receipt.id,
+          bankAccountId,
+          categoryId: expense.categoryId,
+          amount: expense.amount,
+          note: subject.note,
+          date,
+          ...(expense.splits ? { splits: expense.splits } : {}),
+          ...(subject.tags ? { tags: subject.tags } : {}),
+        });
+        setCreatedLines((lines) => [...lines, index]);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["receipts"] });
+      queryClient.invalidateQueries({ queryKey: ["expenses"] });
+      queryClient.invalidateQueries({ queryKey: ["bank-accounts"] });
+      onClose();
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ["expenses"] });
+      alert(
+        error instanceof Error ? error.message : "Could not create expenses"
+      );
+    },
+  });
+
+  const handleCreate = () => {
+    if (!bankAccountId) {
+      alert("Please select a bank account");
+      return;
+    }
+    const error = validateReceiptExpenses(draft, mode, expenseCategoryId);
+    if (error) {
+      alert(error);
+      return;
+    }
+    createMutation.mutate();
+  };
+
+  const preview =
+    validateReceiptExpenses(draft, mode, expenseCategoryId) === null
+      ? receiptExpenses(draft, mode, expenseCategoryId)
+      : [];
+  const categoryName = (id: string) =>
+    expenseCategories.find((c) => c.id === id)?.name || "Uncategorised";
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-6xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-xl font-bold">
+              {receipt.status === "FAILED" ? "Enter Receipt" : "Review Receipt"}
+            </h2>
+            {receipt.status === "FAILED" && (
+              <p className="text-sm text-gray-600">
+                This receipt could not be read. Copy the details from the image;
+                the expense stays linked to it.
+              </p>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Receipt image */}
+          <div className="bg-gray-100 rounded-lg overflow-hidden lg:max-h-[75vh]">
+            {isPdf ? (
+              <iframe
+                src={receipt.imageUrl}
+                title="Receipt"
+                className="w-full h-[75vh]"
+              />
+            ) : (
+              <img
+                src={receipt.imageUrl}
+                alt="Receipt"
+                className="w-full h-full object-contain"
+              />
+            )}
+          </div>
+
+          {/* Extracted data, locked once some expenses exist so a retry
+              creates the same ones that are still missing */}
+          <fieldset
+            disabled={createdLines.length > 0}
+            className="space-y-4 min-w-0"
+          >
+            <div className="grid grid-cols-2 gap-4">
+              <div className="col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Merchant
+                </label>
+                <input
+                  type="text"
+                  value={draft.merchant}
+                  onChange={(e) => updateDraft({ merchant: e.target.value })}
+                  className="input w-full"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Date
+                </label>
+                <input
+                  type="date"
+                  value={draft.date}
+                  onChange={(e) => updateDraft({ date: e.target.value })}
+                  className="input w-full"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Currency
+                </label>
+                <input
+                  type="text"
+                  value={draft.currency}
+                  onChange={(e) =>
+                    updateDraft({ currency: e.target.value.toUpperCase() })
+                  }
+                  className="input w-full"
+                  placeholder="e.g., INR"
+                  maxLength={3}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Tax
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={draft.tax}
+                  onChange={(e) =>
+                    updateDraft({ tax: parseFloat(e.target.value) || 0 })
+                  }
+                  className="input w-full"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Total *
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={draft.total}
+                  onChange={(e) =>
+                    updateDraft({ total: parseFloat(e.target.value) || 0 })
+                  }
+                  className="input w-full"
+                />
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <label className="block text-sm font-medium text-gray-700">
+                  Line Items
+                </label>
+                <button
+                  type="button"
+                  onClick={() =>
+                    updateDraft({ items: [...draft.items, emptyReceiptLine()] })
+                  }
+                  className="text-sm text-primary-600 hover:text-primary-900 flex items-center"
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add line
+                </button>
+              </div>
+              {draft.items.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  No line items were read from this receipt.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  <div className="flex gap-2 text-xs text-gray-500">
+                    <span className="flex-1">Description</span>
+                    <span className="w-14">Qty</span>
+                    <span className="w-20">Price</span>
+                    <span className="w-20">Amount</span>
+                    <span className="w-32">Category</span>
+                    <span className="w-4"></span>
+                  </div>
+                  {draft.items.map((item, index) => (
+                    <div key={index} className="flex gap-2 items-center">
+                      <input
+                        type="text"
+                        value={item.description}
+                        onChange={(e) =>
+                          updateLine(index, { description: e.target.value })
+                        }
+                        className="input flex-1 min-w-0 text-sm"
+                      />
+                      <input
+                        type="number"
+                        step="any"
+                        min="0"
+                        value={item.quantity}
+                        onChange={(e) =>
+                          updateLine(index, {
+                            quantity: parseFloat(e.target.value) || 0,
+                          })
+                        }
+                        className="input w-14 text-sm"
+                      />
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={item.unitPrice}
+                        onChange={(e) =>
+                          updateLine(index, {
+                            unitPrice: parseFloat(e.target.value) || 0,
+                          })
+                        }
+                        className="input w-20 text-sm"
+                      />
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={item.amount}
+                        onChange={(e) =>
+                          updateLine(index, {
+                            amount: parseFloat(e.target.value) || 0,
+                          })
+                        }
+                        className="input w-20 text-sm"
+                      />
+                      <select
+                        value={item.categoryId}
+                        onChange={(e) =>
+                          updateLine(index, { categoryId: e.target.value })
+                        }
+                        className="input w-32 text-sm"
+                      >
+                        <option value="">Category</option>
+                        {expenseCategories.map((category) => (
+                          <option key={category.id} value={category.id}>
+                            {category.icon} {category.name}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          updateDraft({
+                            items: draft.items.filter((_, i) => i !== index),
+                          })
+                        }
+                        className="w-4 text-gray-400 hover:text-danger-600"
+                        title="Remove line"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                  <p className="text-xs text-gray-500">
+                    Lines add up to {formatCurrency(lineTotal)}
+                    {draft.tax > 0 && ` + ${formatCurrency(draft.tax)} tax`}
+                    {Math.abs(lineTotal + draft.tax - draft.total) >= 0.01 &&
+                      `; the difference to the total is shared across the lines`}
+                    .
+                  </p>
+                </div>
+              )}
+            </div>
+
+            <div className="border-t border-gray-200 pt-4 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Create
+                </label>
+                <div className="flex gap-4">
+                  {Object.entries(MODE_LABELS).map(([value, label]) => (
+                    <label
+                      key={value}
+                      className="flex items-center text-sm text-gray-900"
+                    >
+                      <input
+                        type="radio"
+                        name="receiptExpenseMode"
+                        value={value}
+                        checked={mode === value}
+                        onChange={() => setMode(value as ReceiptExpenseMode)}
+                        className="mr-1"
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Bank Account *
+                  </label>
+                  <select
+                    value={bankAccountId}
+                    onChange={(e) => setBankAccountId(e.target.value)}
+                    className="input w-full"
+                  >
+                    <option value="">Select account</option>
+                    {bankAccounts.map((a) => (
+                      <option key={a.id} value={a.id}>
+                        {a.name} - {a.bankName}
+                      </option>
+                    ))}
+                  </select>
+                  {account &&
+                    draft.currency &&
+                    draft.currency !== currencyOf(account) && (
+                      <p className="mt-1 text-xs text-warning-600">
+                        The receipt is in {draft.currency}; amounts are recorded
+                        in {currencyOf(account)}.
+                      </p>
+                    )}
+                </div>
+                {mode === "single" && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Category
+                    </label>
+                    <select
+                      value={categoryId}
+                      onChange={(e) => setCategoryId(e.target.value)}
+                      className="input w-full"
+                    >
+                      <option value="">Select category</option>
+                      {expenseCategories.map((category) => (
+                        <option key={category.id} value={category.id}>
+                          {category.icon} {category.name}
+                        </option>
+                      ))}
+                    </select>
+                    <p className="mt-1 text-xs text-gray-500">
+                      Used for lines without a category.
+                      {ruleCategoryId &&
+                        ` Left empty, rules will use ${categoryName(
+                          ruleCategoryId
+                        )}.`}
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              {preview.length > 0 && (
+                <ul className="text-sm text-gray-700 bg-gray-50 rounded-lg p-3 space-y-1">
+                  {preview.map((expense, index) => (
+                    <li key={index} className="flex justify-between">
+                      <span className="truncate">
+                        {expense.splits
+                          ? `Split: ${expense.splits
+                              .map((split) => categoryName(split.categoryId))
+                              .join(", ")}`
+                          : `${categoryName(expense.categoryId)} - ${
+                              expense.note
+                            }`}
+                      </span>
+                      <span className="ml-2 font-medium">
+                        {formatCurrency(expense.amount, currencyOf(account))}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </fieldset>
+        </div>
+
+        {createdLines.length > 0 && (
+          <p className="pt-4 text-sm text-right text-warning-600">
+            {createdLines.length} of {preview.length} expenses were created
+            before the error, so the details are locked; trying again creates
+            only the rest.
+          </p>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-4">
+          <button type="button" onClick={onClose} className="btn btn-secondary">
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending}
+            className="btn btn-secondary flex items-center"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {saveMutation.isPending ? "Saving..." : "Save Corrections"}
+          </button>
+          <button
+            type="button"
+            onClick={handleCreate}
+            disabled={createMutation.isPending}
+            className="btn btn-primary"
+          >
+            {createMutation.isPending
+              ? "Creating..."
+              : preview.length > 1
+              ? `Create ${preview.length} Expenses`
+              : "Create Expense"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+import {
+  AlertCircle,
+  CheckCircle,
+  Clock,
+  FileText,
+  Link2Off,
+  Store,
+  Timer,
+} from "lucide-react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { formatCurrency } from "../lib/utils";
+import { ANALYTICS_MONTHS, formatLatency } from "../lib/receiptStats";
+import type { ReceiptAnalytics } from "../lib/receiptStats";
+import type { ReceiptStats, ReceiptStatus } from "../lib/models";
+
+interface ReceiptStatsPanelProps {
+  stats: ReceiptStats | undefined;
+  analytics: ReceiptAnalytics | null;
+  // "" shows every status.
+  onSelectStatus: (status: ReceiptStatus | "") => void;
+  onShowUnlinked: () => void;
+  onSelectMerchant: (merchant: string) => void;
+}
+
+export default function ReceiptStatsPanel({
+  stats,
+  analytics,
+  onSelectStatus,
+  onShowUnlinked,
+  onSelectMerchant,
+}: ReceiptStatsPanelProps) {
+  const statusCards = [
+    {
+      status: "" as const,
+      label: "Total Receipts",
+      value: stats?.totalReceipts,
+      icon: FileText,
+      iconClass: "bg-primary-100 text-primary-600",
+    },
+    {
+      status: "PROCESSED" as const,
+      label: "Processed",
+      value: stats?.processedReceipts,
+      icon: CheckCircle,
+      iconClass: "bg-success-100 text-success-600",
+    },
+    {
+      status: "PENDING" as const,
+      label: "Pending",
+      value: stats?.pendingReceipts,
+      icon: Clock,
+      iconClass: "bg-warning-100 text-warning-600",
+    },
+    {
+      status: "FAILED" as const,
+      label: "Failed",
+      value: stats?.failedReceipts,
+      icon: AlertCircle,
+      iconClass: "bg-danger-100 text-danger-600",
+    },
+  ];
+
+  const hasTrend = analytics?.months.some(
+    (month) => month.successRate !== null
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Counts; each one filters the list */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        {statusCards.map(({ status, label, value, icon: Icon, iconClass }) => (
+          <button
+            key={label}
+            onClick={() => onSelectStatus(status)}
+            className="card p-6 text-left hover:shadow-md transition-shadow"
+          >
+            <div className="flex items-center">
+              <div
+                className={`w-8 h-8 rounded-lg flex items-center justify-center ${iconClass}`}
+              >
+                <Icon className="w-5 h-5" />
+              </div>
+              <div className="ml-4">
+                <p className="text-sm font-medium text-gray-600">{label}</p>
+                <p className="text-2xl font-semibold text-gray-900">
+                  {value ?? "-"}
+                </p>
+              </div>
+            </div>
+          </button>
+        ))}
+      </div>
+
+      <div className="card">
+        <div className="card-header">
+          <h3 className="text-lg font-medium text-gray-900">
+            Receipt Insights
+          </h3>
+          <p className="text-sm text-gray-500">
+            Last {ANALYTICS_MONTHS} months
+            {stats &&
+              ` · ${formatCurrency(stats.totalAmount)} scanned in total, ${formatCurrency(stats.averageAmount)} on average`}
+          </p>
+        </div>
+        <div className="card-body">
+          {!analytics ? (
+            <div className="flex items-center justify-center h-48">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="lg:col-span-2">
+                <p className="text-sm font-medium text-gray-700 mb-2">
+                  Reading success rate
+                </p>
+                {hasTrend ? (
+                  <div className="h-48">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={analytics.months}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="label" />
+                        <YAxis domain={[0, 100]} unit="%" width={48} />
+                        <Tooltip
+                          formatter={(value) => [`${value}%`, "Success rate"]}
+                        />
+                        <Line
+                          type="monotone"
+                          dataKey="successRate"
+                          stroke="#22c55e"
+                          strokeWidth={2}
+                          connectNulls
+                        />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">
+                    No receipts have finished processing yet.
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-600 flex items-center">
+                    <Timer className="w-4 h-4 mr-2 text-gray-400" />
+                    Average processing time
+                  </span>
+                  <span className="text-sm font-medium text-gray-900">
+                    {analytics.averageLatencyMs === null
+                      ? "-"
+                      : formatLatency(analytics.averageLatencyMs)}
+                  </span>
+                </div>
+                <button
+                  onClick={onShowUnlinked}
+                  className="w-full flex items-center justify-between text-left hover:text-primary-600"
+                >
+                  <span className="text-sm text-gray-600 flex items-center">
+                    <Link2Off className="w-4 h-4 mr-2 text-gray-400" />
+                    Not linked to an expense
+                  </span>
+                  <span
+                    className={`text-sm font-medium ${
+                      analytics.unlinked > 0
+                        ? "text-warning-600"
+                        : "text-gray-900"
+                    }`}
+                  >
+                    {analytics.unlinked}
+                  </span>
+                </button>
+
+                <div>
+                  <p className="text-sm font-medium text-gray-700 mb-2 flex items-center">
+                    <Store className="w-4 h-4 mr-2 text-gray-400" />
+                    Top merchants
+                  </p>
+                  {analytics.topMerchants.length === 0 ? (
+                    <p className="text-sm text-gray-500">
+                      No processed receipts yet.
+                    </p>
+                  ) : (
+                    <ul className="space-y-1">
+                      {analytics.topMerchants.map((merchant) => (
+                        <li key={merchant.merchant}>
+                          <button
+                            onClick={() => onSelectMerchant(merchant.merchant)}
+                            className="w-full flex justify-between text-sm text-left hover:text-primary-600"
+                          >
+                            <span className="truncate">
+                              {merchant.merchant}
+                              <span className="text-xs text-gray-500 ml-1">
+                                ({merchant.count})
+                              </span>
+                            </span>
+                            <span className="font-medium ml-2">
+                              {formatCurrency(merchant.total)}
+                            </span>
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import { useRef, useState } from "react";
+import { FileText, Image, RotateCcw, Upload, X } from "lucide-react";
+import { RECEIPT_FILE_TYPES } from "../lib/receiptUpload";
+import type { ReceiptUpload, ReceiptUploadStatus } from "../lib/receiptUpload";
+
+interface ReceiptUploadModalProps {
+  uploads: ReceiptUpload[];
+  onAddFiles: (files: FileList | File[]) => number;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onClearFinished: () => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<ReceiptUploadStatus, string> = {
+  compressing: "Optimising...",
+  queued: "Waiting",
+  uploading: "Uploading",
+  done: "Uploaded",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+export default function ReceiptUploadModal({
+  uploads,
+  onAddFiles,
+  onCancel,
+  onRetry,
+  onClearFinished,
+  onClose,
+}: ReceiptUploadModalProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const addFiles = (files: FileList | File[]) => {
+    const total = Array.from(files).length;
+    const added = onAddFiles(files);
+    if (added < total) {
+      alert(
+        `${total - added} file(s) were skipped. Only images and PDFs can be uploaded.`
+      );
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(e.dataTransfer.files);
+  };
+
+  const hasFinished = uploads.some(
+    (upload) =>
+      upload.status === "done" ||
+      upload.status === "failed" ||
+      upload.status === "cancelled"
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-bold mb-4">Upload Receipts</h2>
+
+        <div
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          onClick={() => fileInput.current?.click()}
+          className={`border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors ${
+            isDragging
+              ? "border-primary-500 bg-primary-50"
+              : "border-gray-300 hover:border-primary-400"
+          }`}
+        >
+          <Upload className="mx-auto h-10 w-10 text-gray-400" />
+          <p className="mt-2 text-sm text-gray-700">
+            Drop receipts here or click to choose files
+          </p>
+          <p className="mt-1 text-xs text-gray-500">
+            Images and PDFs. Large photos are shrunk before uploading.
+          </p>
+          <input
+            ref={fileInput}
+            type="file"
+            accept={RECEIPT_FILE_TYPES}
+            multiple
+            onChange={(e) => {
+              if (e.target.files) addFiles(e.target.files);
+              e.target.value = "";
+            }}
+            className="hidden"
+          />
+        </div>
+
+        {uploads.length > 0 && (
+          <ul className="mt-4 divide-y divide-gray-200">
+            {uploads.map((upload) => (
+              <li key={upload.id} className="py-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center min-w-0">
+                    {upload.name.toLowerCase().endsWith(".pdf") ? (
+                      <FileText className="w-4 h-4 text-gray-400 mr-2 shrink-0" />
+                    ) : (
+                      <Image className="w-4 h-4 text-gray-400 mr-2 shrink-0" />
+                    )}
+                    <span className="text-sm text-gray-900 truncate">
+                      {upload.name}
+                    </span>
+                    <span className="ml-2 text-xs text-gray-500 shrink-0">
+                      {formatSize(upload.size)}
+                    </span>
+                  </div>
+                  <div className="flex items-center ml-3 shrink-0">
+                    <span
+                      className={`text-xs ${
+                        upload.status === "done"
+                          ? "text-success-600"
+                          : upload.status === "failed"
+                          ? "text-danger-600"
+                          : "text-gray-500"
+                      }`}
+                    >
+                      {upload.status === "uploading"
+                        ? `${Math.round(upload.progress * 100)}%`
+                        : STATUS_LABELS[upload.status]}
+                    </span>
+                    {(upload.status === "failed" ||
+                      upload.status === "cancelled") && (
+                      <button
+                        onClick={() => onRetry(upload.id)}
+                        className="ml-2 text-primary-600 hover:text-primary-900"
+                        title="Retry"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                      </button>
+                    )}
+                    {(upload.status === "compressing" ||
+                      upload.status === "queued" ||
+                      upload.status === "uploading") && (
+                      <button
+                        onClick={() => onCancel(upload.id)}
+                        className="ml-2 text-gray-400 hover:text-danger-600"
+                        title="Cancel"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+                {upload.status === "uploading" && (
+                  <div className="mt-2 w-full bg-gray-200 rounded-full h-1.5">
+                    <div
+                      className="h-1.5 rounded-full bg-primary-600"
+                      style={{ width: `${upload.progress * 100}%` }}
+                    ></div>
+                  </div>
+                )}
+                {upload.error && (
+                  <p className="mt-1 text-xs text-danger-600">{upload.error}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-4">
+          {hasFinished && (
+            <button
+              type="button"
+              onClick={onClearFinished}
+              className="btn btn-secondary"
+            >
+              Clear Finished
+            </button>
+          )}
+          <button type="button" onClick={onClose} className="btn btn-primary">
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useEffect, useState, useSyncExternalStore } from "react";
+import { Clock, Loader2, Lock } from "lucide-react";
+import { authAPI, ensureSession } from "../lib/api";
+import {
+  abandonSession,
+  completeLogin,
+  getSessionSnapshot,
+  getTokenExpiry,
+  registerLoginPrompt,
+  subscribeSession,
+} from "../lib/session";
+import { getUserFromStorage, logout } from "../lib/utils";
+
+const WARNING_LEAD_TIME = 2 * 60 * 1000;
+
+// Browsers fire a timeout at once when its delay is over 2^31 - 1 ms (about
+// 24.8 days), so longer waits are re-armed in steps no longer than that.
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+// Runs `callback` at the timestamp `at`; returns the cancel function.
+const scheduleAt = (at: number, callback: () => void) => {
+  let timer = 0;
+  const arm = () => {
+    const delay = Math.max(at - Date.now(), 0);
+    timer = window.setTimeout(
+      delay > MAX_TIMEOUT ? arm : callback,
+      Math.min(delay, MAX_TIMEOUT)
+    );
+  };
+  arm();
+  return () => window.clearTimeout(timer);
+};
+
+// Warns shortly before the token expires and, once it has, asks for the
+// password again over the current page so unsaved work is kept. Mounted by
+// ProtectedRoute once the token has been checked, so it never runs on the
+// login and register pages; renewal asked for elsewhere fails instead.
+export default function SessionManager() {
+  const session = useSyncExternalStore(subscribeSession, getSessionSnapshot);
+  const [showWarning, setShowWarning] = useState(false);
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => registerLoginPrompt(), []);
+
+  useEffect(() => {
+    setShowWarning(false);
+    const expiresAt = getTokenExpiry(session.token);
+    if (!expiresAt || session.status !== "active") return;
+
+    const cancelWarning = scheduleAt(expiresAt - WARNING_LEAD_TIME, () =>
+      setShowWarning(true)
+    );
+    const cancelExpiry = scheduleAt(expiresAt, () =>
+      ensureSession().catch(() => undefined)
+    );
+    return () => {
+      cancelWarning();
+      cancelExpiry();
+    };
+  }, [session]);
+
+  const staySignedIn = () => {
+    setShowWarning(false);
+    ensureSession().catch(() => undefined);
+  };
+
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const email = getUserFromStorage()?.email;
+    if (!email) return;
+    setError("");
+    setIsLoading(true);
+    try {
+      const res = await authAPI.login({ email, password });
+      setPassword("");
+      completeLogin(res.data);
+    } catch (err) {
+      setError(
+        (err as { response?: { data?: { message?: string } } }).response?.data
+          ?.message || "Login failed. Please check your password."
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSignOut = () => {
+    abandonSession();
+    logout();
+  };
+
+  if (session.status === "expired") {
+    return (
+      <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+        <div className="bg-white rounded-lg p-6 w-full max-w-md">
+          <div className="flex items-center mb-2">
+            <Lock className="h-5 w-5 text-gray-500 mr-2" />
+            <h3 className="text-lg font-medium text-gray-900">
+              Session expired
+            </h3>
+          </div>
+          <p className="text-sm text-gray-500 mb-4">
+            Sign in again to continue where you left off.
+          </p>
+          <form onSubmit={handleLogin} className="space-y-4">
+            <div>
+              <label className="label">Email address</label>
+              <input
+                type="email"
+                value={getUserFromStorage()?.email || ""}
+                readOnly
+                className="input bg-gray-50"
+              />
+            </div>
+            <div>
+              <label className="label">Password</label>
+              <input
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="input"
+                autoFocus
+                required
+              />
+              {error && <p className="mt-1 text-sm text-danger-600">{error}</p>}
+            </div>
+            <div className="flex space-x-3">
+              <button
+                type="button"
+                onClick={handleSignOut}
+                className="btn btn-secondary flex-1"
+              >
+                Sign out
+              </button>
+              <button
+                type="submit"
+                disabled={isLoading || !password}
+                className="btn btn-primary flex-1 flex items-center justify-center"
+              >
+                {isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Sign in
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    );
+  }
+
+  if (!showWarning) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-80 rounded-lg bg-white p-4 shadow-lg ring-1 ring-gray-200">
+      <div className="flex items-start">
+        <Clock className="h-5 w-5 text-warning-600 mr-2 flex-shrink-0" />
+        <div>
+          <p className="text-sm font-medium text-gray-900">
+            Your session is about to expire
+          </p>
+          <p className="text-xs text-gray-500">
+            You will be asked to sign in again in a couple of minutes.
+          </p>
+          <div className="mt-2 flex space-x-3">
+            <button
+              onClick={staySignedIn}
+              className="text-sm text-primary-600 hover:text-primary-900"
+            >
+              Stay signed in
+            </button>
+            <button
+              onClick={() => setShowWarning(false)}
+              className="text-sm text-gray-500 hover:text-gray-700"
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
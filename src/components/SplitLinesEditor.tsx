@@ -0,0 +1,117 @@
+import { Plus, X } from "lucide-react";
+import { formatCurrency } from "../lib/utils";
+import { splitRemainder } from "../lib/splits";
+import type { ExpenseCategory, ExpenseSplitInput } from "../lib/models";
+
+interface SplitLinesEditorProps {
+  total: number;
+  currency?: string;
+  lines: ExpenseSplitInput[];
+  categories: ExpenseCategory[];
+  onChange: (lines: ExpenseSplitInput[]) => void;
+}
+
+// Category lines of a split expense, with the amount still to allocate.
+export default function SplitLinesEditor({
+  total,
+  currency,
+  lines,
+  categories,
+  onChange,
+}: SplitLinesEditorProps) {
+  const remainder = splitRemainder(total, lines);
+
+  const updateLine = (index: number, changes: Partial<ExpenseSplitInput>) => {
+    onChange(
+      lines.map((line, i) => (i === index ? { ...line, ...changes } : line))
+    );
+  };
+
+  const assignRemainder = () => {
+    const index = lines.length - 1;
+    updateLine(index, {
+      amount: Math.round((lines[index].amount + remainder) * 100) / 100,
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      {lines.map((line, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <select
+            value={line.categoryId}
+            onChange={(e) => updateLine(index, { categoryId: e.target.value })}
+            className="input flex-1"
+            required
+          >
+            <option value="">Category</option>
+            {categories.map((category) => (
+              <option key={category.id} value={category.id}>
+                {category.icon} {category.name}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            step="0.01"
+            min="0"
+            value={line.amount}
+            onChange={(e) =>
+              updateLine(index, { amount: parseFloat(e.target.value) || 0 })
+            }
+            className="input w-28"
+            required
+          />
+          <input
+            type="text"
+            value={line.note}
+            onChange={(e) => updateLine(index, { note: e.target.value })}
+            className="input w-28"
+            placeholder="Note"
+          />
+          <button
+            type="button"
+            onClick={() => onChange(lines.filter((_, i) => i !== index))}
+            disabled={lines.length <= 2}
+            className="text-gray-400 hover:text-danger-600 disabled:opacity-30"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center justify-between text-sm">
+        <button
+          type="button"
+          onClick={() =>
+            onChange([...lines, { categoryId: "", amount: 0, note: "" }])
+          }
+          className="flex items-center text-primary-600 hover:text-primary-900"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add line
+        </button>
+        {remainder === 0 ? (
+          <span className="text-success-600">Fully allocated</span>
+        ) : (
+          <span className="flex items-center gap-2">
+            <span
+              className={remainder > 0 ? "text-warning-600" : "text-danger-600"}
+            >
+              {remainder > 0 ? "Unallocated" : "Over by"}{" "}
+              {formatCurrency(Math.abs(remainder), currency)}
+            </span>
+            {remainder > 0 && (
+              <button
+                type="button"
+                onClick={assignRemainder}
+                className="text-primary-600 hover:text-primary-900"
+              >
+                Add to last line
+              </button>
+            )}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import type { SyncState } from "../lib/offlineQueue";
+
+interface SyncBadgeProps {
+  state?: SyncState;
+}
+
+export default function SyncBadge({ state }: SyncBadgeProps) {
+  if (!state) return null;
+
+  return (
+    <span
+      className={`ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+        state === "conflict"
+          ? "bg-danger-100 text-danger-800"
+          : "bg-warning-100 text-warning-800"
+      }`}
+    >
+      {state === "conflict" ? "Sync conflict" : "Pending sync"}
+    </span>
+  );
+}
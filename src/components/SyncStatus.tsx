@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { CloudOff, RefreshCw, AlertTriangle } from "lucide-react";
+import {
+  discardMutation,
+  replayQueue,
+  retryMutation,
+  useOfflineQueue,
+} from "../lib/offlineQueue";
+import type { QueuedMutation } from "../lib/offlineQueue";
+import dayjs from "dayjs";
+
+const ENTITY_LABELS: Record<QueuedMutation["entity"], string> = {
+  expense: "expense",
+  deposit: "deposit",
+  transfer: "transfer",
+  "bank-account": "bank account",
+};
+
+const ACTION_LABELS: Record<QueuedMutation["action"], string> = {
+  create: "Add",
+  update: "Edit",
+  delete: "Delete",
+};
+
+const describe = (mutation: QueuedMutation) => {
+  const { payload } = mutation;
+  const detail =
+    payload &&
+    (("note" in payload && payload.note) ||
+      ("name" in payload && payload.name));
+  return `${ACTION_LABELS[mutation.action]} ${ENTITY_LABELS[mutation.entity]}${
+    detail ? `: ${detail}` : ""
+  }`;
+};
+
+// Header indicator for changes made while the backend was unreachable.
+export default function SyncStatus() {
+  const [isOpen, setIsOpen] = useState(false);
+  const queue = useOfflineQueue();
+
+  if (queue.length === 0) return null;
+
+  const conflicts = queue.filter((mutation) => mutation.conflict);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center text-sm font-medium ${
+          conflicts.length > 0 ? "text-danger-600" : "text-warning-600"
+        }`}
+      >
+        {conflicts.length > 0 ? (
+          <AlertTriangle className="h-5 w-5 mr-1" />
+        ) : (
+          <CloudOff className="h-5 w-5 mr-1" />
+        )}
+        {queue.length} pending
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-50 mt-2 w-80 rounded-lg bg-white shadow-lg ring-1 ring-gray-200">
+          <div className="flex items-center justify-between border-b border-gray-200 px-4 py-3">
+            <h3 className="text-sm font-medium text-gray-900">
+              Changes waiting to sync
+            </h3>
+            <button
+              onClick={() => replayQueue()}
+              className="flex items-center text-sm text-primary-600 hover:text-primary-900"
+            >
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Sync now
+            </button>
+          </div>
+          <ul className="max-h-80 divide-y divide-gray-200 overflow-y-auto">
+            {queue.map((mutation) => (
+              <li key={mutation.seq} className="px-4 py-3">
+                <p className="text-sm text-gray-900">{describe(mutation)}</p>
+                <p className="text-xs text-gray-500">
+                  Queued {dayjs(mutation.queuedAt).format("MMM D, h:mm A")}
+                </p>
+                {mutation.conflict && (
+                  <p className="mt-1 text-xs text-danger-600">
+                    {mutation.conflict}
+                  </p>
+                )}
+                <div className="mt-1 flex space-x-3">
+                  {mutation.conflict && (
+                    <button
+                      onClick={() => retryMutation(mutation)}
+                      className="text-xs text-primary-600 hover:text-primary-900"
+                    >
+                      Retry
+                    </button>
+                  )}
+                  <button
+                    onClick={() => {
+                      if (
+                        window.confirm(
+                          "Discard this change? It will not be sent to the server."
+                        )
+                      ) {
+                        discardMutation(mutation);
+                      }
+                    }}
+                    className="text-xs text-danger-600 hover:text-danger-900"
+                  >
+                    Discard
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { X } from "lucide-react";
+import { normalizeTag } from "../lib/tags";
+
+interface TagInputProps {
+  tags: string[];
+  // Tags already in use, most used first
+  suggestions: string[];
+  onChange: (tags: string[]) => void;
+  placeholder?: string;
+}
+
+// How many suggestions the dropdown lists
+const MAX_SUGGESTIONS = 8;
+
+export default function TagInput({
+  tags,
+  suggestions,
+  onChange,
+  placeholder = "Add a tag",
+}: TagInputProps) {
+  const [text, setText] = useState("");
+  const [isFocused, setIsFocused] = useState(false);
+
+  const addTag = (value: string) => {
+    const tag = normalizeTag(value);
+    if (tag && !tags.includes(tag)) onChange([...tags, tag]);
+    setText("");
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(tags.filter((t) => t !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      // Keep Enter from submitting the surrounding form
+      e.preventDefault();
+      if (text.trim()) addTag(text);
+    } else if (e.key === "Backspace" && !text && tags.length > 0) {
+      removeTag(tags[tags.length - 1]);
+    }
+  };
+
+  const search = normalizeTag(text);
+  const matches = suggestions
+    .filter((tag) => !tags.includes(tag) && tag.includes(search))
+    .slice(0, MAX_SUGGESTIONS);
+
+  return (
+    <div className="relative">
+      <div className="input w-full flex flex-wrap items-center gap-1">
+        {tags.map((tag) => (
+          <span
+            key={tag}
+            className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-primary-100 text-primary-800"
+          >
+            {tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              className="ml-1 text-primary-600 hover:text-primary-900"
+              title="Remove tag"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => {
+            setIsFocused(false);
+            if (text.trim()) addTag(text);
+          }}
+          className="flex-1 min-w-[6rem] border-0 p-0 text-sm focus:outline-none focus:ring-0"
+          placeholder={tags.length === 0 ? placeholder : ""}
+        />
+      </div>
+      {isFocused && matches.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg max-h-48 overflow-y-auto">
+          {matches.map((tag) => (
+            <li key={tag}>
+              <button
+                type="button"
+                // Runs before the input's blur, which would add the typed text
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  addTag(tag);
+                }}
+                className="w-full text-left px-3 py-2 text-sm text-gray-700 hover:bg-gray-100"
+              >
+                {tag}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { ArrowRight } from "lucide-react";
+import { transfersAPI } from "../lib/api";
+import { getUserId, formatCurrency } from "../lib/utils";
+import { convertBetween, currencyOf } from "../lib/currency";
+import { runOrQueue } from "../lib/offlineQueue";
+import type { BankAccount, TransferInput } from "../lib/models";
+import dayjs from "dayjs";
+
+interface TransferModalProps {
+  accounts: BankAccount[];
+  initialFromAccountId?: string;
+  onClose: () => void;
+}
+
+export default function TransferModal({
+  accounts,
+  initialFromAccountId,
+  onClose,
+}: TransferModalProps) {
+  const [fromAccountId, setFromAccountId] = useState(
+    initialFromAccountId || accounts.find((a) => a.isDefault)?.id || ""
+  );
+  const [toAccountId, setToAccountId] = useState("");
+  const [amount, setAmount] = useState(0);
+  // Null until the user overrides the converted amount.
+  const [toAmount, setToAmount] = useState<number | null>(null);
+  const [note, setNote] = useState("");
+  const [date, setDate] = useState(dayjs().format("YYYY-MM-DD"));
+  const queryClient = useQueryClient();
+
+  const fromAccount = accounts.find((a) => a.id === fromAccountId);
+  const toAccount = accounts.find((a) => a.id === toAccountId);
+  const fromCurrency = currencyOf(fromAccount);
+  const toCurrency = currencyOf(toAccount);
+  const crossCurrency = !!toAccount && fromCurrency !== toCurrency;
+  // Null when there is no rate between the two currencies
+  const convertedAmount = convertBetween(amount, fromCurrency, toCurrency);
+  const receivedAmount =
+    toAmount ??
+    (convertedAmount === null ? null : Math.round(convertedAmount * 100) / 100);
+
+  const transferMutation = useMutation({
+    mutationFn: (data: TransferInput) =>
+      runOrQueue(
+        { entity: "transfer", action: "create", payload: { ...data } },
+        () => transfersAPI.create(data)
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["transfers"] });
+      queryClient.invalidateQueries({ queryKey: ["bank-accounts"] });
+      onClose();
+    },
+    onError: (error) => {
+      alert(error instanceof Error ? error.message : "Transfer failed");
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!fromAccountId || !toAccountId || amount <= 0) {
+      alert("Please fill in all required fields");
+      return;
+    }
+    if (fromAccountId === toAccountId) {
+      alert("Choose two different accounts");
+      return;
+    }
+    if (crossCurrency && receivedAmount === null) {
+      alert(`Enter the amount received in ${toCurrency}`);
+      return;
+    }
+    transferMutation.mutate({
+      userId: getUserId() || "",
+      fromAccountId,
+      toAccountId,
+      amount,
+      toAmount: crossCurrency ? (receivedAmount ?? undefined) : undefined,
+      note: note || undefined,
+      date: new Date(date).toISOString(),
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-md">
+        <h2 className="text-xl font-bold mb-4">Transfer Between Accounts</h2>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="flex items-end gap-2">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                From *
+              </label>
+              <select
+                value={fromAccountId}
+                onChange={(e) => setFromAccountId(e.target.value)}
+                className="input w-full"
+                required
+              >
+                <option value="">Select account</option>
+                {accounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.name} - {account.bankName}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <ArrowRight className="w-5 h-5 text-gray-400 mb-2.5" />
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                To *
+              </label>
+              <select
+                value={toAccountId}
+                onChange={(e) => setToAccountId(e.target.value)}
+                className="input w-full"
+                required
+              >
+                <option value="">Select account</option>
+                {accounts
+                  .filter((account) => account.id !== fromAccountId)
+                  .map((account) => (
+                    <option key={account.id} value={account.id}>
+                      {account.name} - {account.bankName}
+                    </option>
+                  ))}
+              </select>
+            </div>
+          </div>
+          {fromAccount && (
+            <p className="text-xs text-gray-500">
+              Available:{" "}
+              {formatCurrency(fromAccount.balance, currencyOf(fromAccount))}
+            </p>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Amount ({fromCurrency}) *
+            </label>
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={amount}
+              onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+              className="input w-full"
+              required
+            />
+          </div>
+
+          {crossCurrency && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Amount received ({toCurrency}) *
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={receivedAmount ?? ""}
+                onChange={(e) => setToAmount(parseFloat(e.target.value) || 0)}
+                className="input w-full"
+                required
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                {convertedAmount === null
+                  ? `No ${fromCurrency} to ${toCurrency} rate in Settings; enter what the bank credited.`
+                  : "Pre-filled from your exchange rates; adjust to match the bank."}
+              </p>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Description
+            </label>
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="input w-full"
+              placeholder="e.g., Move to savings"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Date *
+            </label>
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="input w-full"
+              required
+            />
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="btn btn-secondary"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={transferMutation.isPending}
+              className="btn btn-primary"
+            >
+              {transferMutation.isPending ? "Transferring..." : "Transfer"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
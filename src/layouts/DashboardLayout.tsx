@@ -2,15 +2,19 @@ import { useState } from "react";
 import type { ReactNode } from "react";
 import { Link, useLocation } from "react-router-dom";
 import { logout } from "../lib/utils";
+import NotificationCenter from "../components/NotificationCenter";
+import SyncStatus from "../components/SyncStatus";
 import {
   Home,
   Wallet,
   TrendingUp,
   TrendingDown,
+  Repeat,
   Receipt,
   BarChart3,
+  Tags,
+  Wand2,
   Settings,
-  Bell,
   User,
   LogOut,
   Menu,
@@ -25,10 +29,13 @@ const navigation = [
   { name: "Dashboard", href: "/dashboard", icon: Home },
   { name: "Bank Accounts", href: "/dashboard/accounts", icon: Wallet },
   { name: "Expenses", href: "/dashboard/expenses", icon: TrendingDown },
+  { name: "Recurring", href: "/dashboard/recurring", icon: Repeat },
   { name: "Deposits", href: "/dashboard/deposits", icon: TrendingUp },
   { name: "Receipts", href: "/dashboard/receipts", icon: Receipt },
   { name: "Budgets", href: "/dashboard/budgets", icon: BarChart3 },
   { name: "Reports", href: "/dashboard/reports", icon: BarChart3 },
+  { name: "Categories", href: "/dashboard/categories", icon: Tags },
+  { name: "Rules", href: "/dashboard/rules", icon: Wand2 },
   { name: "Settings", href: "/dashboard/settings", icon: Settings },
 ];
 
@@ -128,9 +135,8 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
           <div className="flex flex-1 gap-x-4 self-stretch lg:gap-x-6">
             <div className="flex flex-1" />
             <div className="flex items-center gap-x-4 lg:gap-x-6">
-              <button className="text-gray-400 hover:text-gray-500">
-                <Bell className="h-6 w-6" />
-              </button>
+              <SyncStatus />
+              <NotificationCenter />
               <div className="hidden lg:block lg:h-6 lg:w-px lg:bg-gray-200" />
               <div className="flex items-center gap-x-4">
                 <button className="text-gray-400 hover:text-gray-500">
@@ -1,4 +1,48 @@
 import axios from "axios";
+import { z } from "zod";
+import {
+  envelope,
+  parseResponse,
+  userSchema,
+  authSessionSchema,
+  bankAccountSchema,
+  expenseSchema,
+  expenseSummarySchema,
+  recurringExpenseSchema,
+  depositSchema,
+  transferSchema,
+  reconciliationSchema,
+  budgetSchema,
+  budgetAlertSchema,
+  budgetSummarySchema,
+  receiptSchema,
+  receiptStatsSchema,
+  expenseCategorySchema,
+  expenseTypeSchema,
+  depositTypeSchema,
+  monthlyReportSchema,
+  aiSuggestionSchema,
+  notificationSchema,
+} from "./models";
+import { getPendingRenewal, renewSession, storeSession } from "./session";
+import type {
+  ExpenseInput,
+  RecurringExpenseInput,
+  DepositInput,
+  TransferInput,
+  BankAccountInput,
+  ReconciliationInput,
+  BudgetInput,
+  ReceiptExpenseInput,
+  ReceiptUpdateInput,
+  Receipt,
+  ReceiptStatus,
+  ExpenseCategoryInput,
+  ExpenseCategoryUpdateInput,
+  ExpenseTypeInput,
+  DepositTypeInput,
+  DepositTypeUpdateInput,
+} from "./models";
 
 export const API_HOST = import.meta.env.VITE_API_URL || "http://localhost:3000";
 const API_BASE_URL = `${API_HOST}/api/v1`;
@@ -10,8 +54,51 @@ export const api = axios.create({
   },
 });
 
+// Set VITE_AUTH_REFRESH_PATH when the backend offers a refresh endpoint. It
+// is called with the current token and must answer like login. Without it an
+// expired session goes straight to the re-login modal.
+const REFRESH_PATH: string | undefined = import.meta.env.VITE_AUTH_REFRESH_PATH;
+
+// Set VITE_RECEIPT_EVENTS_PATH when the backend streams receipt status changes
+// as server-sent events, one Receipt per message. EventSource cannot send
+// headers, so the stream is opened with a short-lived, single-use ticket in
+// the query string rather than the token. Without it the Receipts page polls
+// while receipts are processing.
+const RECEIPT_EVENTS_PATH: string | undefined = import.meta.env
+  .VITE_RECEIPT_EVENTS_PATH;
+
+// A spent ticket cannot reconnect, so a dropped stream is reopened with a
+// fresh one after this delay.
+const RECEIPT_EVENTS_RETRY = 5 * 1000;
+
+// Requests that authenticate on their own never wait for or trigger renewal.
+const isAuthRequest = (url?: string) =>
+  url === "/users" || url === "/users/login" || url === REFRESH_PATH;
+
+const refreshSession = REFRESH_PATH
+  ? async () => {
+      const response = await api.post(REFRESH_PATH);
+      const { data } = parseResponse(
+        envelope(authSessionSchema.partial({ user: true })),
+        response.data,
+        `POST ${REFRESH_PATH}`
+      );
+      storeSession(data);
+    }
+  : null;
+
+/** Refreshes the token, or asks the user to sign in again. */
+export const ensureSession = () => renewSession(refreshSession);
+
+const retriedRequests = new WeakSet<object>();
+
 api.interceptors.request.use(
-  (config) => {
+  async (config) => {
+    // Hold new requests while the session is being renewed.
+    const renewal = getPendingRenewal();
+    if (renewal && !isAuthRequest(config.url)) {
+      await renewal.catch(() => undefined);
+    }
     const token = localStorage.getItem("token");
     if (token) {
       config.headers = config.headers || {};
@@ -24,39 +111,66 @@ api.interceptors.request.use(
 
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      localStorage.removeItem("token");
-      localStorage.removeItem("user");
-      window.location.href = "/login";
+  async (error) => {
+    const config = error.config;
+    if (
+      error.response?.status === 401 &&
+      config &&
+      !isAuthRequest(config.url) &&
+      !retriedRequests.has(config)
+    ) {
+      // Replay the request once the session has been renewed.
+      retriedRequests.add(config);
+      await ensureSession();
+      return api(config);
     }
     return Promise.reject(error);
   }
 );
 
+// Delete endpoints answer with `data: null`; only the envelope is checked.
+const emptyResponse = envelope(z.unknown());
+
 export const authAPI = {
   register: async (data: { name: string; email: string; password: string }) => {
     const response = await api.post("/users", data);
-    return response.data;
+    // Registration signs the new user in, so it answers like login.
+    return parseResponse(
+      envelope(authSessionSchema),
+      response.data,
+      "POST /users"
+    );
   },
   login: async (data: { email: string; password: string }) => {
     const response = await api.post("/users/login", data);
-    return response.data;
+    return parseResponse(
+      envelope(authSessionSchema),
+      response.data,
+      "POST /users/login"
+    );
   },
   getCurrentUser: async () => {
     const response = await api.get("/users/me");
-    return response.data;
+    return parseResponse(envelope(userSchema), response.data, "GET /users/me");
   },
 };
 
 export const dashboardAPI = {
   getStats: async (userId: string) => {
     const response = await api.get(`/expenses/summary?userId=${userId}`);
-    return response.data;
+    return parseResponse(
+      envelope(expenseSummarySchema),
+      response.data,
+      "GET /expenses/summary"
+    );
   },
   getRecentExpenses: async (userId: string, limit = 10) => {
     const response = await api.get(`/expenses?userId=${userId}&limit=${limit}`);
-    return response.data;
+    return parseResponse(
+      envelope(z.array(expenseSchema)),
+      response.data,
+      "GET /expenses"
+    );
   },
   getExpenseByCategory: async (
     userId: string,
@@ -67,12 +181,20 @@ export const dashboardAPI = {
     if (startDate) params.append("startDate", startDate);
     if (endDate) params.append("endDate", endDate);
     const response = await api.get(`/expenses?${params}`);
-    return response.data;
+    return parseResponse(
+      envelope(z.array(expenseSchema)),
+      response.data,
+      "GET /expenses"
+    );
   },
   getMonthlyTrend: async (userId: string) => {
     // This would need to be implemented on the backend
     const response = await api.get(`/expenses?userId=${userId}`);
-    return response.data;
+    return parseResponse(
+      envelope(z.array(expenseSchema)),
+      response.data,
+      "GET /expenses"
+    );
   },
 };
 
@@ -90,48 +212,64 @@ export const expensesAPI = {
     // Include related data
     queryParams.append("include", "bankAccount,category");
     const response = await api.get(`/expenses?${queryParams}`);
-    return response.data;
+    return parseResponse(
+      envelope(z.array(expenseSchema)),
+      response.data,
+      "GET /expenses"
+    );
   },
   getById: async (id: string) => {
     const response = await api.get(`/expenses/${id}`);
-    return response.data;
-  },
-  create: async (data: {
-    userId: string;
-    bankAccountId: string;
-    categoryId: string;
-    amount: number;
-    note?: string;
-    date?: string;
-    isRecurring?: boolean;
-    recurringFrequency?: "daily" | "weekly" | "monthly" | "yearly";
-    recurringExpenseId?: string;
-    receiptId?: string;
-  }) => {
+    return parseResponse(
+      envelope(expenseSchema),
+      response.data,
+      "GET /expenses/{id}"
+    );
+  },
+  create: async (data: ExpenseInput) => {
     const response = await api.post("/expenses", data);
-    return response.data;
-  },
-  createRecurring: async (data: {
-    userId: string;
-    categoryId: string;
-    amount: number;
-    note?: string;
-    frequency: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
-    startDate: string;
-    endDate?: string;
-    nextDueDate: string;
-    isActive?: boolean;
-  }) => {
-    const response = await api.post("/expenses/recurring", data);
-    return response.data;
+    return parseResponse(
+      envelope(expenseSchema),
+      response.data,
+      "POST /expenses"
+    );
   },
-  update: async (id: string, data: any) => {
+  createRecurring: async (data: RecurringExpenseInput) => {
+    const response = await api.post("/expenses/recurring", data);
+    return parseResponse(
+      envelope(recurringExpenseSchema),
+      response.data,
+      "POST /expenses/recurring"
+    );
+  },
+  getRecurring: async (userId: string) => {
+    const response = await api.get(`/expenses/recurring/all?userId=${userId}`);
+    return parseResponse(
+      envelope(z.array(recurringExpenseSchema)),
+      response.data,
+      "GET /expenses/recurring/all"
+    );
+  },
+  // Not in the API docs yet; mirrors the PUT /expenses/{id} contract.
+  updateRecurring: async (id: string, data: Partial<RecurringExpenseInput>) => {
+    const response = await api.put(`/expenses/recurring/${id}`, data);
+    return parseResponse(
+      envelope(recurringExpenseSchema),
+      response.data,
+      "PUT /expenses/recurring/{id}"
+    );
+  },
+  update: async (id: string, data: Partial<ExpenseInput>) => {
     const response = await api.put(`/expenses/${id}`, data);
-    return response.data;
+    return parseResponse(
+      envelope(expenseSchema),
+      response.data,
+      "PUT /expenses/{id}"
+    );
   },
   delete: async (id: string) => {
     const response = await api.delete(`/expenses/${id}`);
-    return response.data;
+    return parseResponse(emptyResponse, response.data, "DELETE /expenses/{id}");
   },
 };
 
@@ -147,143 +285,484 @@ export const depositsAPI = {
     if (params?.startDate) queryParams.append("startDate", params.startDate);
     if (params?.endDate) queryParams.append("endDate", params.endDate);
     const response = await api.get(`/deposits?${queryParams}`);
-    return response.data;
+    return parseResponse(
+      envelope(z.array(depositSchema)),
+      response.data,
+      "GET /deposits"
+    );
   },
   getById: async (id: string) => {
     const response = await api.get(`/deposits/${id}`);
-    return response.data;
-  },
-  create: async (data: {
-    userId: string;
-    bankAccountId: string;
-    depositTypeId: string;
-    amount: number;
-    note?: string;
-    date?: string;
-  }) => {
+    return parseResponse(
+      envelope(depositSchema),
+      response.data,
+      "GET /deposits/{id}"
+    );
+  },
+  create: async (data: DepositInput) => {
     const response = await api.post("/deposits", data);
-    return response.data;
+    return parseResponse(
+      envelope(depositSchema),
+      response.data,
+      "POST /deposits"
+    );
   },
-  update: async (id: string, data: any) => {
+  update: async (id: string, data: Partial<DepositInput>) => {
     const response = await api.put(`/deposits/${id}`, data);
-    return response.data;
+    return parseResponse(
+      envelope(depositSchema),
+      response.data,
+      "PUT /deposits/{id}"
+    );
   },
   delete: async (id: string) => {
     const response = await api.delete(`/deposits/${id}`);
-    return response.data;
+    return parseResponse(emptyResponse, response.data, "DELETE /deposits/{id}");
+  },
+};
+
+// Not in the API docs yet. The backend moves both balances in one database
+// transaction, so a failed transfer leaves neither account changed.
+export const transfersAPI = {
+  getAll: async (
+    userId: string,
+    params?: {
+      bankAccountId?: string;
+      startDate?: string;
+      endDate?: string;
+    }
+  ) => {
+    const queryParams = new URLSearchParams({ userId });
+    if (params?.bankAccountId)
+      queryParams.append("bankAccountId", params.bankAccountId);
+    if (params?.startDate) queryParams.append("startDate", params.startDate);
+    if (params?.endDate) queryParams.append("endDate", params.endDate);
+    const response = await api.get(`/transfers?${queryParams}`);
+    return parseResponse(
+      envelope(z.array(transferSchema)),
+      response.data,
+      "GET /transfers"
+    );
+  },
+  create: async (data: TransferInput) => {
+    const response = await api.post("/transfers", data);
+    return parseResponse(
+      envelope(transferSchema),
+      response.data,
+      "POST /transfers"
+    );
+  },
+  // Reverses the transfer on both balances.
+  delete: async (id: string) => {
+    const response = await api.delete(`/transfers/${id}`);
+    return parseResponse(
+      emptyResponse,
+      response.data,
+      "DELETE /transfers/{id}"
+    );
   },
 };
 
 export const bankAccountsAPI = {
   getAll: async () => {
     const response = await api.get("/accounts");
-    return response.data;
+    return parseResponse(
+      envelope(z.array(bankAccountSchema)),
+      response.data,
+      "GET /accounts"
+    );
   },
   getById: async (id: string) => {
     const response = await api.get(`/accounts/${id}`);
-    return response.data;
-  },
-  create: async (data: {
-    name: string;
-    accountNumber: string;
-    balance: number;
-    bankName: string;
-    isDefault?: boolean;
-  }) => {
+    return parseResponse(
+      envelope(bankAccountSchema),
+      response.data,
+      "GET /accounts/{id}"
+    );
+  },
+  create: async (data: BankAccountInput) => {
     const response = await api.post("/accounts", data);
-    return response.data;
+    return parseResponse(
+      envelope(bankAccountSchema),
+      response.data,
+      "POST /accounts"
+    );
   },
-  update: async (id: string, data: any) => {
+  update: async (id: string, data: Partial<BankAccountInput>) => {
     const response = await api.put(`/accounts/${id}`, data);
-    return response.data;
+    return parseResponse(
+      envelope(bankAccountSchema),
+      response.data,
+      "PUT /accounts/{id}"
+    );
   },
   delete: async (id: string) => {
     const response = await api.delete(`/accounts/${id}`);
-    return response.data;
+    return parseResponse(emptyResponse, response.data, "DELETE /accounts/{id}");
+  },
+  // Not in the API docs yet. Stamps reconciledAt on every listed expense and
+  // deposit, and this account's side of every listed transfer, and records
+  // the statement in one request.
+  reconcile: async (id: string, data: ReconciliationInput) => {
+    const response = await api.post(`/accounts/${id}/reconcile`, data);
+    return parseResponse(
+      envelope(reconciliationSchema),
+      response.data,
+      "POST /accounts/{id}/reconcile"
+    );
   },
 };
 
 export const budgetsAPI = {
   getAll: async (userId: string) => {
     const response = await api.get(`/budgets?userId=${userId}`);
-    return response.data;
+    return parseResponse(
+      envelope(z.array(budgetSchema)),
+      response.data,
+      "GET /budgets"
+    );
   },
   getById: async (id: string) => {
     const response = await api.get(`/budgets/${id}`);
-    return response.data;
-  },
-  create: async (data: {
-    userId: string;
-    month: number;
-    year: number;
-    amountLimit: number;
-    thresholdPercentage?: number;
-  }) => {
+    return parseResponse(
+      envelope(budgetSchema),
+      response.data,
+      "GET /budgets/{id}"
+    );
+  },
+  create: async (data: BudgetInput) => {
     const response = await api.post("/budgets", data);
-    return response.data;
+    return parseResponse(
+      envelope(budgetSchema),
+      response.data,
+      "POST /budgets"
+    );
   },
-  update: async (id: string, data: any) => {
+  update: async (id: string, data: Partial<BudgetInput>) => {
     const response = await api.put(`/budgets/${id}`, data);
-    return response.data;
+    return parseResponse(
+      envelope(budgetSchema),
+      response.data,
+      "PUT /budgets/{id}"
+    );
   },
   delete: async (id: string) => {
     const response = await api.delete(`/budgets/${id}`);
-    return response.data;
+    return parseResponse(emptyResponse, response.data, "DELETE /budgets/{id}");
+  },
+  recalc: async (id: string) => {
+    const response = await api.put(`/budgets/${id}/recalc`);
+    return parseResponse(
+      envelope(budgetSchema),
+      response.data,
+      "PUT /budgets/{id}/recalc"
+    );
+  },
+  getAlerts: async (userId: string) => {
+    const response = await api.get(`/budgets/alerts/all?userId=${userId}`);
+    return parseResponse(
+      envelope(z.array(budgetAlertSchema)),
+      response.data,
+      "GET /budgets/alerts/all"
+    );
+  },
+  markAlertAsRead: async (id: string) => {
+    const response = await api.put(`/budgets/alerts/${id}/read`);
+    return parseResponse(
+      envelope(budgetAlertSchema),
+      response.data,
+      "PUT /budgets/alerts/{id}/read"
+    );
   },
   getCurrent: async (userId: string) => {
     const response = await api.get(`/budgets/current?userId=${userId}`);
-    return response.data;
+    return parseResponse(
+      envelope(budgetSchema.nullable()),
+      response.data,
+      "GET /budgets/current"
+    );
   },
   getSummary: async (userId: string, year?: number) => {
     const queryParams = new URLSearchParams({ userId });
     if (year) queryParams.append("year", year.toString());
     const response = await api.get(`/budgets/summary/all?${queryParams}`);
-    return response.data;
+    return parseResponse(
+      envelope(budgetSummarySchema),
+      response.data,
+      "GET /budgets/summary/all"
+    );
   },
 };
 
 export const receiptsAPI = {
-  upload: async (file: File) => {
+  upload: async (
+    file: File,
+    options?: { onProgress?: (fraction: number) => void; signal?: AbortSignal }
+  ) => {
     const formData = new FormData();
     formData.append("image", file);
     const response = await api.post("/receipts", formData, {
       headers: {
         "Content-Type": "multipart/form-data",
       },
+      signal: options?.signal,
+      onUploadProgress: (event) => {
+        if (event.total) options?.onProgress?.(event.loaded / event.total);
+      },
     });
-    return response.data;
-  },
-  getAll: async (params?: { page?: number; limit?: number }) => {
+    return parseResponse(
+      envelope(receiptSchema),
+      response.data,
+      "POST /receipts"
+    );
+  },
+  // status, startDate, endDate, search and unlinked are not in the API docs
+  // yet. `unlinked` keeps receipts that no expense was created from.
+  getAll: async (params?: {
+    page?: number;
+    limit?: number;
+    status?: ReceiptStatus;
+    startDate?: string;
+    endDate?: string;
+    search?: string;
+    unlinked?: boolean;
+  }) => {
     const queryParams = new URLSearchParams();
     if (params?.page) queryParams.append("page", params.page.toString());
     if (params?.limit) queryParams.append("limit", params.limit.toString());
+    if (params?.status) queryParams.append("status", params.status);
+    if (params?.startDate) queryParams.append("startDate", params.startDate);
+    if (params?.endDate) queryParams.append("endDate", params.endDate);
+    if (params?.search) queryParams.append("search", params.search);
+    if (params?.unlinked) queryParams.append("unlinked", "true");
     const response = await api.get(`/receipts?${queryParams}`);
-    return response.data;
+    return parseResponse(
+      envelope(z.array(receiptSchema)),
+      response.data,
+      "GET /receipts"
+    );
+  },
+  getStats: async (userId: string) => {
+    const response = await api.get(`/receipts/stats/all?userId=${userId}`);
+    return parseResponse(
+      envelope(receiptStatsSchema),
+      response.data,
+      "GET /receipts/stats/all"
+    );
+  },
+  getById: async (id: string) => {
+    const response = await api.get(`/receipts/${id}`);
+    return parseResponse(
+      envelope(receiptSchema),
+      response.data,
+      "GET /receipts/{id}"
+    );
+  },
+  // Not in the API docs yet: queues a FAILED receipt for processing again.
+  reprocess: async (id: string) => {
+    const response = await api.post(`/receipts/${id}/reprocess`);
+    return parseResponse(
+      envelope(receiptSchema),
+      response.data,
+      "POST /receipts/{id}/reprocess"
+    );
+  },
+  // Not in the API docs yet: a single-use ticket, valid for a few seconds,
+  // that opens the receipt status stream.
+  getEventsTicket: async () => {
+    const response = await api.post(`${RECEIPT_EVENTS_PATH}/ticket`);
+    return parseResponse(
+      envelope(z.object({ ticket: z.string() })),
+      response.data,
+      `POST ${RECEIPT_EVENTS_PATH}/ticket`
+    );
+  },
+  /**
+   * Opens the receipt status stream. Returns a function that closes it, or
+   * null when the backend has no stream configured. Malformed messages are
+   * skipped.
+   */
+  subscribe: (handlers: {
+    onOpen: () => void;
+    onReceipt: (receipt: Receipt) => void;
+    onError: () => void;
+  }) => {
+    if (!RECEIPT_EVENTS_PATH) return null;
+    let source: EventSource | null = null;
+    let retryTimer = 0;
+    let closed = false;
+
+    const reopen = () => {
+      handlers.onError();
+      if (!closed) {
+        retryTimer = window.setTimeout(open, RECEIPT_EVENTS_RETRY);
+      }
+    };
+    const open = async () => {
+      let ticket: string;
+      try {
+        ticket = (await receiptsAPI.getEventsTicket()).data.ticket;
+      } catch {
+        reopen();
+        return;
+      }
+      if (closed) return;
+      source = new EventSource(
+        `${API_BASE_URL}${RECEIPT_EVENTS_PATH}?ticket=${encodeURIComponent(ticket)}`
+      );
+      source.onopen = handlers.onOpen;
+      source.onerror = () => {
+        source?.close();
+        reopen();
+      };
+      source.onmessage = (event) => {
+        try {
+          const result = receiptSchema.safeParse(JSON.parse(event.data));
+          if (result.success) handlers.onReceipt(result.data);
+        } catch {
+          // Not JSON, e.g. a keep-alive comment the server sent as data.
+        }
+      };
+    };
+
+    open();
+    return () => {
+      closed = true;
+      window.clearTimeout(retryTimer);
+      source?.close();
+    };
+  },
+  // Not in the API docs yet: saves corrections from the review editor.
+  update: async (id: string, data: ReceiptUpdateInput) => {
+    const response = await api.put(`/receipts/${id}`, data);
+    return parseResponse(
+      envelope(receiptSchema),
+      response.data,
+      "PUT /receipts/{id}"
+    );
   },
   delete: async (id: string) => {
     const response = await api.delete(`/receipts/${id}`);
-    return response.data;
-  },
-  createExpense: async (data: {
-    receiptId: string;
-    bankAccountId: string;
-    categoryId: string;
-    amount: number;
-    note?: string;
-  }) => {
+    return parseResponse(emptyResponse, response.data, "DELETE /receipts/{id}");
+  },
+  createExpense: async (data: ReceiptExpenseInput) => {
     const response = await api.post("/receipts/expense", data);
-    return response.data;
+    return parseResponse(
+      envelope(expenseSchema),
+      response.data,
+      "POST /receipts/expense"
+    );
   },
 };
 
+// Only GET /expense-categories is in the API docs; managing categories and
+// their ExpenseTypes is not documented yet.
 export const categoriesAPI = {
-  getExpenseCategories: async () => {
-    const response = await api.get("/expense-categories");
-    return response.data;
-  },
-  getDepositTypes: async () => {
-    const response = await api.get("/deposits/types/all");
-    return response.data;
+  // Archived categories are left out unless asked for.
+  getExpenseCategories: async (params?: { includeArchived?: boolean }) => {
+    const queryParams = new URLSearchParams();
+    if (params?.includeArchived) queryParams.append("includeArchived", "true");
+    const response = await api.get(`/expense-categories?${queryParams}`);
+    return parseResponse(
+      envelope(z.array(expenseCategorySchema)),
+      response.data,
+      "GET /expense-categories"
+    );
+  },
+  createExpenseCategory: async (data: ExpenseCategoryInput) => {
+    const response = await api.post("/expense-categories", data);
+    return parseResponse(
+      envelope(expenseCategorySchema),
+      response.data,
+      "POST /expense-categories"
+    );
+  },
+  updateExpenseCategory: async (
+    id: string,
+    data: ExpenseCategoryUpdateInput
+  ) => {
+    const response = await api.put(`/expense-categories/${id}`, data);
+    return parseResponse(
+      envelope(expenseCategorySchema),
+      response.data,
+      "PUT /expense-categories/{id}"
+    );
+  },
+  /**
+   * Moves every expense, split line, recurring expense, budget line and
+   * ExpenseType of the category into `targetId`, then removes it. Returns
+   * the target.
+   */
+  mergeExpenseCategory: async (id: string, targetId: string) => {
+    const response = await api.post(`/expense-categories/${id}/merge`, {
+      targetId,
+    });
+    return parseResponse(
+      envelope(expenseCategorySchema),
+      response.data,
+      "POST /expense-categories/{id}/merge"
+    );
+  },
+  getExpenseTypes: async () => {
+    const response = await api.get("/expense-types");
+    return parseResponse(
+      envelope(z.array(expenseTypeSchema)),
+      response.data,
+      "GET /expense-types"
+    );
+  },
+  createExpenseType: async (data: ExpenseTypeInput) => {
+    const response = await api.post("/expense-types", data);
+    return parseResponse(
+      envelope(expenseTypeSchema),
+      response.data,
+      "POST /expense-types"
+    );
+  },
+  updateExpenseType: async (id: string, data: Partial<ExpenseTypeInput>) => {
+    const response = await api.put(`/expense-types/${id}`, data);
+    return parseResponse(
+      envelope(expenseTypeSchema),
+      response.data,
+      "PUT /expense-types/{id}"
+    );
+  },
+  // Expenses of a deleted type keep their category.
+  deleteExpenseType: async (id: string) => {
+    const response = await api.delete(`/expense-types/${id}`);
+    return parseResponse(
+      emptyResponse,
+      response.data,
+      "DELETE /expense-types/{id}"
+    );
+  },
+  // includeArchived is not in the API docs yet.
+  getDepositTypes: async (params?: { includeArchived?: boolean }) => {
+    const queryParams = new URLSearchParams();
+    if (params?.includeArchived) queryParams.append("includeArchived", "true");
+    const response = await api.get(`/deposits/types/all?${queryParams}`);
+    return parseResponse(
+      envelope(z.array(depositTypeSchema)),
+      response.data,
+      "GET /deposits/types/all"
+    );
+  },
+  createDepositType: async (data: DepositTypeInput) => {
+    const response = await api.post("/deposits/types", data);
+    return parseResponse(
+      envelope(depositTypeSchema),
+      response.data,
+      "POST /deposits/types"
+    );
+  },
+  // Not in the API docs yet. Archiving keeps the type on its deposits.
+  updateDepositType: async (id: string, data: DepositTypeUpdateInput) => {
+    const response = await api.put(`/deposits/types/${id}`, data);
+    return parseResponse(
+      envelope(depositTypeSchema),
+      response.data,
+      "PUT /deposits/types/{id}"
+    );
   },
 };
 
@@ -300,36 +779,65 @@ export const reportsAPI = {
       language,
       generatePdf,
     });
-    return response.data;
+    return parseResponse(
+      envelope(monthlyReportSchema),
+      response.data,
+      "POST /ai/report"
+    );
   },
   getAiSuggestions: async (category?: string) => {
     const response = await api.post("/ai/suggestions/generate", {
       category,
     });
-    return response.data;
+    return parseResponse(
+      envelope(z.array(aiSuggestionSchema)),
+      response.data,
+      "POST /ai/suggestions/generate"
+    );
   },
   getAllSuggestions: async () => {
     const response = await api.get("/ai/suggestions/all");
-    return response.data;
+    return parseResponse(
+      envelope(z.array(aiSuggestionSchema)),
+      response.data,
+      "GET /ai/suggestions/all"
+    );
   },
   markSuggestionAsRead: async (id: string) => {
     const response = await api.put(`/ai/suggestions/${id}/read`);
-    return response.data;
+    return parseResponse(
+      envelope(aiSuggestionSchema),
+      response.data,
+      "PUT /ai/suggestions/{id}/read"
+    );
   },
   getReports: async () => {
     const response = await api.get("/ai/reports");
-    return response.data;
+    // Unlike the other endpoints, the report list is returned under `reports`.
+    return parseResponse(
+      z.object({ reports: z.array(monthlyReportSchema) }),
+      response.data,
+      "GET /ai/reports"
+    );
   },
 };
 
 export const notificationsAPI = {
   getAll: async (userId: string) => {
     const response = await api.get(`/notifications?userId=${userId}`);
-    return response.data;
+    return parseResponse(
+      envelope(z.array(notificationSchema)),
+      response.data,
+      "GET /notifications"
+    );
   },
   markAsRead: async (id: string) => {
     const response = await api.put(`/notifications/${id}/read`);
-    return response.data;
+    return parseResponse(
+      envelope(notificationSchema),
+      response.data,
+      "PUT /notifications/{id}/read"
+    );
   },
 };
 
@@ -0,0 +1,162 @@
+import dayjs from "dayjs";
+import { toBaseCurrency } from "./currency";
+import { monthIndex } from "./budgets";
+import type { BankAccount, Budget, Expense } from "./models";
+
+// Budget templates fill many months at once. The backend has no notion of
+// templates, so they are kept in localStorage like the currency settings and
+// expanded into plain budgets before anything is sent.
+
+export type BudgetTemplateBasis = "flat" | "lastYear" | "rollingAverage";
+
+export interface BudgetTemplate {
+  id: string;
+  name: string;
+  basis: BudgetTemplateBasis;
+  // Used by the flat basis.
+  amount: number;
+  // Applied to the spend-based bases, e.g. -10 for "10% less than before".
+  adjustPercentage: number;
+  thresholdPercentage: number;
+  rollover: boolean;
+}
+
+export interface BudgetMonth {
+  month: number;
+  year: number;
+}
+
+export type BudgetPlanAction = "create" | "update" | "keep" | "no-data";
+
+export interface BudgetPlanRow extends BudgetMonth {
+  amountLimit: number | null;
+  existing?: Budget;
+  action: BudgetPlanAction;
+}
+
+export const BASIS_LABELS: Record<BudgetTemplateBasis, string> = {
+  flat: "Flat amount",
+  lastYear: "Last year's spend",
+  rollingAverage: "3-month rolling average",
+};
+
+const TEMPLATES_KEY = "budgetTemplates";
+const ROLLING_MONTHS = 3;
+
+export const getBudgetTemplates = (): BudgetTemplate[] => {
+  const stored = localStorage.getItem(TEMPLATES_KEY);
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return [];
+  }
+};
+
+export const saveBudgetTemplates = (templates: BudgetTemplate[]) => {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+};
+
+export const newBudgetTemplate = (): BudgetTemplate => ({
+  id: crypto.randomUUID(),
+  name: "",
+  basis: "flat",
+  amount: 0,
+  adjustPercentage: 0,
+  thresholdPercentage: 80,
+  rollover: false,
+});
+
+/** Every month from `from` to `to` inclusive; empty when they are reversed. */
+export const monthRange = (
+  from: BudgetMonth,
+  to: BudgetMonth
+): BudgetMonth[] => {
+  const months: BudgetMonth[] = [];
+  for (let index = monthIndex(from); index <= monthIndex(to); index++) {
+    months.push({ month: (index % 12) + 1, year: Math.floor(index / 12) });
+  }
+  return months;
+};
+
+/** Base-currency spending keyed by month index. */
+export const monthlySpending = (
+  expenses: Expense[],
+  accounts: BankAccount[]
+): Map<number, number> => {
+  const totals = new Map<number, number>();
+  for (const expense of toBaseCurrency(expenses, accounts)) {
+    const date = dayjs(expense.date);
+    const index = monthIndex({ month: date.month() + 1, year: date.year() });
+    totals.set(index, (totals.get(index) || 0) + expense.amount);
+  }
+  return totals;
+};
+
+/**
+ * The limit a template gives a month, or null when there is no spending
+ * history to base it on. The rolling average looks at the three months before
+ * the target, or before the current month for targets in the future, and
+ * averages only the months that have spending.
+ */
+export const templateAmount = (
+  template: BudgetTemplate,
+  target: BudgetMonth,
+  spending: Map<number, number>
+): number | null => {
+  if (template.basis === "flat") return template.amount;
+
+  let base: number | undefined;
+  if (template.basis === "lastYear") {
+    base = spending.get(monthIndex(target) - 12);
+  } else {
+    const now = dayjs();
+    const end = Math.min(
+      monthIndex(target),
+      monthIndex({ month: now.month() + 1, year: now.year() })
+    );
+    const history = [];
+    for (let index = end - ROLLING_MONTHS; index < end; index++) {
+      const spent = spending.get(index);
+      if (spent !== undefined) history.push(spent);
+    }
+    if (history.length > 0) {
+      base = history.reduce((sum, spent) => sum + spent, 0) / history.length;
+    }
+  }
+  if (base === undefined) return null;
+  return Math.round(base * (1 + template.adjustPercentage / 100) * 100) / 100;
+};
+
+/**
+ * What applying a template would do to each month. Existing budgets are only
+ * changed when `overwrite` is set and the limit or threshold differs.
+ */
+export const planBudgets = (
+  template: BudgetTemplate,
+  months: BudgetMonth[],
+  budgets: Budget[],
+  spending: Map<number, number>,
+  overwrite: boolean
+): BudgetPlanRow[] =>
+  months.map((target) => {
+    const existing = budgets.find(
+      (b) => b.month === target.month && b.year === target.year
+    );
+    const amountLimit = templateAmount(template, target, spending);
+    let action: BudgetPlanAction;
+    if (amountLimit === null || amountLimit <= 0) {
+      action = "no-data";
+    } else if (!existing) {
+      action = "create";
+    } else if (
+      overwrite &&
+      (existing.amountLimit !== amountLimit ||
+        existing.thresholdPercentage !== template.thresholdPercentage)
+    ) {
+      action = "update";
+    } else {
+      action = "keep";
+    }
+    return { ...target, amountLimit, existing, action };
+  });
@@ -0,0 +1,206 @@
+import { useQuery } from "@tanstack/react-query";
+import { expensesAPI } from "./api";
+import { getAuthToken, getUserId, dayStart, dayEnd } from "./utils";
+import { toBaseCurrency } from "./currency";
+import { expenseLines } from "./splits";
+import type { BankAccount, Budget, Expense, ExpenseCategory } from "./models";
+import dayjs from "dayjs";
+
+// Category lines of a monthly budget, measured against the month's expenses
+// in the base currency, and the rollover (envelope) chain between months.
+
+export type BudgetUsage = "ok" | "near" | "over";
+
+export interface CategoryBudgetStatus {
+  categoryId: string;
+  name: string;
+  // Limit plus whatever rolled over from earlier months.
+  limit: number;
+  carriedIn: number;
+  spent: number;
+  percentage: number;
+  thresholdPercentage: number;
+  usage: BudgetUsage;
+}
+
+export const monthIndex = (budget: Pick<Budget, "month" | "year">) =>
+  budget.year * 12 + budget.month - 1;
+
+export const budgetUsage = (
+  percentage: number,
+  thresholdPercentage: number
+): BudgetUsage =>
+  percentage > 100 ? "over" : percentage >= thresholdPercentage ? "near" : "ok";
+
+/** Expenses of the budget's month, shared by Budgets and Overview. */
+export const useMonthExpenses = (month?: number, year?: number) =>
+  useQuery({
+    queryKey: ["expenses", "budget", month, year],
+    queryFn: async () => {
+      const token = getAuthToken();
+      if (!token) throw new Error("No authentication token");
+
+      const userId = getUserId();
+      if (!userId) throw new Error("No user ID found");
+
+      if (!month || !year) throw new Error("No budget month");
+
+      const start = dayjs()
+        .year(year)
+        .month(month - 1);
+      const response = await expensesAPI.getAll(userId, {
+        startDate: dayStart(start.startOf("month").format("YYYY-MM-DD")),
+        endDate: dayEnd(start.endOf("month").format("YYYY-MM-DD")),
+      });
+      return response;
+    },
+    enabled: !!month && !!year,
+  });
+
+/**
+ * Spending per month index in raw account amounts, which is how the backend
+ * totals a budget's spentAmount.
+ */
+export const rawSpendingByMonth = (
+  expenses: Expense[]
+): Map<number, number> => {
+  const totals = new Map<number, number>();
+  for (const expense of expenses) {
+    const date = dayjs(expense.date);
+    const index = monthIndex({ month: date.month() + 1, year: date.year() });
+    totals.set(index, (totals.get(index) || 0) + expense.amount);
+  }
+  return totals;
+};
+
+/** How far the stored spentAmount is behind the month's expenses. */
+export const budgetDrift = (budget: Budget, spending: Map<number, number>) =>
+  Math.round(
+    ((spending.get(monthIndex(budget)) || 0) - budget.spentAmount) * 100
+  ) / 100;
+
+/** Base-currency spending per category, counting each split line. */
+export const spendingByCategory = (
+  expenses: Expense[],
+  accounts: BankAccount[]
+): Map<string, number> => {
+  const totals = new Map<string, number>();
+  for (const line of toBaseCurrency(expenses.flatMap(expenseLines), accounts)) {
+    totals.set(
+      line.categoryId,
+      (totals.get(line.categoryId) || 0) + line.amount
+    );
+  }
+  return totals;
+};
+
+/** The budget's category lines, most used first. */
+export const categoryBudgetStatuses = (
+  budget: Budget,
+  spending: Map<string, number>,
+  categories: ExpenseCategory[] = [],
+  carriedIn: Map<string, number> = new Map()
+): CategoryBudgetStatus[] =>
+  (budget.categories || [])
+    .map((line) => {
+      const spent = spending.get(line.categoryId) || 0;
+      const carry = line.rollover ? carriedIn.get(line.categoryId) || 0 : 0;
+      const limit = line.amountLimit + carry;
+      const percentage = limit > 0 ? (spent / limit) * 100 : 0;
+      return {
+        categoryId: line.categoryId,
+        name:
+          line.category?.name ||
+          categories.find((c) => c.id === line.categoryId)?.name ||
+          "Unknown",
+        limit,
+        carriedIn: carry,
+        spent,
+        percentage,
+        thresholdPercentage: line.thresholdPercentage,
+        usage: budgetUsage(percentage, line.thresholdPercentage),
+      };
+    })
+    .sort((a, b) => b.percentage - a.percentage);
+
+export interface RolloverMonth {
+  carriedIn: number;
+  available: number;
+  carriedOut: number;
+}
+
+const byMonth = (a: Budget, b: Budget) => monthIndex(a) - monthIndex(b);
+
+// A month continues the previous month's chain unless it is reset, has
+// rollover off, or a month without a budget sits in between.
+const continuesChain = (previous: Budget | undefined, budget: Budget) =>
+  !!previous &&
+  !!previous.rollover &&
+  !!budget.rollover &&
+  !budget.rolloverReset &&
+  monthIndex(budget) === monthIndex(previous) + 1;
+
+/**
+ * Carry-over for every budget, keyed by budget id. Uses the backend's
+ * spentAmount so the chain matches the yearly summary.
+ */
+export const rolloverChain = (
+  budgets: Budget[]
+): Map<string, RolloverMonth> => {
+  const chain = new Map<string, RolloverMonth>();
+  let previous: Budget | undefined;
+  let carry = 0;
+  for (const budget of [...budgets].sort(byMonth)) {
+    const carriedIn = continuesChain(previous, budget) ? carry : 0;
+    const available = budget.amountLimit + carriedIn;
+    const carriedOut = budget.rollover ? available - budget.spentAmount : 0;
+    chain.set(budget.id, { carriedIn, available, carriedOut });
+    previous = budget;
+    carry = carriedOut;
+  }
+  return chain;
+};
+
+/** The budgets of the rollover chain ending at `budget`, oldest first. */
+export const rolloverMonths = (budgets: Budget[], budget: Budget): Budget[] => {
+  const sorted = [...budgets].sort(byMonth);
+  const months = [budget];
+  let index = sorted.findIndex((b) => b.id === budget.id);
+  while (index > 0 && continuesChain(sorted[index - 1], sorted[index])) {
+    index -= 1;
+    months.unshift(sorted[index]);
+  }
+  return months;
+};
+
+/**
+ * Category amounts carried into the last month of `months`. A category line
+ * carries only while it exists with rollover on in consecutive months.
+ */
+export const categoryCarryIn = (
+  months: Budget[],
+  expenses: Expense[],
+  accounts: BankAccount[]
+): Map<string, number> => {
+  let carry = new Map<string, number>();
+  for (const budget of months.slice(0, -1)) {
+    const spending = spendingByCategory(
+      expenses.filter((expense) => {
+        const date = dayjs(expense.date);
+        return date.month() + 1 === budget.month && date.year() === budget.year;
+      }),
+      accounts
+    );
+    const next = new Map<string, number>();
+    for (const line of budget.categories || []) {
+      if (!line.rollover) continue;
+      const available = line.amountLimit + (carry.get(line.categoryId) || 0);
+      next.set(
+        line.categoryId,
+        available - (spending.get(line.categoryId) || 0)
+      );
+    }
+    carry = next;
+  }
+  return carry;
+};
@@ -0,0 +1,74 @@
+import type { DepositType, ExpenseCategory, ExpenseType } from "./models";
+
+// Expense categories with the ExpenseTypes nested under them, and deposit
+// types. Both carry an emoji icon and a hex color; the lists below are what
+// the editors offer, and either can be overridden by hand.
+
+export const CATEGORY_ICONS = [
+  "🛒",
+  "🍽️",
+  "☕",
+  "🏠",
+  "💡",
+  "🚗",
+  "⛽",
+  "🚌",
+  "✈️",
+  "🏥",
+  "💊",
+  "🎓",
+  "👕",
+  "🎁",
+  "🎬",
+  "🎮",
+  "📱",
+  "💻",
+  "🐾",
+  "👶",
+  "💪",
+  "💇",
+  "🧾",
+  "📝",
+];
+
+export const DEPOSIT_TYPE_ICONS = [
+  "💰",
+  "💼",
+  "🏦",
+  "📈",
+  "💸",
+  "🪙",
+  "🎁",
+  "🏠",
+  "🤝",
+  "🎓",
+  "🧾",
+  "📝",
+];
+
+export const CATEGORY_COLORS = [
+  "#ef4444",
+  "#f97316",
+  "#f59e0b",
+  "#84cc16",
+  "#22c55e",
+  "#14b8a6",
+  "#06b6d4",
+  "#3b82f6",
+  "#6366f1",
+  "#8b5cf6",
+  "#ec4899",
+  "#6b7280",
+];
+
+export const isArchived = (
+  item: Pick<ExpenseCategory | DepositType, "archivedAt">
+) => !!item.archivedAt;
+
+export const typesForCategory = (
+  types: ExpenseType[],
+  categoryId: string
+): ExpenseType[] =>
+  types
+    .filter((type) => type.categoryId === categoryId)
+    .sort((a, b) => a.name.localeCompare(b.name));
@@ -0,0 +1,159 @@
+import type { BankAccount } from "./models";
+
+// Currency settings live in localStorage next to the auth token, so totals
+// still convert while offline. Rates are maintained by the user in Settings.
+
+// Accounts created before multi-currency support have no currency and were
+// always shown in rupees.
+export const DEFAULT_CURRENCY = "INR";
+
+export const CURRENCIES = [
+  "INR",
+  "USD",
+  "EUR",
+  "GBP",
+  "JPY",
+  "AUD",
+  "CAD",
+  "SGD",
+  "AED",
+  "CHF",
+  "CNY",
+];
+
+const BASE_CURRENCY_KEY = "baseCurrency";
+const EXCHANGE_RATES_KEY = "exchangeRates";
+
+/** Value of one unit of each currency, expressed in the base currency. */
+export type ExchangeRates = Record<string, number>;
+
+export const getBaseCurrency = (): string => {
+  return localStorage.getItem(BASE_CURRENCY_KEY) || DEFAULT_CURRENCY;
+};
+
+export const getExchangeRates = (): ExchangeRates => {
+  const stored = localStorage.getItem(EXCHANGE_RATES_KEY);
+  if (!stored) return {};
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return {};
+  }
+};
+
+export const saveCurrencySettings = (
+  baseCurrency: string,
+  rates: ExchangeRates
+) => {
+  localStorage.setItem(BASE_CURRENCY_KEY, baseCurrency);
+  localStorage.setItem(EXCHANGE_RATES_KEY, JSON.stringify(rates));
+};
+
+/**
+ * Re-expresses a rate table against a new base currency. Returns null when
+ * the table has no rate for the new base, since nothing can be derived then.
+ */
+export const rebaseRates = (
+  rates: ExchangeRates,
+  fromBase: string,
+  toBase: string
+): ExchangeRates | null => {
+  if (fromBase === toBase) return rates;
+  const pivot = rates[toBase];
+  if (!pivot) return null;
+
+  const rebased: ExchangeRates = { [fromBase]: 1 / pivot };
+  for (const [currency, rate] of Object.entries(rates)) {
+    if (currency !== toBase) rebased[currency] = rate / pivot;
+  }
+  return rebased;
+};
+
+export const currencyOf = (
+  account?: Pick<BankAccount, "currency"> | null
+): string => {
+  return account?.currency || DEFAULT_CURRENCY;
+};
+
+export const hasRate = (
+  currency: string,
+  rates: ExchangeRates = getExchangeRates(),
+  baseCurrency: string = getBaseCurrency()
+): boolean => currency === baseCurrency || !!rates[currency];
+
+/**
+ * Converts to the base currency. Returns null when there is no rate for the
+ * currency; guessing 1:1 would silently skew every total.
+ */
+export const convertToBase = (
+  amount: number,
+  currency: string,
+  rates: ExchangeRates = getExchangeRates(),
+  baseCurrency: string = getBaseCurrency()
+): number | null => {
+  if (currency === baseCurrency) return amount;
+  if (!hasRate(currency, rates, baseCurrency)) return null;
+  return amount * rates[currency];
+};
+
+/**
+ * Converts between two currencies through the base currency's rate table, or
+ * returns null when either rate is missing.
+ */
+export const convertBetween = (
+  amount: number,
+  fromCurrency: string,
+  toCurrency: string
+): number | null => {
+  if (fromCurrency === toCurrency) return amount;
+  const baseCurrency = getBaseCurrency();
+  const rates = getExchangeRates();
+  const inBase = convertToBase(amount, fromCurrency, rates, baseCurrency);
+  if (inBase === null || toCurrency === baseCurrency) return inBase;
+  if (!hasRate(toCurrency, rates, baseCurrency)) return null;
+  return inBase / rates[toCurrency];
+};
+
+interface AccountAmount {
+  amount: number;
+  bankAccountId: string;
+}
+
+const accountCurrencies = (accounts: BankAccount[]) =>
+  new Map(accounts.map((account) => [account.id, currencyOf(account)]));
+
+/**
+ * Returns copies of the items with `amount` converted to the base currency.
+ * Items in a currency with no rate are left out; OriginalAmounts flags them.
+ */
+export const toBaseCurrency = <T extends AccountAmount>(
+  items: T[],
+  accounts: BankAccount[]
+): T[] => {
+  const currencies = accountCurrencies(accounts);
+  const rates = getExchangeRates();
+  const baseCurrency = getBaseCurrency();
+  return items.flatMap((item) => {
+    const amount = convertToBase(
+      item.amount,
+      currencies.get(item.bankAccountId) || DEFAULT_CURRENCY,
+      rates,
+      baseCurrency
+    );
+    return amount === null ? [] : [{ ...item, amount }];
+  });
+};
+
+/** Sums unconverted amounts per account currency. */
+export const totalsByCurrency = (
+  items: AccountAmount[],
+  accounts: BankAccount[]
+): Record<string, number> => {
+  const currencies = accountCurrencies(accounts);
+  const totals: Record<string, number> = {};
+  for (const item of items) {
+    const currency = currencies.get(item.bankAccountId) || DEFAULT_CURRENCY;
+    totals[currency] = (totals[currency] || 0) + item.amount;
+  }
+  return totals;
+};
@@ -0,0 +1,298 @@
+import dayjs from "dayjs";
+import customParseFormat from "dayjs/plugin/customParseFormat";
+import { expenseLines } from "./splits";
+import { hasTag } from "./tags";
+import { regexError } from "./rules";
+import type { Expense } from "./models";
+
+dayjs.extend(customParseFormat);
+
+// The Expenses list filter, sort order and visible columns together make a
+// view. The active view lives in the URL query string so it can be
+// bookmarked and shared; values left at their defaults are not written.
+// Until the user picks dates the view follows the current month, and a link
+// or saved view made then does too; once dates are picked they are always
+// written, so the link shows those dates whenever it is opened. Views saved
+// under a name are stored as that query string in localStorage, like the
+// rules.
+
+export type RecurringFilter = "all" | "recurring" | "oneOff";
+export type ReceiptFilter = "all" | "with" | "without";
+export type DatePeriod = "thisMonth" | "custom";
+
+export interface ExpenseFilter {
+  // "thisMonth" keeps the dates on the current month
+  period: DatePeriod;
+  startDate: string;
+  endDate: string;
+  // Free text over the note, categories, type and tags
+  search: string;
+  // Any of these; a split expense matches on any line
+  categoryIds: string[];
+  expenseTypeId: string;
+  tag: string;
+  bankAccountIds: string[];
+  minAmount: number | null;
+  maxAmount: number | null;
+  recurring: RecurringFilter;
+  receipt: ReceiptFilter;
+  noteContains: string;
+  noteRegex: string;
+}
+
+export const EXPENSE_COLUMNS = [
+  { id: "date", label: "Date" },
+  { id: "description", label: "Description" },
+  { id: "category", label: "Category" },
+  { id: "account", label: "Account" },
+  { id: "amount", label: "Amount" },
+] as const;
+
+export type ExpenseColumn = (typeof EXPENSE_COLUMNS)[number]["id"];
+
+export interface ExpenseSort {
+  column: ExpenseColumn;
+  direction: "asc" | "desc";
+}
+
+export interface ExpenseView {
+  filter: ExpenseFilter;
+  sort: ExpenseSort;
+  columns: ExpenseColumn[];
+}
+
+export interface SavedExpenseView {
+  id: string;
+  name: string;
+  // The view's URL query string
+  query: string;
+}
+
+const COLUMN_IDS: ExpenseColumn[] = EXPENSE_COLUMNS.map((column) => column.id);
+
+export const defaultExpenseView = (): ExpenseView => ({
+  filter: {
+    period: "thisMonth",
+    startDate: dayjs().startOf("month").format("YYYY-MM-DD"),
+    endDate: dayjs().endOf("month").format("YYYY-MM-DD"),
+    search: "",
+    categoryIds: [],
+    expenseTypeId: "",
+    tag: "",
+    bankAccountIds: [],
+    minAmount: null,
+    maxAmount: null,
+    recurring: "all",
+    receipt: "all",
+    noteContains: "",
+    noteRegex: "",
+  },
+  sort: { column: "date", direction: "desc" },
+  columns: COLUMN_IDS,
+});
+
+const parseAmount = (value: string | null) => {
+  if (value === null || value === "") return null;
+  const amount = Number(value);
+  return Number.isFinite(amount) ? amount : null;
+};
+
+// Only real calendar dates; anything else falls back to the default
+const parseDate = (value: string | null) =>
+  value && dayjs(value, "YYYY-MM-DD", true).isValid() ? value : null;
+
+const parseList = (value: string | null) =>
+  value ? value.split(",").filter(Boolean) : [];
+
+const oneOf = <T extends string>(
+  value: string | null,
+  options: readonly T[],
+  fallback: T
+): T => (options.includes(value as T) ? (value as T) : fallback);
+
+/** Reads a view from the URL; anything missing or unknown is the default. */
+export const viewFromParams = (params: URLSearchParams): ExpenseView => {
+  const defaults = defaultExpenseView();
+  const [sortColumn, sortDirection] = (params.get("sort") || "").split(".");
+  const columns = parseList(params.get("columns")).filter(
+    (column): column is ExpenseColumn =>
+      COLUMN_IDS.includes(column as ExpenseColumn)
+  );
+  const from = parseDate(params.get("from"));
+  const to = parseDate(params.get("to"));
+  return {
+    filter: {
+      period: from || to ? "custom" : "thisMonth",
+      startDate: from || defaults.filter.startDate,
+      endDate: to || defaults.filter.endDate,
+      search: params.get("q") || "",
+      categoryIds: parseList(params.get("categories")),
+      expenseTypeId: params.get("type") || "",
+      tag: params.get("tag") || "",
+      bankAccountIds: parseList(params.get("accounts")),
+      minAmount: parseAmount(params.get("min")),
+      maxAmount: parseAmount(params.get("max")),
+      recurring: oneOf(
+        params.get("recurring"),
+        ["all", "recurring", "oneOff"],
+        "all"
+      ),
+      receipt: oneOf(params.get("receipt"), ["all", "with", "without"], "all"),
+      noteContains: params.get("note") || "",
+      noteRegex: params.get("pattern") || "",
+    },
+    sort: {
+      column: oneOf(sortColumn, COLUMN_IDS, defaults.sort.column),
+      direction: oneOf(sortDirection, ["asc", "desc"], "desc"),
+    },
+    columns: columns.length > 0 ? columns : defaults.columns,
+  };
+};
+
+/** Writes a view to a query string, leaving out the defaults. */
+export const viewToParams = (view: ExpenseView): URLSearchParams => {
+  const { filter, sort, columns } = view;
+  const params = new URLSearchParams();
+  const set = (key: string, value: string, unless = "") => {
+    if (value && value !== unless) params.set(key, value);
+  };
+  if (filter.period === "custom") {
+    set("from", filter.startDate);
+    set("to", filter.endDate);
+  }
+  set("q", filter.search);
+  set("categories", filter.categoryIds.join(","));
+  set("type", filter.expenseTypeId);
+  set("tag", filter.tag);
+  set("accounts", filter.bankAccountIds.join(","));
+  set("min", filter.minAmount === null ? "" : String(filter.minAmount));
+  set("max", filter.maxAmount === null ? "" : String(filter.maxAmount));
+  set("recurring", filter.recurring, "all");
+  set("receipt", filter.receipt, "all");
+  set("note", filter.noteContains);
+  set("pattern", filter.noteRegex);
+  set("sort", `${sort.column}.${sort.direction}`, "date.desc");
+  set(
+    "columns",
+    // Kept in table order
+    COLUMN_IDS.filter((column) => columns.includes(column)).join(","),
+    COLUMN_IDS.join(",")
+  );
+  return params;
+};
+
+/** How many of the filters beyond search and dates are set. */
+export const activeFilterCount = (filter: ExpenseFilter) =>
+  [
+    filter.categoryIds.length > 0,
+    !!filter.expenseTypeId,
+    !!filter.tag,
+    filter.bankAccountIds.length > 0,
+    filter.minAmount !== null,
+    filter.maxAmount !== null,
+    filter.recurring !== "all",
+    filter.receipt !== "all",
+    !!filter.noteContains,
+    !!filter.noteRegex,
+  ].filter(Boolean).length;
+
+// Note patterns arrive in shareable links, and some can backtrack for ever
+// on a long note. That cannot be told reliably from the pattern's text, so
+// nothing here claims to catch it: the Expenses page only runs a pattern from
+// a link once the user applies it, and overlong patterns are refused.
+const MAX_PATTERN_LENGTH = 100;
+
+/** Why a note pattern will not be run, or null when it will. */
+export const notePatternError = (pattern: string): string | null => {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `Patterns are limited to ${MAX_PATTERN_LENGTH} characters`;
+  }
+  return regexError(pattern);
+};
+
+/**
+ * Builds the test for whether an expense passes the filter, compiling the
+ * note pattern once rather than per row. The search text and dates are
+ * handled by the caller; a pattern that will not run is ignored.
+ */
+export const filterMatcher = (filter: ExpenseFilter) => {
+  const pattern =
+    filter.noteRegex && !notePatternError(filter.noteRegex)
+      ? new RegExp(filter.noteRegex, "i")
+      : null;
+  const noteSearch = filter.noteContains.trim().toLowerCase();
+
+  return (expense: Expense) => {
+    if (
+      filter.categoryIds.length > 0 &&
+      !expenseLines(expense).some((line) =>
+        filter.categoryIds.includes(line.categoryId)
+      )
+    ) {
+      return false;
+    }
+    if (
+      filter.expenseTypeId &&
+      expense.expenseTypeId !== filter.expenseTypeId
+    ) {
+      return false;
+    }
+    if (filter.tag && !hasTag(expense, filter.tag)) return false;
+    if (
+      filter.bankAccountIds.length > 0 &&
+      !filter.bankAccountIds.includes(expense.bankAccountId)
+    ) {
+      return false;
+    }
+    if (filter.minAmount !== null && expense.amount < filter.minAmount) {
+      return false;
+    }
+    if (filter.maxAmount !== null && expense.amount > filter.maxAmount) {
+      return false;
+    }
+    if (filter.recurring !== "all") {
+      if (expense.isRecurring !== (filter.recurring === "recurring")) {
+        return false;
+      }
+    }
+    if (filter.receipt !== "all") {
+      if (!!expense.receiptId !== (filter.receipt === "with")) return false;
+    }
+    const note = (expense.note || "").toLowerCase();
+    if (noteSearch && !note.includes(noteSearch)) return false;
+    if (pattern && !pattern.test(expense.note || "")) return false;
+    return true;
+  };
+};
+
+/** Sorts by the value `valueOf` gives for the sort column. */
+export const sortExpenses = <T>(
+  items: T[],
+  sort: ExpenseSort,
+  valueOf: (item: T, column: ExpenseColumn) => string | number
+): T[] =>
+  [...items].sort((a, b) => {
+    const x = valueOf(a, sort.column);
+    const y = valueOf(b, sort.column);
+    const order =
+      typeof x === "number" && typeof y === "number"
+        ? x - y
+        : String(x).localeCompare(String(y));
+    return sort.direction === "asc" ? order : -order;
+  });
+
+const VIEWS_KEY = "expenseViews";
+
+export const getSavedViews = (): SavedExpenseView[] => {
+  const stored = localStorage.getItem(VIEWS_KEY);
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return [];
+  }
+};
+
+export const saveViews = (views: SavedExpenseView[]) => {
+  localStorage.setItem(VIEWS_KEY, JSON.stringify(views));
+};
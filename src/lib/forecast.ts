@@ -0,0 +1,228 @@
+import { useQuery } from "@tanstack/react-query";
+import dayjs from "dayjs";
+import type { Dayjs } from "dayjs";
+import { expensesAPI } from "./api";
+import { getAuthToken, getUserId, dayStart, dayEnd } from "./utils";
+import { toBaseCurrency } from "./currency";
+import { getOccurrences } from "./recurring";
+import { useMonthExpenses } from "./budgets";
+import type { BankAccount, Budget, Expense, RecurringExpense } from "./models";
+
+// Month-end projection for the current budget. Spending so far is extended
+// with the recurring expenses still due this month and a daily pace for
+// everything else, taken from recent months and this month's own spending.
+// Recurring templates have no account, so their amounts count as base
+// currency.
+
+export interface SpendingForecast {
+  spent: number;
+  recurringDue: number;
+  dailyPace: number;
+  projected: number;
+  // Roughly an 80% band around the projection.
+  low: number;
+  high: number;
+  daysLeft: number;
+  // Null when the amount is not reached this month.
+  thresholdDate: Dayjs | null;
+  limitDate: Dayjs | null;
+  safeToSpendPerDay: number;
+}
+
+// Months of history behind the daily pace.
+const HISTORY_MONTHS = 3;
+// How many days of history the pace is worth against this month's days, so
+// an odd first week does not swing the forecast.
+const HISTORY_WEIGHT_DAYS = 14;
+// z-score for an 80% two-sided band.
+const BAND_Z = 1.28;
+
+const sumAmounts = (expenses: Expense[]) =>
+  expenses.reduce((sum, expense) => sum + expense.amount, 0);
+
+const dailyTotals = (expenses: Expense[]) => {
+  const totals = new Map<string, number>();
+  for (const expense of expenses) {
+    const day = dayjs(expense.date).format("YYYY-MM-DD");
+    totals.set(day, (totals.get(day) || 0) + expense.amount);
+  }
+  return totals;
+};
+
+/**
+ * Projects the month's spending against `limit`. `monthExpenses` are the
+ * expenses of the month so far and `history` those of the months before it;
+ * expenses booked from a recurring template are left out of the pace because
+ * the template's own due dates already account for them.
+ */
+export const forecastMonth = (
+  limit: number,
+  thresholdPercentage: number,
+  monthExpenses: Expense[],
+  history: Expense[],
+  recurring: RecurringExpense[],
+  accounts: BankAccount[],
+  today: Dayjs = dayjs()
+): SpendingForecast => {
+  const monthStart = today.startOf("month");
+  const monthEnd = today.endOf("month");
+  const expenses = toBaseCurrency(monthExpenses, accounts);
+  const spent = sumAmounts(expenses);
+  const daysElapsed = today.date();
+  const daysLeft = monthEnd.date() - daysElapsed;
+
+  // Daily spend over the history window, counting days without expenses.
+  const historyStart = monthStart.subtract(HISTORY_MONTHS, "month");
+  const historyDays = monthStart.diff(historyStart, "day");
+  const pastSpending = toBaseCurrency(history, accounts).filter(
+    (e) => !e.isRecurring
+  );
+  const historyTotals = dailyTotals(pastSpending);
+  const historyPace = sumAmounts(pastSpending) / historyDays;
+  const historyVariance =
+    Array.from({ length: historyDays }, (_, i) =>
+      historyStart.add(i, "day").format("YYYY-MM-DD")
+    ).reduce(
+      (sum, day) => sum + ((historyTotals.get(day) || 0) - historyPace) ** 2,
+      0
+    ) / historyDays;
+
+  const currentPace =
+    sumAmounts(expenses.filter((e) => !e.isRecurring)) / daysElapsed;
+  const historyWeight = history.length > 0 ? HISTORY_WEIGHT_DAYS : 0;
+  const dailyPace =
+    (currentPace * daysElapsed + historyPace * historyWeight) /
+    (daysElapsed + historyWeight);
+
+  // Recurring amounts still to come, by day.
+  const recurringByDay = new Map<number, number>();
+  for (const template of recurring) {
+    for (const date of getOccurrences(
+      template,
+      today.add(1, "day"),
+      monthEnd
+    )) {
+      recurringByDay.set(
+        date.date(),
+        (recurringByDay.get(date.date()) || 0) + template.amount
+      );
+    }
+  }
+  const recurringDue = Array.from(recurringByDay.values()).reduce(
+    (sum, amount) => sum + amount,
+    0
+  );
+
+  const projected = spent + recurringDue + dailyPace * daysLeft;
+  const band = BAND_Z * Math.sqrt(historyVariance * daysLeft);
+
+  // Walk the month day by day: actual spending up to today, projected after.
+  const spentByDay = dailyTotals(expenses);
+  const thresholdAmount = (limit * thresholdPercentage) / 100;
+  let thresholdDate: Dayjs | null = null;
+  let limitDate: Dayjs | null = null;
+  let running = 0;
+  for (let day = 1; day <= monthEnd.date(); day++) {
+    const date = monthStart.date(day);
+    running +=
+      day <= daysElapsed
+        ? spentByDay.get(date.format("YYYY-MM-DD")) || 0
+        : dailyPace + (recurringByDay.get(day) || 0);
+    if (!thresholdDate && running >= thresholdAmount) thresholdDate = date;
+    if (!limitDate && running > limit) limitDate = date;
+  }
+
+  return {
+    spent,
+    recurringDue,
+    dailyPace,
+    projected,
+    low: Math.max(spent + recurringDue, projected - band),
+    high: projected + band,
+    daysLeft,
+    thresholdDate,
+    limitDate,
+    // Today is still spendable, so it counts as a day left.
+    safeToSpendPerDay: Math.max(
+      0,
+      (limit - spent - recurringDue) / (daysLeft + 1)
+    ),
+  };
+};
+
+/**
+ * Forecast for the current month against `limit`, or null while the data
+ * loads or when there is no budget.
+ */
+export const useMonthForecast = (
+  budget:
+    Pick<Budget, "month" | "year" | "thresholdPercentage"> | null | undefined,
+  limit: number,
+  accounts: BankAccount[]
+): SpendingForecast | null => {
+  const today = dayjs();
+  const isCurrentMonth =
+    !!budget &&
+    budget.month === today.month() + 1 &&
+    budget.year === today.year();
+
+  const { data: monthExpensesResponse } = useMonthExpenses(
+    isCurrentMonth ? budget.month : undefined,
+    budget?.year
+  );
+
+  const { data: historyResponse } = useQuery({
+    queryKey: ["expenses", "forecast", budget?.month, budget?.year],
+    queryFn: async () => {
+      const token = getAuthToken();
+      if (!token) throw new Error("No authentication token");
+
+      const userId = getUserId();
+      if (!userId) throw new Error("No user ID found");
+
+      const monthStart = today.startOf("month");
+      const response = await expensesAPI.getAll(userId, {
+        startDate: dayStart(
+          monthStart.subtract(HISTORY_MONTHS, "month").format("YYYY-MM-DD")
+        ),
+        endDate: dayEnd(monthStart.subtract(1, "day").format("YYYY-MM-DD")),
+      });
+      return response;
+    },
+    enabled: isCurrentMonth,
+  });
+
+  const { data: recurringResponse } = useQuery({
+    queryKey: ["recurring-expenses"],
+    queryFn: async () => {
+      const token = getAuthToken();
+      if (!token) throw new Error("No authentication token");
+
+      const userId = getUserId();
+      if (!userId) throw new Error("No user ID found");
+
+      const response = await expensesAPI.getRecurring(userId);
+      return response;
+    },
+    enabled: isCurrentMonth,
+  });
+
+  if (
+    !isCurrentMonth ||
+    limit <= 0 ||
+    !monthExpensesResponse ||
+    !historyResponse ||
+    !recurringResponse
+  ) {
+    return null;
+  }
+  return forecastMonth(
+    limit,
+    budget.thresholdPercentage,
+    monthExpensesResponse.data,
+    historyResponse.data,
+    recurringResponse.data,
+    accounts,
+    today
+  );
+};
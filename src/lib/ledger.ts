@@ -0,0 +1,126 @@
+import type { Deposit, Expense, Transfer } from "./models";
+
+// Builds an account's transaction history from expenses, deposits and
+// transfers. Running balances are derived backwards from the account's stored
+// balance, since the backend keeps no opening balance.
+
+export type LedgerEntryKind =
+  | "expense"
+  | "deposit"
+  | "transfer-in"
+  | "transfer-out";
+
+export interface LedgerEntry {
+  key: string;
+  sourceId: string;
+  kind: LedgerEntryKind;
+  date: string;
+  createdAt: string;
+  description: string;
+  detail: string;
+  // Signed effect on the account balance.
+  amount: number;
+  reconciledAt?: string | null;
+}
+
+// Rounding slack when comparing balances.
+const BALANCE_TOLERANCE = 0.005;
+
+/** The account's transactions, newest first. */
+export const buildLedger = (
+  accountId: string,
+  expenses: Expense[],
+  deposits: Deposit[],
+  transfers: Transfer[],
+  accountName: (id: string) => string
+): LedgerEntry[] => {
+  const entries: LedgerEntry[] = [
+    ...expenses
+      .filter((expense) => expense.bankAccountId === accountId)
+      .map((expense): LedgerEntry => ({
+        key: `expense:${expense.id}`,
+        sourceId: expense.id,
+        kind: "expense",
+        date: expense.date,
+        createdAt: expense.createdAt,
+        description: expense.note || "Expense",
+        detail: expense.category?.name || "Expense",
+        amount: -expense.amount,
+        reconciledAt: expense.reconciledAt,
+      })),
+    ...deposits
+      .filter((deposit) => deposit.bankAccountId === accountId)
+      .map((deposit): LedgerEntry => ({
+        key: `deposit:${deposit.id}`,
+        sourceId: deposit.id,
+        kind: "deposit",
+        date: deposit.date,
+        createdAt: deposit.createdAt,
+        description: deposit.note || "Deposit",
+        detail: deposit.depositType?.name || "Deposit",
+        amount: deposit.amount,
+        reconciledAt: deposit.reconciledAt,
+      })),
+    ...transfers
+      .filter((transfer) => transfer.fromAccountId === accountId)
+      .map((transfer): LedgerEntry => ({
+        key: `transfer-out:${transfer.id}`,
+        sourceId: transfer.id,
+        kind: "transfer-out",
+        date: transfer.date,
+        createdAt: transfer.createdAt,
+        description: transfer.note || "Transfer",
+        detail: `To ${accountName(transfer.toAccountId)}`,
+        amount: -transfer.amount,
+        reconciledAt: transfer.fromReconciledAt,
+      })),
+    ...transfers
+      .filter((transfer) => transfer.toAccountId === accountId)
+      .map((transfer): LedgerEntry => ({
+        key: `transfer-in:${transfer.id}`,
+        sourceId: transfer.id,
+        kind: "transfer-in",
+        date: transfer.date,
+        createdAt: transfer.createdAt,
+        description: transfer.note || "Transfer",
+        detail: `From ${accountName(transfer.fromAccountId)}`,
+        amount: transfer.toAmount ?? transfer.amount,
+        reconciledAt: transfer.toReconciledAt,
+      })),
+  ];
+
+  return entries.sort(
+    (a, b) =>
+      new Date(b.date).getTime() - new Date(a.date).getTime() ||
+      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+};
+
+/** Adds the balance after each entry, given newest-first entries. */
+export const withRunningBalance = (
+  entries: LedgerEntry[],
+  currentBalance: number
+): (LedgerEntry & { balance: number })[] => {
+  let balance = currentBalance;
+  return entries.map((entry) => {
+    const row = { ...entry, balance };
+    balance -= entry.amount;
+    return row;
+  });
+};
+
+/**
+ * The balance the bank should show once exactly the cleared entries have
+ * posted: the current balance minus everything not yet cleared.
+ */
+export const clearedBalance = (
+  entries: LedgerEntry[],
+  currentBalance: number,
+  isCleared: (entry: LedgerEntry) => boolean
+) =>
+  entries
+    .filter((entry) => !isCleared(entry))
+    .reduce((balance, entry) => balance - entry.amount, currentBalance);
+
+export const isBalanced = (difference: number) =>
+  Math.abs(difference) < BALANCE_TOLERANCE;
@@ -0,0 +1,549 @@
+import { z } from "zod";
+
+// Domain models shared by lib/api.ts and the dashboard pages.
+// Shapes follow FRONTEND_API_DOCUMENTATION.md. Monetary values are Decimal
+// columns on the backend and can arrive as strings, so they are coerced.
+
+const money = z.coerce.number();
+
+export const userSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  name: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const bankAccountSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  name: z.string(),
+  accountNumber: z.string(),
+  balance: money,
+  bankName: z.string(),
+  // ISO 4217 code; missing on accounts created before multi-currency.
+  currency: z.string().nullish(),
+  isDefault: z.boolean(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const expenseCategorySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullish(),
+  icon: z.string().nullish(),
+  color: z.string().nullish(),
+  isDefault: z.boolean(),
+  // Not in the API docs yet; set while the category is archived, which hides
+  // it from pickers but keeps it on existing expenses.
+  archivedAt: z.string().nullish(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const expenseTypeSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullish(),
+  categoryId: z.string(),
+  category: expenseCategorySchema.nullish(),
+  createdAt: z.string(),
+});
+
+export const depositTypeSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullish(),
+  icon: z.string().nullish(),
+  color: z.string().nullish(),
+  // Not in the API docs yet; archived like expense categories.
+  archivedAt: z.string().nullish(),
+  createdAt: z.string(),
+});
+
+export const recurringFrequencySchema = z.enum([
+  "DAILY",
+  "WEEKLY",
+  "MONTHLY",
+  "YEARLY",
+]);
+
+export const recurringExpenseSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  categoryId: z.string(),
+  amount: money,
+  note: z.string().nullish(),
+  frequency: recurringFrequencySchema,
+  startDate: z.string(),
+  endDate: z.string().nullish(),
+  nextDueDate: z.string(),
+  isActive: z.boolean(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  category: expenseCategorySchema.nullish(),
+});
+
+export const receiptStatusSchema = z.enum(["PENDING", "PROCESSED", "FAILED"]);
+
+// OCR amounts can carry currency symbols or separators ("$1,234.50"). A value
+// that still does not parse is unknown rather than an error, so one bad
+// receipt cannot fail the whole list.
+const ocrMoney = z.preprocess((value) => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+  const amount = parseFloat(value.replace(/[^\d.-]/g, ""));
+  return Number.isFinite(amount) ? amount : null;
+}, z.number().nullish());
+
+const ocrText = z.string().nullish().catch(null);
+
+// One line of a receipt; `amount` is the line total (quantity x unitPrice).
+export const receiptLineItemSchema = z.object({
+  description: ocrText,
+  quantity: ocrMoney,
+  unitPrice: ocrMoney,
+  amount: ocrMoney,
+  categoryId: ocrText,
+});
+
+// OCR output is free-form JSON; these are the fields the extraction fills in
+// and the review editor corrects. `date` is YYYY-MM-DD. Every field is parsed
+// leniently: anything malformed becomes null.
+export const receiptProcessedDataSchema = z
+  .object({
+    merchant: ocrText,
+    date: ocrText,
+    currency: ocrText,
+    tax: ocrMoney,
+    total: ocrMoney,
+    items: z.array(receiptLineItemSchema).nullish().catch(null),
+  })
+  .passthrough();
+
+const receiptBaseSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  imageUrl: z.string(),
+  originalText: z.string().nullish(),
+  processedData: receiptProcessedDataSchema.nullish().catch(null),
+  status: receiptStatusSchema,
+  // Not in the API docs yet; when OCR finished. Unlike updatedAt it does not
+  // move when the receipt is corrected or linked to an expense.
+  processedAt: z.string().nullish(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+// One category line of a split expense. Lines sum to the expense amount; the
+// expense's own categoryId mirrors the first line.
+export const expenseSplitSchema = z.object({
+  id: z.string().optional(),
+  categoryId: z.string(),
+  amount: money,
+  note: z.string().nullish(),
+  category: expenseCategorySchema.nullish(),
+});
+
+const expenseBaseSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  bankAccountId: z.string(),
+  categoryId: z.string(),
+  // Not in the API docs yet: an optional ExpenseType within the category.
+  expenseTypeId: z.string().nullish(),
+  amount: money,
+  note: z.string().nullish(),
+  date: z.string(),
+  isRecurring: z.boolean(),
+  recurringExpenseId: z.string().nullish(),
+  receiptId: z.string().nullish(),
+  splits: z.array(expenseSplitSchema).nullish(),
+  // Not in the API docs yet: free-form labels such as "vacation-2026".
+  tags: z.array(z.string()).nullish(),
+  // Set once the expense is ticked off against a bank statement.
+  reconciledAt: z.string().nullish(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const expenseSchema = expenseBaseSchema.extend({
+  bankAccount: bankAccountSchema.nullish(),
+  category: expenseCategorySchema.nullish(),
+  expenseType: expenseTypeSchema.nullish(),
+  receipt: receiptBaseSchema.nullish(),
+  recurringExpense: recurringExpenseSchema.nullish(),
+});
+
+export const receiptSchema = receiptBaseSchema.extend({
+  expenses: z.array(expenseBaseSchema).nullish(),
+});
+
+export const depositSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  bankAccountId: z.string(),
+  depositTypeId: z.string(),
+  amount: money,
+  note: z.string().nullish(),
+  date: z.string(),
+  // Not in the API docs yet, as on expenses.
+  tags: z.array(z.string()).nullish(),
+  reconciledAt: z.string().nullish(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  bankAccount: bankAccountSchema.nullish(),
+  depositType: depositTypeSchema.nullish(),
+});
+
+// Money moved between two of the user's own accounts. Neither income nor
+// spending, so it stays out of expense, deposit and budget totals.
+export const transferSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  fromAccountId: z.string(),
+  toAccountId: z.string(),
+  amount: money,
+  // Amount credited in the destination account's currency; missing when
+  // both accounts share a currency.
+  toAmount: money.nullish(),
+  note: z.string().nullish(),
+  date: z.string(),
+  // Not in the API docs yet. Each side is reconciled against its own
+  // account's statement, so checking one account never locks the other.
+  fromReconciledAt: z.string().nullish(),
+  toReconciledAt: z.string().nullish(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  fromAccount: bankAccountSchema.nullish(),
+  toAccount: bankAccountSchema.nullish(),
+});
+
+// A bank statement the user has matched against an account's transactions.
+export const reconciliationSchema = z.object({
+  id: z.string(),
+  bankAccountId: z.string(),
+  statementDate: z.string(),
+  statementBalance: money,
+  createdAt: z.string(),
+});
+
+export const budgetAlertSchema = z.object({
+  id: z.string(),
+  budgetId: z.string(),
+  alertType: z.enum(["THRESHOLD_REACHED", "EXCEEDED"]),
+  message: z.string(),
+  isRead: z.boolean(),
+  createdAt: z.string(),
+});
+
+// A per-category cap inside a monthly budget. Spending is totalled on the
+// client from expense lines, so split expenses count towards each category.
+export const budgetCategorySchema = z.object({
+  id: z.string(),
+  budgetId: z.string(),
+  categoryId: z.string(),
+  amountLimit: money,
+  thresholdPercentage: z.coerce.number(),
+  rollover: z.boolean().nullish(),
+  category: expenseCategorySchema.nullish(),
+});
+
+export const budgetSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  month: z.number().int().min(1).max(12),
+  year: z.number().int(),
+  amountLimit: money,
+  spentAmount: money,
+  thresholdPercentage: z.coerce.number(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  alerts: z.array(budgetAlertSchema).nullish(),
+  categories: z.array(budgetCategorySchema).nullish(),
+  // Envelope mode: the surplus or deficit carries into the next month.
+  // rolloverReset starts a fresh chain at this month.
+  rollover: z.boolean().nullish(),
+  rolloverReset: z.boolean().nullish(),
+});
+
+export const budgetSummarySchema = z.object({
+  currentBudget: budgetSchema.nullish(),
+  totalSpent: money,
+  remainingBudget: money,
+  spendingPercentage: z.coerce.number(),
+  alerts: z.array(budgetAlertSchema).nullish(),
+});
+
+export const aiSuggestionSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  title: z.string(),
+  suggestion: z.string(),
+  // The backend joins several categories with "|", e.g. "BUDGET|SAVINGS".
+  category: z.string(),
+  priority: z.enum(["LOW", "MEDIUM", "HIGH"]),
+  isRead: z.boolean(),
+  createdAt: z.string(),
+});
+
+export const budgetStatusSchema = z.enum([
+  "UNDER_BUDGET",
+  "ON_TRACK",
+  "ON_BUDGET",
+  "OVER_BUDGET",
+]);
+
+export const monthlyReportSchema = z.object({
+  id: z.string(),
+  month: z.number(),
+  year: z.number(),
+  monthName: z.string().nullish(),
+  totalExpense: money,
+  totalIncome: money,
+  netSavings: money,
+  savingsRate: money.nullish(),
+  budgetStatus: budgetStatusSchema,
+  pdfUrl: z.string().nullish(),
+  generatedAt: z.string(),
+  reportData: z.unknown().optional(),
+  aiInsights: z.unknown().optional(),
+});
+
+export const notificationSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  title: z.string(),
+  message: z.string(),
+  type: z.enum([
+    "BUDGET_ALERT",
+    "RECURRING_EXPENSE",
+    "REPORT_READY",
+    "AI_SUGGESTION",
+  ]),
+  isRead: z.boolean(),
+  createdAt: z.string(),
+});
+
+export const expenseSummarySchema = z.object({
+  totalExpenses: money,
+  totalIncome: money,
+  netSavings: money,
+  expensesByCategory: z.array(
+    z.object({ category: z.string(), amount: money, count: z.number() })
+  ),
+  expensesByMonth: z.array(z.object({ month: z.string(), amount: money })),
+});
+
+export const receiptStatsSchema = z.object({
+  totalReceipts: z.number(),
+  processedReceipts: z.number(),
+  pendingReceipts: z.number(),
+  failedReceipts: z.number(),
+  totalAmount: money,
+  averageAmount: money,
+});
+
+export const authSessionSchema = z.object({
+  user: userSchema,
+  token: z.string(),
+});
+
+// Common `{ success, message, data }` envelope wrapped around every payload.
+export const envelope = <T extends z.ZodTypeAny>(data: T) =>
+  z.object({
+    success: z.boolean(),
+    message: z.string().optional(),
+    data,
+  });
+
+export type User = z.infer<typeof userSchema>;
+export type BankAccount = z.infer<typeof bankAccountSchema>;
+export type ExpenseCategory = z.infer<typeof expenseCategorySchema>;
+export type ExpenseType = z.infer<typeof expenseTypeSchema>;
+export type DepositType = z.infer<typeof depositTypeSchema>;
+export type RecurringFrequency = z.infer<typeof recurringFrequencySchema>;
+export type RecurringExpense = z.infer<typeof recurringExpenseSchema>;
+export type ReceiptStatus = z.infer<typeof receiptStatusSchema>;
+export type ReceiptLineItem = z.infer<typeof receiptLineItemSchema>;
+export type ReceiptProcessedData = z.infer<typeof receiptProcessedDataSchema>;
+export type Receipt = z.infer<typeof receiptSchema>;
+export type ExpenseSplit = z.infer<typeof expenseSplitSchema>;
+export type Expense = z.infer<typeof expenseSchema>;
+export type Deposit = z.infer<typeof depositSchema>;
+export type Transfer = z.infer<typeof transferSchema>;
+export type Reconciliation = z.infer<typeof reconciliationSchema>;
+export type BudgetAlert = z.infer<typeof budgetAlertSchema>;
+export type BudgetCategory = z.infer<typeof budgetCategorySchema>;
+export type Budget = z.infer<typeof budgetSchema>;
+export type BudgetSummary = z.infer<typeof budgetSummarySchema>;
+export type AiSuggestion = z.infer<typeof aiSuggestionSchema>;
+export type BudgetStatus = z.infer<typeof budgetStatusSchema>;
+export type MonthlyReport = z.infer<typeof monthlyReportSchema>;
+export type Notification = z.infer<typeof notificationSchema>;
+export type ExpenseSummary = z.infer<typeof expenseSummarySchema>;
+export type ReceiptStats = z.infer<typeof receiptStatsSchema>;
+export type AuthSession = z.infer<typeof authSessionSchema>;
+
+// Request payloads. Update endpoints accept any subset of the create body.
+export interface ExpenseInput {
+  userId: string;
+  bankAccountId: string;
+  categoryId: string;
+  // null clears the type on update.
+  expenseTypeId?: string | null;
+  amount: number;
+  note?: string;
+  date?: string;
+  isRecurring?: boolean;
+  recurringExpenseId?: string;
+  receiptId?: string;
+  // An empty array turns a split expense back into a single-category one.
+  splits?: ExpenseSplitInput[];
+  // Not in the API docs yet; replaces the whole list on update.
+  tags?: string[];
+}
+
+export interface ExpenseSplitInput {
+  categoryId: string;
+  amount: number;
+  note?: string;
+}
+
+export interface RecurringExpenseInput {
+  userId: string;
+  categoryId: string;
+  amount: number;
+  note?: string;
+  frequency: RecurringFrequency;
+  startDate: string;
+  // null clears the end date on update
+  endDate?: string | null;
+  nextDueDate: string;
+  isActive?: boolean;
+}
+
+export interface DepositInput {
+  userId: string;
+  bankAccountId: string;
+  depositTypeId: string;
+  amount: number;
+  note?: string;
+  date?: string;
+  // Not in the API docs yet; replaces the whole list on update.
+  tags?: string[];
+}
+
+export interface TransferInput {
+  userId: string;
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number;
+  toAmount?: number;
+  note?: string;
+  date?: string;
+}
+
+export interface ExpenseCategoryInput {
+  name: string;
+  description?: string;
+  icon?: string;
+  color?: string;
+}
+
+export interface ExpenseCategoryUpdateInput extends Partial<ExpenseCategoryInput> {
+  archived?: boolean;
+}
+
+export interface DepositTypeInput {
+  name: string;
+  description?: string;
+  icon?: string;
+  color?: string;
+}
+
+export interface DepositTypeUpdateInput extends Partial<DepositTypeInput> {
+  archived?: boolean;
+}
+
+export interface ExpenseTypeInput {
+  name: string;
+  description?: string;
+  categoryId: string;
+}
+
+export interface BankAccountInput {
+  name: string;
+  accountNumber: string;
+  balance: number;
+  bankName: string;
+  currency?: string;
+  isDefault?: boolean;
+}
+
+export interface ReconciliationInput {
+  statementDate: string;
+  statementBalance: number;
+  expenseIds: string[];
+  depositIds: string[];
+  transferIds: string[];
+}
+
+export interface BudgetInput {
+  userId: string;
+  month: number;
+  year: number;
+  amountLimit: number;
+  thresholdPercentage?: number;
+  // Replaces the budget's category lines when present.
+  categories?: BudgetCategoryInput[];
+  rollover?: boolean;
+  rolloverReset?: boolean;
+}
+
+export interface BudgetCategoryInput {
+  categoryId: string;
+  amountLimit: number;
+  thresholdPercentage: number;
+  rollover?: boolean;
+}
+
+export interface ReceiptExpenseInput {
+  receiptId: string;
+  bankAccountId: string;
+  categoryId: string;
+  amount: number;
+  note?: string;
+  // Not in the API docs yet; the backend dates the expense today without it.
+  date?: string;
+  splits?: ExpenseSplitInput[];
+  // Not in the API docs yet.
+  tags?: string[];
+}
+
+export interface ReceiptUpdateInput {
+  processedData: ReceiptProcessedData;
+}
+
+/**
+ * Validates a response body against its schema. A mismatch throws with the
+ * endpoint and the offending field path so a backend shape change surfaces
+ * at the API boundary rather than as an empty chart.
+ */
+export function parseResponse<T extends z.ZodTypeAny>(
+  schema: T,
+  body: unknown,
+  endpoint: string
+): z.infer<T> {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.join(".") || "(root)";
+    console.error(`Invalid response from ${endpoint}:`, result.error.issues);
+    throw new Error(
+      `Unexpected response from ${endpoint}: ${path} ${issue.message}`
+    );
+  }
+  return result.data;
+}
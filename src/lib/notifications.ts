@@ -0,0 +1,60 @@
+import type { BudgetAlert, Notification } from "./models";
+
+// The notification center shows two backend streams as one feed: generic
+// notifications and budget alerts. Each keeps its own mark-as-read endpoint,
+// so items remember where they came from.
+
+export type InboxSource = "notification" | "budget-alert";
+
+export interface InboxItem {
+  id: string;
+  source: InboxSource;
+  title: string;
+  message: string;
+  isRead: boolean;
+  createdAt: string;
+  link: string;
+}
+
+const NOTIFICATION_LINKS: Record<Notification["type"], string> = {
+  BUDGET_ALERT: "/dashboard/budgets",
+  RECURRING_EXPENSE: "/dashboard/recurring",
+  REPORT_READY: "/dashboard/reports",
+  AI_SUGGESTION: "/dashboard",
+};
+
+const ALERT_TITLES: Record<BudgetAlert["alertType"], string> = {
+  THRESHOLD_REACHED: "Budget threshold reached",
+  EXCEEDED: "Budget exceeded",
+};
+
+/** Merges both streams into a single feed, newest first. */
+export function buildInbox(
+  notifications: Notification[],
+  alerts: BudgetAlert[]
+): InboxItem[] {
+  const items: InboxItem[] = [
+    ...notifications.map((notification) => ({
+      id: notification.id,
+      source: "notification" as const,
+      title: notification.title,
+      message: notification.message,
+      isRead: notification.isRead,
+      createdAt: notification.createdAt,
+      // Notifications carry no entity id, so they link to the related page.
+      link: NOTIFICATION_LINKS[notification.type],
+    })),
+    ...alerts.map((alert) => ({
+      id: alert.id,
+      source: "budget-alert" as const,
+      title: ALERT_TITLES[alert.alertType],
+      message: alert.message,
+      isRead: alert.isRead,
+      createdAt: alert.createdAt,
+      link: `/dashboard/budgets?budgetId=${alert.budgetId}`,
+    })),
+  ];
+  return items.sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+}
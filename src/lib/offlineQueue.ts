@@ -0,0 +1,425 @@
+import axios from "axios";
+import { onlineManager, useQuery } from "@tanstack/react-query";
+import type { QueryClient } from "@tanstack/react-query";
+import { expensesAPI, depositsAPI, transfersAPI, bankAccountsAPI } from "./api";
+import type {
+  BankAccountInput,
+  DepositInput,
+  ExpenseInput,
+  TransferInput,
+} from "./models";
+
+// Create/update/delete calls that cannot reach the backend are persisted in
+// IndexedDB and replayed in order once it is reachable again. Records created
+// offline get a temporary id that is swapped for the server id on replay.
+
+interface OfflinePayloads {
+  expense: ExpenseInput;
+  deposit: DepositInput;
+  transfer: TransferInput;
+  "bank-account": BankAccountInput;
+}
+
+export type OfflineEntity = keyof OfflinePayloads;
+export type OfflineAction = "create" | "update" | "delete";
+
+/** A change to one entity; the action decides the payload's shape. */
+export type EntityMutation<E extends OfflineEntity> =
+  | { entity: E; action: "create"; payload: OfflinePayloads[E] }
+  | { entity: E; action: "update"; payload: Partial<OfflinePayloads[E]> }
+  | { entity: E; action: "delete"; payload?: undefined };
+
+// Transfers cannot be edited, only created or deleted.
+export type OfflineMutation =
+  | EntityMutation<"expense">
+  | EntityMutation<"deposit">
+  | Exclude<EntityMutation<"transfer">, { action: "update" }>
+  | EntityMutation<"bank-account">;
+
+interface QueueMeta {
+  seq?: number;
+  targetId: string;
+  queuedAt: string;
+  conflict?: string;
+  // Server errors met during replay so far
+  attempts?: number;
+}
+
+export type QueuedMutation = OfflineMutation & QueueMeta;
+
+export type SyncState = "pending" | "conflict";
+
+export const OFFLINE_QUEUE_KEY = ["offline-queue"];
+
+const TEMP_ID_PREFIX = "offline-";
+const DB_NAME = "expense-tracker-offline";
+const STORE_NAME = "mutations";
+const RETRY_INTERVAL = 30 * 1000;
+// A change the server keeps failing on becomes a conflict after this many
+// replays, so it cannot hold up everything queued behind it.
+const MAX_SERVER_ATTEMPTS = 5;
+
+let queryClient: QueryClient | null = null;
+let replaying = false;
+let database: Promise<IDBDatabase> | null = null;
+
+export const isTempId = (id: string) => id.startsWith(TEMP_ID_PREFIX);
+
+// One connection is opened lazily and shared by every queue operation.
+const openDatabase = (): Promise<IDBDatabase> => {
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, {
+        keyPath: "seq",
+        autoIncrement: true,
+      });
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version of the app upgrade the database in another tab.
+      db.onversionchange = () => {
+        db.close();
+        database = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+  }).catch((error) => {
+    database = null;
+    throw error;
+  });
+  return database;
+};
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = operation(
+      db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)
+    );
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getQueuedMutations = async (): Promise<QueuedMutation[]> => {
+  const mutations = await withStore<QueuedMutation[]>("readonly", (store) =>
+    store.getAll()
+  );
+  return mutations.sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+};
+
+const putMutation = (mutation: QueuedMutation) =>
+  withStore("readwrite", (store) => store.put(mutation));
+
+const deleteMutation = (seq: number) =>
+  withStore("readwrite", (store) => store.delete(seq));
+
+const notifyQueueChanged = () => {
+  queryClient?.invalidateQueries({ queryKey: OFFLINE_QUEUE_KEY });
+};
+
+/**
+ * A copy of a queued mutation with changes merged into its payload. The
+ * changes must be for the same entity, which the temporary id guarantees.
+ */
+const withPayload = <M extends QueuedMutation>(
+  mutation: M,
+  changes: Partial<M["payload"]>
+): M => ({ ...mutation, payload: { ...mutation.payload, ...changes } });
+
+/**
+ * Edits to a record that only exists in the queue are folded into its queued
+ * create, so the server never sees the temporary id. Throws when that create
+ * is gone, e.g. it synced before the list was refetched.
+ */
+const enqueue = async (mutation: OfflineMutation & { targetId: string }) => {
+  if (mutation.action !== "create" && isTempId(mutation.targetId)) {
+    const queued = await getQueuedMutations();
+    const create = queued.find(
+      (m) => m.action === "create" && m.targetId === mutation.targetId
+    );
+    if (!create) {
+      throw new Error(
+        "This record is no longer waiting to sync. Refresh and try again."
+      );
+    }
+    if (mutation.action === "update") {
+      await putMutation(withPayload(create, mutation.payload));
+    } else {
+      await deleteMutation(create.seq!);
+    }
+  } else {
+    await putMutation({ ...mutation, queuedAt: new Date().toISOString() });
+  }
+  notifyQueueChanged();
+};
+
+// Without a response the backend was never reached.
+const isUnreachable = (error: unknown) =>
+  !navigator.onLine || (axios.isAxiosError(error) && !error.response);
+
+const isServerError = (error: unknown) =>
+  axios.isAxiosError(error) && (error.response?.status ?? 0) >= 500;
+
+// Only a missing response or a server-side failure means "try again later";
+// anything else is the server rejecting this particular change.
+const isTransientError = (error: unknown) =>
+  isUnreachable(error) || isServerError(error);
+
+// During replay an expired session is not the change's fault: the queue
+// waits for the user to sign in again.
+const isUnauthorized = (error: unknown) =>
+  axios.isAxiosError(error) && error.response?.status === 401;
+
+const isNotFound = (error: unknown) =>
+  axios.isAxiosError(error) && error.response?.status === 404;
+
+const describeConflict = (error: unknown) => {
+  if (axios.isAxiosError(error)) {
+    if (error.response?.status === 404) {
+      return "This record no longer exists on the server";
+    }
+    return error.response?.data?.message || error.message;
+  }
+  return error instanceof Error ? error.message : "Sync failed";
+};
+
+/**
+ * Runs a mutation against the backend, or queues it when the backend is
+ * unreachable or earlier changes are still waiting to sync. Resolves to
+ * undefined when the mutation was queued.
+ */
+export const runOrQueue = async <T>(
+  mutation: OfflineMutation & { targetId?: string },
+  run: () => Promise<T>
+): Promise<T | undefined> => {
+  const queued = {
+    ...mutation,
+    targetId: mutation.targetId || `${TEMP_ID_PREFIX}${crypto.randomUUID()}`,
+  };
+  // Without IndexedDB (e.g. some private windows) there is nothing to queue.
+  const backlog = await getQueuedMutations().catch(() => null);
+  if (!backlog) return run();
+  const hasBacklog = backlog.some((m) => !m.conflict);
+  if (isTempId(queued.targetId) && mutation.action !== "create") {
+    await enqueue(queued);
+    return undefined;
+  }
+  if (hasBacklog) {
+    await enqueue(queued);
+    replayQueue();
+    return undefined;
+  }
+
+  try {
+    return await run();
+  } catch (error) {
+    if (!isTransientError(error)) throw error;
+    await enqueue(queued);
+    return undefined;
+  }
+};
+
+const executeMutation = async (mutation: QueuedMutation) => {
+  const { targetId } = mutation;
+  switch (mutation.entity) {
+    case "expense":
+      if (mutation.action === "create") {
+        return expensesAPI.create(mutation.payload);
+      }
+      if (mutation.action === "update") {
+        return expensesAPI.update(targetId, mutation.payload);
+      }
+      return expensesAPI.delete(targetId);
+    case "deposit":
+      if (mutation.action === "create") {
+        return depositsAPI.create(mutation.payload);
+      }
+      if (mutation.action === "update") {
+        return depositsAPI.update(targetId, mutation.payload);
+      }
+      return depositsAPI.delete(targetId);
+    case "transfer":
+      if (mutation.action === "create") {
+        return transfersAPI.create(mutation.payload);
+      }
+      return transfersAPI.delete(targetId);
+    case "bank-account":
+      if (mutation.action === "create") {
+        return bankAccountsAPI.create(mutation.payload);
+      }
+      if (mutation.action === "update") {
+        return bankAccountsAPI.update(targetId, mutation.payload);
+      }
+      return bankAccountsAPI.delete(targetId);
+  }
+};
+
+const replaceTempId = (
+  mutation: QueuedMutation,
+  tempId: string,
+  id: string
+): QueuedMutation => {
+  const replaced = {
+    ...mutation,
+    targetId: mutation.targetId === tempId ? id : mutation.targetId,
+  };
+  if (!replaced.payload) return replaced;
+  const changes = Object.fromEntries(
+    Object.entries(replaced.payload).flatMap(([key, value]) =>
+      value === tempId ? [[key, id]] : []
+    )
+  );
+  return withPayload(replaced, changes);
+};
+
+/**
+ * Replays queued mutations oldest first. Stops at the first transient failure
+ * so ordering is kept; rejected mutations, and ones the server keeps failing
+ * on, are flagged as conflicts and left for the user to retry or discard.
+ * Deleting a record that is already gone counts as done.
+ */
+export const replayQueue = async () => {
+  if (replaying) return;
+  replaying = true;
+  let synced = false;
+  try {
+    let queued = await getQueuedMutations();
+    while (queued.length > 0) {
+      const [mutation, ...rest] = queued;
+      queued = rest;
+      if (mutation.conflict) continue;
+
+      try {
+        const result = await executeMutation(mutation);
+        await deleteMutation(mutation.seq!);
+        synced = true;
+
+        const createdId =
+          mutation.action === "create" &&
+          result?.data &&
+          typeof result.data === "object" &&
+          "id" in result.data
+            ? String(result.data.id)
+            : null;
+        if (createdId) {
+          queued = queued.map((m) =>
+            replaceTempId(m, mutation.targetId, createdId)
+          );
+          await Promise.all(queued.map(putMutation));
+        }
+      } catch (error) {
+        if (isUnreachable(error) || isUnauthorized(error)) break;
+        if (mutation.action === "delete" && isNotFound(error)) {
+          await deleteMutation(mutation.seq!);
+          synced = true;
+          continue;
+        }
+        const attempts = (mutation.attempts ?? 0) + 1;
+        if (isServerError(error) && attempts < MAX_SERVER_ATTEMPTS) {
+          await putMutation({ ...mutation, attempts });
+          break;
+        }
+        await putMutation({ ...mutation, conflict: describeConflict(error) });
+      }
+    }
+  } catch (error) {
+    console.error("Offline sync failed:", error);
+  } finally {
+    replaying = false;
+    notifyQueueChanged();
+    if (synced) queryClient?.invalidateQueries();
+  }
+};
+
+export const retryMutation = async (mutation: QueuedMutation) => {
+  await putMutation({ ...mutation, conflict: undefined, attempts: undefined });
+  await replayQueue();
+};
+
+export const discardMutation = async (mutation: QueuedMutation) => {
+  await deleteMutation(mutation.seq!);
+  notifyQueueChanged();
+};
+
+/**
+ * Replays the queue on start-up, whenever React Query's online manager
+ * reports connectivity, and periodically while changes are waiting.
+ */
+export const startOfflineSync = (client: QueryClient) => {
+  queryClient = client;
+  replayQueue();
+  const unsubscribe = onlineManager.subscribe((isOnline) => {
+    if (isOnline) replayQueue();
+  });
+  const interval = window.setInterval(replayQueue, RETRY_INTERVAL);
+  return () => {
+    unsubscribe();
+    window.clearInterval(interval);
+    queryClient = null;
+  };
+};
+
+export const useOfflineQueue = () => {
+  const { data = [] } = useQuery({
+    queryKey: OFFLINE_QUEUE_KEY,
+    queryFn: getQueuedMutations,
+    staleTime: 0,
+  });
+  return data;
+};
+
+/**
+ * Overlays queued changes for one entity onto the server list: queued creates
+ * are prepended, updates are merged in and deletes are hidden. Affected rows
+ * carry a syncState so lists can mark them.
+ */
+export const applyPending = <E extends OfflineEntity, T extends { id: string }>(
+  items: T[],
+  queue: QueuedMutation[],
+  entity: E,
+  toEntity: (id: string, payload: OfflinePayloads[E]) => T
+): (T & { syncState?: SyncState })[] => {
+  // Widened so the filter can narrow to the generic entity
+  const mutations: (QueueMeta & { entity: OfflineEntity })[] = queue;
+  const pending = mutations.filter(
+    (m): m is EntityMutation<E> & QueueMeta => m.entity === entity
+  );
+  const stateOf = (m: QueueMeta): SyncState =>
+    m.conflict ? "conflict" : "pending";
+
+  let result: (T & { syncState?: SyncState })[] = items.map((item) => ({
+    ...item,
+  }));
+  for (const mutation of pending) {
+    if (mutation.action === "create") {
+      result = [
+        {
+          ...toEntity(mutation.targetId, mutation.payload),
+          syncState: stateOf(mutation),
+        },
+        ...result,
+      ];
+    } else if (mutation.action === "update") {
+      result = result.map((item) =>
+        item.id === mutation.targetId
+          ? { ...item, ...mutation.payload, syncState: stateOf(mutation) }
+          : item
+      );
+    } else if (!mutation.conflict) {
+      result = result.filter((item) => item.id !== mutation.targetId);
+    } else {
+      result = result.map((item) =>
+        item.id === mutation.targetId
+          ? { ...item, syncState: "conflict" }
+          : item
+      );
+    }
+  }
+  return result;
+};
@@ -0,0 +1,94 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import type {
+  InfiniteData,
+  QueryClient,
+  QueryKey,
+} from "@tanstack/react-query";
+import { receiptsAPI } from "./api";
+import type { Receipt } from "./models";
+
+// Keeps PENDING receipts up to date until the server has processed them.
+// A server-sent event stream is used when the backend offers one; otherwise,
+// or while the stream is down, the receipt list is polled.
+
+export const RECEIPT_POLL_INTERVAL = 5 * 1000;
+
+export const isProcessing = (receipt: Pick<Receipt, "status">) =>
+  receipt.status === "PENDING";
+
+// Receipt lists are keyed ["receipts", "list", filters].
+const isUnfilteredList = (queryKey: QueryKey) => {
+  const filters = queryKey[2];
+  return (
+    !filters ||
+    (typeof filters === "object" && !Object.values(filters).some(Boolean))
+  );
+};
+
+/**
+ * Applies `update` to each page of every cached receipt list, or with
+ * `unfilteredOnly` only to the lists shown without filters, for receipts not
+ * known to match them. Other queries under the "receipts" key are left alone.
+ */
+export const updateReceiptLists = (
+  queryClient: QueryClient,
+  update: (receipts: Receipt[], isFirstPage: boolean) => Receipt[],
+  unfilteredOnly = false
+) => {
+  queryClient.setQueriesData<InfiniteData<{ data: Receipt[] }>>(
+    {
+      queryKey: ["receipts"],
+      predicate: (query) => !unfilteredOnly || isUnfilteredList(query.queryKey),
+    },
+    (old) =>
+      old && "pages" in old
+        ? {
+            ...old,
+            pages: old.pages.map((page, index) => ({
+              ...page,
+              data: update(page.data, index === 0),
+            })),
+          }
+        : old
+  );
+};
+
+/** Swaps an updated receipt into every cached receipt list. */
+export const replaceInReceiptLists = (
+  queryClient: QueryClient,
+  receipt: Receipt
+) =>
+  updateReceiptLists(queryClient, (receipts) =>
+    receipts.map((r) => (r.id === receipt.id ? receipt : r))
+  );
+
+/**
+ * Subscribes to receipt status events while `enabled`. Returns whether the
+ * stream is currently connected, so callers can stop polling.
+ */
+export const useReceiptEvents = (enabled: boolean) => {
+  const queryClient = useQueryClient();
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const close = receiptsAPI.subscribe({
+      onOpen: () => setConnected(true),
+      onReceipt: (receipt) => {
+        replaceInReceiptLists(queryClient, receipt);
+        if (!isProcessing(receipt)) {
+          queryClient.invalidateQueries({ queryKey: ["receipts"] });
+        }
+      },
+      // The stream is reopened with a fresh ticket; poll until it is.
+      onError: () => setConnected(false),
+    });
+    return () => {
+      close?.();
+      setConnected(false);
+    };
+  }, [enabled, queryClient]);
+
+  return connected;
+};
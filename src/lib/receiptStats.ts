@@ -0,0 +1,168 @@
+import { useQuery } from "@tanstack/react-query";
+import dayjs from "dayjs";
+import type { Dayjs } from "dayjs";
+import { receiptsAPI } from "./api";
+import { getAuthToken, getUserId } from "./utils";
+import { RECEIPT_POLL_INTERVAL, isProcessing } from "./receiptProcessing";
+import type { Receipt } from "./models";
+
+// Receipt analytics for the Receipts page. Counts and totals come from the
+// stats endpoint and cover every receipt; the success-rate trend, latency,
+// unlinked count and top merchants are worked out from the last few months
+// of receipts. Latency only counts receipts that report when processing
+// finished; their last update is no stand-in, since corrections and linking
+// move it.
+
+export const ANALYTICS_MONTHS = 6;
+const TOP_MERCHANTS = 5;
+const PAGE_SIZE = 100;
+
+export interface ReceiptMonthStats {
+  month: string;
+  label: string;
+  processed: number;
+  failed: number;
+  // Null when nothing finished processing that month.
+  successRate: number | null;
+}
+
+export interface MerchantSpend {
+  merchant: string;
+  total: number;
+  count: number;
+}
+
+export interface ReceiptAnalytics {
+  months: ReceiptMonthStats[];
+  averageLatencyMs: number | null;
+  unlinked: number;
+  topMerchants: MerchantSpend[];
+}
+
+export const isUnlinked = (receipt: Receipt) => !receipt.expenses?.length;
+
+/** The first day the analytics cover. */
+export const analyticsStart = (today: Dayjs) =>
+  today.startOf("month").subtract(ANALYTICS_MONTHS - 1, "month");
+
+export const formatLatency = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 60 * 60) return `${Math.round(seconds / 60)} min`;
+  return `${(seconds / (60 * 60)).toFixed(1)} h`;
+};
+
+// Follows pages until one comes back short. Stops early when a page adds
+// nothing new, in case the server ignores the paging parameters.
+const fetchReceiptsSince = async (startDate: Dayjs) => {
+  const receipts = new Map<string, Receipt>();
+  for (let page = 1; ; page++) {
+    const response = await receiptsAPI.getAll({
+      startDate: startDate.format("YYYY-MM-DD"),
+      page,
+      limit: PAGE_SIZE,
+    });
+    const before = receipts.size;
+    response.data.forEach((receipt) => receipts.set(receipt.id, receipt));
+    if (response.data.length < PAGE_SIZE || receipts.size === before) break;
+  }
+  return Array.from(receipts.values()).filter(
+    (receipt) => !dayjs(receipt.createdAt).isBefore(startDate)
+  );
+};
+
+export const receiptAnalytics = (
+  receipts: Receipt[],
+  today: Dayjs
+): ReceiptAnalytics => {
+  const months = Array.from({ length: ANALYTICS_MONTHS }, (_, index) => {
+    const month = today.subtract(ANALYTICS_MONTHS - 1 - index, "month");
+    const inMonth = receipts.filter((receipt) =>
+      dayjs(receipt.createdAt).isSame(month, "month")
+    );
+    const processed = inMonth.filter((r) => r.status === "PROCESSED").length;
+    const failed = inMonth.filter((r) => r.status === "FAILED").length;
+    return {
+      month: month.format("YYYY-MM"),
+      label: month.format("MMM"),
+      processed,
+      failed,
+      successRate:
+        processed + failed > 0
+          ? Math.round((processed / (processed + failed)) * 100)
+          : null,
+    };
+  });
+
+  const finished = receipts.filter(
+    (receipt) => !isProcessing(receipt) && receipt.processedAt
+  );
+  const averageLatencyMs =
+    finished.length > 0
+      ? finished.reduce(
+          (sum, receipt) =>
+            sum + dayjs(receipt.processedAt).diff(dayjs(receipt.createdAt)),
+          0
+        ) / finished.length
+      : null;
+
+  // Grouped case-insensitively, named as first seen.
+  const merchants = new Map<string, MerchantSpend>();
+  for (const receipt of receipts) {
+    const merchant = receipt.processedData?.merchant?.trim();
+    const total = receipt.processedData?.total;
+    if (receipt.status !== "PROCESSED" || !merchant || !total) continue;
+    const key = merchant.toLowerCase();
+    const entry = merchants.get(key) || { merchant, total: 0, count: 0 };
+    merchants.set(key, {
+      ...entry,
+      total: entry.total + total,
+      count: entry.count + 1,
+    });
+  }
+
+  return {
+    months,
+    averageLatencyMs,
+    unlinked: receipts.filter(isUnlinked).length,
+    topMerchants: Array.from(merchants.values())
+      .sort((a, b) => b.total - a.total)
+      .slice(0, TOP_MERCHANTS),
+  };
+};
+
+export const useReceiptStats = () => {
+  // Counts include PENDING receipts, so refresh while any are processing.
+  const { data: statsResponse } = useQuery({
+    queryKey: ["receipts", "stats"],
+    queryFn: async () => {
+      const token = getAuthToken();
+      if (!token) throw new Error("No authentication token");
+
+      const userId = getUserId();
+      if (!userId) throw new Error("No user ID found");
+
+      const response = await receiptsAPI.getStats(userId);
+      return response;
+    },
+    refetchInterval: (query) =>
+      query.state.data?.data.pendingReceipts ? RECEIPT_POLL_INTERVAL : false,
+  });
+
+  const { data: recentReceipts } = useQuery({
+    queryKey: ["receipts", "analytics"],
+    queryFn: async () => {
+      const token = getAuthToken();
+      if (!token) throw new Error("No authentication token");
+
+      return fetchReceiptsSince(analyticsStart(dayjs()));
+    },
+  });
+
+  return {
+    stats: statsResponse?.data,
+    analytics: recentReceipts
+      ? receiptAnalytics(recentReceipts, dayjs())
+      : null,
+  };
+};
@@ -0,0 +1,211 @@
+import { useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import axios from "axios";
+import { receiptsAPI } from "./api";
+import { updateReceiptLists } from "./receiptProcessing";
+
+// Batch receipt uploads. Large photos are shrunk in a worker first, then at
+// most MAX_CONCURRENT_UPLOADS files go up at once. Each finished receipt is
+// put straight into the cached receipt lists so it shows up as PENDING
+// before the list is refetched.
+
+export type ReceiptUploadStatus =
+  | "compressing"
+  | "queued"
+  | "uploading"
+  | "done"
+  | "failed"
+  | "cancelled";
+
+export interface ReceiptUpload {
+  id: string;
+  name: string;
+  size: number;
+  status: ReceiptUploadStatus;
+  // 0 to 1 while uploading.
+  progress: number;
+  error?: string;
+}
+
+export const RECEIPT_FILE_TYPES = "image/*,application/pdf";
+
+const MAX_CONCURRENT_UPLOADS = 3;
+// Photos below this are sent as they are.
+const COMPRESS_ABOVE_BYTES = 1024 * 1024;
+
+const isReceiptFile = (file: File) =>
+  file.type.startsWith("image/") || file.type === "application/pdf";
+
+/** Resolves to a smaller JPEG of a large photo, or the file unchanged. */
+export const compressImage = (file: File): Promise<File> => {
+  if (
+    !file.type.startsWith("image/") ||
+    file.size < COMPRESS_ABOVE_BYTES ||
+    typeof Worker === "undefined" ||
+    typeof OffscreenCanvas === "undefined"
+  ) {
+    return Promise.resolve(file);
+  }
+  return new Promise((resolve) => {
+    const worker = new Worker(
+      new URL("../workers/compressImage.ts", import.meta.url),
+      { type: "module" }
+    );
+    worker.onmessage = (event: MessageEvent<Blob | null>) => {
+      worker.terminate();
+      resolve(
+        event.data
+          ? new File([event.data], file.name.replace(/\.[^.]*$/, "") + ".jpg", {
+              type: "image/jpeg",
+            })
+          : file
+      );
+    };
+    worker.onerror = () => {
+      worker.terminate();
+      resolve(file);
+    };
+    worker.postMessage(file);
+  });
+};
+
+const describeUploadError = (error: unknown) => {
+  if (axios.isAxiosError(error)) {
+    return error.response?.data?.message || error.message;
+  }
+  return error instanceof Error ? error.message : "Upload failed";
+};
+
+export const useReceiptUploads = () => {
+  const queryClient = useQueryClient();
+  const [uploads, setUploads] = useState<ReceiptUpload[]>([]);
+  // Prepared (possibly compressed) files and in-flight requests, by upload id.
+  const files = useRef(new Map<string, File>());
+  const controllers = useRef(new Map<string, AbortController>());
+  const cancelled = useRef(new Set<string>());
+  const waiting = useRef<string[]>([]);
+  const active = useRef(0);
+
+  const update = (id: string, changes: Partial<ReceiptUpload>) => {
+    setUploads((current) =>
+      current.map((upload) =>
+        upload.id === id ? { ...upload, ...changes } : upload
+      )
+    );
+  };
+
+  const start = async (id: string) => {
+    const file = files.current.get(id);
+    if (!file) return;
+
+    const controller = new AbortController();
+    controllers.current.set(id, controller);
+    active.current++;
+    update(id, { status: "uploading", progress: 0, error: undefined });
+    try {
+      const response = await receiptsAPI.upload(file, {
+        signal: controller.signal,
+        onProgress: (progress) => update(id, { progress }),
+      });
+      update(id, { status: "done", progress: 1 });
+      // Filtered lists pick the new receipt up when they refetch, if it
+      // matches them.
+      updateReceiptLists(
+        queryClient,
+        (receipts, isFirstPage) =>
+          isFirstPage ? [response.data, ...receipts] : receipts,
+        true
+      );
+      queryClient.invalidateQueries({ queryKey: ["receipts"] });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        update(id, { status: "cancelled" });
+      } else {
+        update(id, { status: "failed", error: describeUploadError(error) });
+      }
+    } finally {
+      controllers.current.delete(id);
+      active.current--;
+      pump();
+    }
+  };
+
+  const pump = () => {
+    while (active.current < MAX_CONCURRENT_UPLOADS) {
+      const id = waiting.current.shift();
+      if (!id) return;
+      start(id);
+    }
+  };
+
+  const enqueue = (id: string) => {
+    update(id, { status: "queued", progress: 0, error: undefined });
+    waiting.current.push(id);
+    pump();
+  };
+
+  /** Adds files to the batch; anything but images and PDFs is skipped. */
+  const addFiles = (fileList: FileList | File[]) => {
+    const accepted = Array.from(fileList).filter(isReceiptFile);
+    const added = accepted.map((file): ReceiptUpload => ({
+      id: crypto.randomUUID(),
+      name: file.name,
+      size: file.size,
+      status: "compressing",
+      progress: 0,
+    }));
+    setUploads((current) => [...current, ...added]);
+
+    added.forEach(async (upload, index) => {
+      const prepared = await compressImage(accepted[index]);
+      files.current.set(upload.id, prepared);
+      if (cancelled.current.has(upload.id)) return;
+      update(upload.id, { size: prepared.size });
+      enqueue(upload.id);
+    });
+    return accepted.length;
+  };
+
+  const cancel = (id: string) => {
+    const controller = controllers.current.get(id);
+    if (controller) {
+      controller.abort();
+      return;
+    }
+    cancelled.current.add(id);
+    waiting.current = waiting.current.filter((waitingId) => waitingId !== id);
+    update(id, { status: "cancelled" });
+  };
+
+  const retry = (id: string) => {
+    if (!files.current.has(id)) return;
+    cancelled.current.delete(id);
+    enqueue(id);
+  };
+
+  /** Drops finished, failed and cancelled uploads from the list. */
+  const clearFinished = () => {
+    setUploads((current) => {
+      const finished = current.filter(
+        (upload) =>
+          upload.status === "done" ||
+          upload.status === "failed" ||
+          upload.status === "cancelled"
+      );
+      for (const upload of finished) {
+        files.current.delete(upload.id);
+        cancelled.current.delete(upload.id);
+      }
+      return current.filter((upload) => !finished.includes(upload));
+    });
+  };
+
+  const isUploading = uploads.some(
+    (upload) =>
+      upload.status === "compressing" ||
+      upload.status === "queued" ||
+      upload.status === "uploading"
+  );
+
+  return { uploads, isUploading, addFiles, cancel, retry, clearFinished };
+};
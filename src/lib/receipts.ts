@@ -0,0 +1,203 @@
+import dayjs from "dayjs";
+import type {
+  ExpenseSplitInput,
+  Receipt,
+  ReceiptProcessedData,
+} from "./models";
+
+// Editable copy of a receipt's OCR data, and how a corrected receipt turns
+// into expenses. Anything the line items do not explain (tax, discounts,
+// rounding) is shared across the lines in proportion to their amounts, so the
+// expenses always add up to the receipt total.
+
+export interface ReceiptLineDraft {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+  categoryId: string;
+}
+
+export interface ReceiptDraft {
+  merchant: string;
+  date: string;
+  currency: string;
+  tax: number;
+  total: number;
+  items: ReceiptLineDraft[];
+}
+
+export type ReceiptExpenseMode = "single" | "perItem" | "perCategory";
+
+export interface ReceiptExpenseDraft {
+  categoryId: string;
+  amount: number;
+  note: string;
+  splits?: ExpenseSplitInput[];
+}
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+export const emptyReceiptLine = (): ReceiptLineDraft => ({
+  description: "",
+  quantity: 1,
+  unitPrice: 0,
+  amount: 0,
+  categoryId: "",
+});
+
+export const toReceiptDraft = (receipt: Receipt): ReceiptDraft => {
+  const data = receipt.processedData;
+  const date = data?.date && dayjs(data.date);
+  return {
+    merchant: data?.merchant || "",
+    date: (date && date.isValid() ? date : dayjs(receipt.createdAt)).format(
+      "YYYY-MM-DD"
+    ),
+    currency: data?.currency || "",
+    tax: data?.tax ?? 0,
+    total: data?.total ?? 0,
+    items: (data?.items || []).map((item) => {
+      const quantity = item.quantity ?? 1;
+      const unitPrice = item.unitPrice ?? (item.amount ?? 0) / quantity;
+      return {
+        description: item.description || "",
+        quantity,
+        unitPrice,
+        amount: item.amount ?? roundCents(quantity * unitPrice),
+        categoryId: item.categoryId || "",
+      };
+    }),
+  };
+};
+
+/** The corrected data to store back on the receipt, keeping unknown keys. */
+export const fromReceiptDraft = (
+  receipt: Receipt,
+  draft: ReceiptDraft
+): ReceiptProcessedData => ({
+  ...receipt.processedData,
+  merchant: draft.merchant || null,
+  date: draft.date || null,
+  currency: draft.currency || null,
+  tax: draft.tax,
+  total: draft.total,
+  items: draft.items.map((item) => ({
+    ...item,
+    categoryId: item.categoryId || null,
+  })),
+});
+
+export const itemsTotal = (items: ReceiptLineDraft[]) =>
+  roundCents(items.reduce((sum, item) => sum + item.amount, 0));
+
+// Scales the amounts so they sum to `total`; the last one absorbs rounding.
+const allocate = (amounts: number[], total: number): number[] => {
+  const sum = amounts.reduce((a, b) => a + b, 0);
+  if (sum <= 0) return amounts;
+  const scaled = amounts.map((amount) => roundCents((amount / sum) * total));
+  scaled[scaled.length - 1] = roundCents(
+    total - scaled.slice(0, -1).reduce((a, b) => a + b, 0)
+  );
+  return scaled;
+};
+
+const byCategory = (items: ReceiptLineDraft[]) => {
+  const groups = new Map<string, ReceiptLineDraft[]>();
+  for (const item of items) {
+    groups.set(item.categoryId, [...(groups.get(item.categoryId) || []), item]);
+  }
+  return Array.from(groups.entries());
+};
+
+const describe = (merchant: string, items: ReceiptLineDraft[]) => {
+  const descriptions = items.map((item) => item.description).filter(Boolean);
+  if (descriptions.length === 0) return merchant;
+  return merchant
+    ? `${merchant}: ${descriptions.join(", ")}`
+    : descriptions.join(", ");
+};
+
+/**
+ * The expenses to create from a corrected receipt. A single expense whose
+ * line items span several categories is recorded as a split.
+ */
+export const receiptExpenses = (
+  draft: ReceiptDraft,
+  mode: ReceiptExpenseMode,
+  categoryId: string
+): ReceiptExpenseDraft[] => {
+  if (mode === "perItem") {
+    const amounts = allocate(
+      draft.items.map((item) => item.amount),
+      draft.total
+    );
+    return draft.items.map((item, index) => ({
+      categoryId: item.categoryId,
+      amount: amounts[index],
+      note: describe(draft.merchant, [item]),
+    }));
+  }
+
+  // A single expense files uncategorised lines under its own category.
+  const items =
+    mode === "single"
+      ? draft.items.map((item) => ({
+          ...item,
+          categoryId: item.categoryId || categoryId,
+        }))
+      : draft.items;
+  const groups = byCategory(
+    items.filter((item) => item.categoryId && item.amount > 0)
+  );
+  const amounts = allocate(
+    groups.map(([, items]) => itemsTotal(items)),
+    draft.total
+  );
+
+  if (mode === "perCategory") {
+    return groups.map(([groupCategoryId, items], index) => ({
+      categoryId: groupCategoryId,
+      amount: amounts[index],
+      note: describe(draft.merchant, items),
+    }));
+  }
+
+  const note = draft.merchant || "Receipt";
+  if (groups.length > 1) {
+    return [
+      {
+        categoryId: groups[0][0],
+        amount: draft.total,
+        note,
+        splits: groups.map(([groupCategoryId, items], index) => ({
+          categoryId: groupCategoryId,
+          amount: amounts[index],
+          note: describe("", items),
+        })),
+      },
+    ];
+  }
+  return [
+    { categoryId: groups[0]?.[0] || categoryId, amount: draft.total, note },
+  ];
+};
+
+/** Returns a message describing the first problem, or null when valid. */
+export const validateReceiptExpenses = (
+  draft: ReceiptDraft,
+  mode: ReceiptExpenseMode,
+  categoryId: string
+): string | null => {
+  if (draft.total <= 0) return "Please enter the receipt total";
+  if (mode === "single") {
+    const allCategorised =
+      draft.items.length > 0 && draft.items.every((item) => item.categoryId);
+    return categoryId || allCategorised ? null : "Please choose a category";
+  }
+  if (draft.items.length === 0) return "Add the receipt's line items first";
+  if (draft.items.some((item) => !item.categoryId || item.amount <= 0)) {
+    return "Every line item needs a category and an amount";
+  }
+  return null;
+};
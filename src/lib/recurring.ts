@@ -0,0 +1,86 @@
+import dayjs from "dayjs";
+import type { Dayjs } from "dayjs";
+import type { RecurringExpense, RecurringFrequency } from "./models";
+
+const FREQUENCY_UNITS: Record<
+  RecurringFrequency,
+  "day" | "week" | "month" | "year"
+> = {
+  DAILY: "day",
+  WEEKLY: "week",
+  MONTHLY: "month",
+  YEARLY: "year",
+};
+
+export const FREQUENCY_LABELS: Record<RecurringFrequency, string> = {
+  DAILY: "Daily",
+  WEEKLY: "Weekly",
+  MONTHLY: "Monthly",
+  YEARLY: "Yearly",
+};
+
+const PERIODS_PER_MONTH: Record<RecurringFrequency, number> = {
+  DAILY: 365 / 12,
+  WEEKLY: 52 / 12,
+  MONTHLY: 1,
+  YEARLY: 1 / 12,
+};
+
+/** Normalises a recurring amount to its average cost per month. */
+export function monthlyEquivalent(
+  amount: number,
+  frequency: RecurringFrequency
+): number {
+  return amount * PERIODS_PER_MONTH[frequency];
+}
+
+/**
+ * Lists the dates a recurring expense falls due between `from` and `to`
+ * (inclusive). Dates are stepped from `startDate` rather than from the
+ * previous occurrence so a template on the 31st does not drift to the 28th
+ * after February. Occurrences before `nextDueDate` have already been booked
+ * and are skipped; paused templates have no upcoming occurrences.
+ */
+export function getOccurrences(
+  recurring: Pick<
+    RecurringExpense,
+    "frequency" | "startDate" | "endDate" | "nextDueDate" | "isActive"
+  >,
+  from: Dayjs,
+  to: Dayjs
+): Dayjs[] {
+  if (!recurring.isActive) return [];
+
+  const unit = FREQUENCY_UNITS[recurring.frequency];
+  const anchor = dayjs(recurring.startDate).startOf("day");
+  const nextDue = dayjs(recurring.nextDueDate).startOf("day");
+  const end = recurring.endDate ? dayjs(recurring.endDate).endOf("day") : null;
+  const windowStart = from.isAfter(nextDue) ? from.startOf("day") : nextDue;
+  const windowEnd = end && end.isBefore(to) ? end : to.endOf("day");
+
+  // Jump close to the window instead of walking every period since startDate.
+  let step = Math.max(0, windowStart.diff(anchor, unit) - 1);
+  const dates: Dayjs[] = [];
+  for (;;) {
+    const date = anchor.add(step, unit);
+    if (date.isAfter(windowEnd)) break;
+    if (!date.isBefore(windowStart)) dates.push(date);
+    step += 1;
+  }
+  return dates;
+}
+
+/** Returns the next `count` due dates from today onwards. */
+export function getUpcomingOccurrences(
+  recurring: Parameters<typeof getOccurrences>[0],
+  count: number
+): Dayjs[] {
+  const unit = FREQUENCY_UNITS[recurring.frequency];
+  const today = dayjs().startOf("day");
+  const nextDue = dayjs(recurring.nextDueDate).startOf("day");
+  const from = nextDue.isAfter(today) ? nextDue : today;
+  return getOccurrences(recurring, today, from.add(count, unit)).slice(
+    0,
+    count
+  );
+}
@@ -0,0 +1,274 @@
+import dayjs from "dayjs";
+import type { Deposit, Expense } from "./models";
+
+// User-defined rules that fill in new transactions before they are saved.
+// The backend has no rules, so they are kept in localStorage like the budget
+// templates. Rules run in list order, highest priority first. A rule only
+// fills a category or deposit type that is still empty, so an explicit pick
+// wins and so does the first matching rule; tags accumulate and note
+// rewrites apply in turn.
+
+export type RuleTarget = "expense" | "deposit";
+
+export interface RuleConditions {
+  // Text matches ignore case. Empty conditions match everything.
+  noteContains: string;
+  noteRegex: string;
+  merchantContains: string;
+  minAmount: number | null;
+  maxAmount: number | null;
+  bankAccountId: string;
+  // 0 is Sunday, as in dayjs.
+  weekdays: number[];
+}
+
+export interface RuleActions {
+  categoryId: string;
+  depositTypeId: string;
+  tags: string[];
+  // Replaces the note; "{note}" stands for the current text. Empty leaves
+  // the note alone.
+  note: string;
+}
+
+export interface TransactionRule {
+  id: string;
+  name: string;
+  target: RuleTarget;
+  enabled: boolean;
+  conditions: RuleConditions;
+  actions: RuleActions;
+}
+
+/** The parts of a transaction that rules read and may change. */
+export interface RuleSubject {
+  amount: number;
+  bankAccountId: string;
+  note?: string;
+  date?: string;
+  // From the receipt's processedData, when there is one.
+  merchant?: string;
+  categoryId?: string;
+  depositTypeId?: string;
+  tags?: string[];
+}
+
+/**
+ * The categories (for expense rules) or deposit types (for deposit rules)
+ * loaded right now. A rule whose target is missing or archived does not fill
+ * it in, since the backend would reject the id or file into an archived one.
+ */
+export type RuleTargetOptions = { id: string; archivedAt?: string | null }[];
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const RULES_KEY = "transactionRules";
+
+export const getRules = (): TransactionRule[] => {
+  const stored = localStorage.getItem(RULES_KEY);
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return [];
+  }
+};
+
+export const saveRules = (rules: TransactionRule[]) => {
+  localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+};
+
+export const newRule = (target: RuleTarget): TransactionRule => ({
+  id: crypto.randomUUID(),
+  name: "",
+  target,
+  enabled: true,
+  conditions: {
+    noteContains: "",
+    noteRegex: "",
+    merchantContains: "",
+    minAmount: null,
+    maxAmount: null,
+    bankAccountId: "",
+    weekdays: [],
+  },
+  actions: { categoryId: "", depositTypeId: "", tags: [], note: "" },
+});
+
+/** Returns why a pattern is not a valid regex, or null when it is. */
+export const regexError = (pattern: string): string | null => {
+  try {
+    new RegExp(pattern, "i");
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid pattern";
+  }
+};
+
+const includesText = (text: string | undefined, search: string) =>
+  (text || "").toLowerCase().includes(search.trim().toLowerCase());
+
+export const ruleMatches = (rule: TransactionRule, subject: RuleSubject) => {
+  const { conditions } = rule;
+  if (
+    conditions.noteContains &&
+    !includesText(subject.note, conditions.noteContains)
+  ) {
+    return false;
+  }
+  if (conditions.noteRegex) {
+    // An invalid pattern never matches.
+    if (regexError(conditions.noteRegex)) return false;
+    if (!new RegExp(conditions.noteRegex, "i").test(subject.note || "")) {
+      return false;
+    }
+  }
+  if (
+    conditions.merchantContains &&
+    !(
+      subject.merchant &&
+      includesText(subject.merchant, conditions.merchantContains)
+    )
+  ) {
+    return false;
+  }
+  if (conditions.minAmount !== null && subject.amount < conditions.minAmount) {
+    return false;
+  }
+  if (conditions.maxAmount !== null && subject.amount > conditions.maxAmount) {
+    return false;
+  }
+  if (
+    conditions.bankAccountId &&
+    subject.bankAccountId !== conditions.bankAccountId
+  ) {
+    return false;
+  }
+  if (
+    conditions.weekdays.length > 0 &&
+    !conditions.weekdays.includes(dayjs(subject.date).day())
+  ) {
+    return false;
+  }
+  return true;
+};
+
+const isAvailable = (id: string, options: RuleTargetOptions) =>
+  options.some((option) => option.id === id && !option.archivedAt);
+
+const applyActions = <T extends RuleSubject>(
+  subject: T,
+  actions: RuleActions,
+  options: RuleTargetOptions
+): T => ({
+  ...subject,
+  ...(!subject.categoryId &&
+  actions.categoryId &&
+  isAvailable(actions.categoryId, options)
+    ? { categoryId: actions.categoryId }
+    : {}),
+  ...(!subject.depositTypeId &&
+  actions.depositTypeId &&
+  isAvailable(actions.depositTypeId, options)
+    ? { depositTypeId: actions.depositTypeId }
+    : {}),
+  ...(actions.tags.length > 0
+    ? { tags: Array.from(new Set([...(subject.tags || []), ...actions.tags])) }
+    : {}),
+  ...(actions.note
+    ? { note: actions.note.split("{note}").join(subject.note || "") }
+    : {}),
+});
+
+/**
+ * Runs the enabled rules for `target` over a new transaction. Returns the
+ * filled-in transaction and the rules that matched, in order.
+ */
+export const applyRules = <T extends RuleSubject>(
+  subject: T,
+  target: RuleTarget,
+  options: RuleTargetOptions,
+  rules: TransactionRule[] = getRules()
+): { subject: T; matched: TransactionRule[] } => {
+  const matched: TransactionRule[] = [];
+  let result = subject;
+  for (const rule of rules) {
+    if (!rule.enabled || rule.target !== target) continue;
+    if (!ruleMatches(rule, result)) continue;
+    matched.push(rule);
+    result = applyActions(result, rule.actions, options);
+  }
+  return { subject: result, matched };
+};
+
+export const expenseSubject = (expense: Expense): RuleSubject => ({
+  amount: expense.amount,
+  bankAccountId: expense.bankAccountId,
+  note: expense.note || "",
+  date: expense.date,
+  merchant: expense.receipt?.processedData?.merchant || undefined,
+  categoryId: expense.categoryId,
+});
+
+export const depositSubject = (deposit: Deposit): RuleSubject => ({
+  amount: deposit.amount,
+  bankAccountId: deposit.bankAccountId,
+  note: deposit.note || "",
+  date: deposit.date,
+  depositTypeId: deposit.depositTypeId,
+});
+
+export interface DryRunChange {
+  id: string;
+  before: RuleSubject;
+  after: RuleSubject;
+  matched: TransactionRule[];
+}
+
+/**
+ * What the rules would have done to past transactions had they been new:
+ * the category or deposit type is cleared first, so the rules decide it.
+ * Only transactions that at least one rule matched are returned.
+ */
+export const dryRunRules = (
+  rules: TransactionRule[],
+  target: RuleTarget,
+  transactions: { id: string; subject: RuleSubject }[],
+  options: RuleTargetOptions
+): DryRunChange[] =>
+  transactions.flatMap(({ id, subject }) => {
+    const { subject: after, matched } = applyRules(
+      { ...subject, categoryId: "", depositTypeId: "" },
+      target,
+      options,
+      rules
+    );
+    return matched.length > 0 ? [{ id, before: subject, after, matched }] : [];
+  });
+
+/** Points rules that file into a merged category at the one it merged into. */
+export const retargetRules = (fromId: string, toId: string) => {
+  saveRules(
+    getRules().map((rule) =>
+      rule.actions.categoryId === fromId
+        ? { ...rule, actions: { ...rule.actions, categoryId: toId } }
+        : rule
+    )
+  );
+};
+
+/** A starting point for a rule that files expenses like this one. */
+export const ruleFromExpense = (expense: Expense): TransactionRule => {
+  const rule = newRule("expense");
+  const merchant = expense.receipt?.processedData?.merchant;
+  return {
+    ...rule,
+    name: merchant || expense.note || "",
+    conditions: {
+      ...rule.conditions,
+      noteContains: merchant ? "" : expense.note || "",
+      merchantContains: merchant || "",
+    },
+    actions: { ...rule.actions, categoryId: expense.categoryId },
+  };
+};
@@ -0,0 +1,116 @@
+import { getAuthToken } from "./utils";
+import type { AuthSession } from "./models";
+
+// Session state shared by the axios interceptors and the SessionManager UI.
+// When the token is rejected, requests wait on a single renewal: a token
+// refresh if the backend offers one, otherwise a re-login modal shown over
+// the current page so route and form state survive.
+
+export type SessionStatus = "active" | "expired";
+
+export interface SessionSnapshot {
+  status: SessionStatus;
+  token: string | null;
+}
+
+let snapshot: SessionSnapshot = { status: "active", token: getAuthToken() };
+const listeners = new Set<() => void>();
+
+let renewal: Promise<void> | null = null;
+let loginWaiter: {
+  resolve: () => void;
+  reject: (error: Error) => void;
+} | null = null;
+
+// Re-login modals currently mounted. With none, nobody can answer the prompt
+// (a page reload still checking the token, or a public page), so renewal
+// fails at once rather than leaving requests waiting for ever.
+let loginPrompts = 0;
+
+const update = (status: SessionStatus) => {
+  snapshot = { status, token: getAuthToken() };
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeSession = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getSessionSnapshot = () => snapshot;
+
+export const getPendingRenewal = () => renewal;
+
+/** Marks a re-login modal as mounted; returns the function that unmarks it. */
+export const registerLoginPrompt = () => {
+  loginPrompts += 1;
+  return () => {
+    loginPrompts -= 1;
+    if (loginPrompts === 0) {
+      loginWaiter?.reject(new Error("Session expired"));
+    }
+  };
+};
+
+/** Reads the `exp` claim of a JWT, in milliseconds. */
+export const getTokenExpiry = (token: string | null): number | null => {
+  const payload = token?.split(".")[1];
+  if (!payload) return null;
+  try {
+    const json = atob(payload.replace(/-/g, "+").replace(/_/g, "/"));
+    const { exp } = JSON.parse(json);
+    return typeof exp === "number" ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+export const storeSession = (session: Partial<AuthSession>) => {
+  if (session.token) localStorage.setItem("token", session.token);
+  if (session.user) localStorage.setItem("user", JSON.stringify(session.user));
+  update("active");
+};
+
+/**
+ * Renews the session once, however many callers ask at the same time. Tries
+ * `refresh` first when given and falls back to asking the user to sign in,
+ * or fails when no re-login modal is mounted to ask.
+ */
+export const renewSession = (
+  refresh: (() => Promise<void>) | null
+): Promise<void> => {
+  if (!renewal) {
+    renewal = (async () => {
+      if (refresh) {
+        try {
+          await refresh();
+          return;
+        } catch {
+          // Refresh token rejected as well; the user has to sign in again.
+        }
+      }
+      if (loginPrompts === 0) throw new Error("Session expired");
+      await new Promise<void>((resolve, reject) => {
+        loginWaiter = { resolve, reject };
+        update("expired");
+      });
+    })().finally(() => {
+      renewal = null;
+      loginWaiter = null;
+    });
+  }
+  return renewal;
+};
+
+/** Called by the re-login modal once the user has signed in again. */
+export const completeLogin = (session: AuthSession) => {
+  storeSession(session);
+  loginWaiter?.resolve();
+};
+
+/** Called when the user gives up on re-login; waiting requests fail. */
+export const abandonSession = () => {
+  loginWaiter?.reject(new Error("Session expired"));
+};
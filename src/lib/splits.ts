@@ -0,0 +1,85 @@
+import type { Expense, ExpenseCategory, ExpenseSplitInput } from "./models";
+
+// Split expenses: one payment divided into several category lines. Anything
+// that reports per category should go through expenseLines so each line is
+// counted on its own.
+
+// Rounding slack when comparing the lines with the payment total.
+const SPLIT_TOLERANCE = 0.005;
+
+export interface ExpenseLine {
+  bankAccountId: string;
+  categoryId: string;
+  category?: ExpenseCategory | null;
+  amount: number;
+  note?: string | null;
+}
+
+export const isSplit = (expense: Pick<Expense, "splits">) =>
+  (expense.splits?.length ?? 0) > 0;
+
+/** The category lines of an expense; a single line when it is not split. */
+export const expenseLines = (
+  expense: Pick<
+    Expense,
+    "bankAccountId" | "categoryId" | "category" | "amount" | "note" | "splits"
+  >
+): ExpenseLine[] => {
+  if (!expense.splits || expense.splits.length === 0) {
+    return [
+      {
+        bankAccountId: expense.bankAccountId,
+        categoryId: expense.categoryId,
+        category: expense.category,
+        amount: expense.amount,
+        note: expense.note,
+      },
+    ];
+  }
+  return expense.splits.map((split) => ({
+    bankAccountId: expense.bankAccountId,
+    categoryId: split.categoryId,
+    category: split.category,
+    amount: split.amount,
+    note: split.note,
+  }));
+};
+
+/** What is left of the total after the lines; negative when over-allocated. */
+export const splitRemainder = (total: number, splits: ExpenseSplitInput[]) =>
+  Math.round(
+    (total - splits.reduce((sum, split) => sum + split.amount, 0)) * 100
+  ) / 100;
+
+/** Returns a message describing the first problem, or null when valid. */
+export const validateSplits = (
+  total: number,
+  splits: ExpenseSplitInput[]
+): string | null => {
+  if (splits.length < 2) {
+    return "A split needs at least two category lines";
+  }
+  if (splits.some((split) => !split.categoryId || split.amount <= 0)) {
+    return "Every split line needs a category and an amount";
+  }
+  if (Math.abs(splitRemainder(total, splits)) > SPLIT_TOLERANCE) {
+    return "Split lines must add up to the expense amount";
+  }
+  return null;
+};
+
+/** Starts a split from an unsplit expense: its category plus an empty line. */
+export const startSplit = (
+  total: number,
+  categoryId: string
+): ExpenseSplitInput[] => [
+  { categoryId, amount: total, note: "" },
+  { categoryId: "", amount: 0, note: "" },
+];
+
+export const toSplitInputs = (splits: Expense["splits"]): ExpenseSplitInput[] =>
+  (splits || []).map((split) => ({
+    categoryId: split.categoryId,
+    amount: split.amount,
+    note: split.note || "",
+  }));
@@ -0,0 +1,283 @@
+import dayjs from "dayjs";
+import customParseFormat from "dayjs/plugin/customParseFormat";
+import type { Deposit, Expense } from "./models";
+
+dayjs.extend(customParseFormat);
+
+// Parsing and matching for bank statement imports. Every format is reduced to
+// StatementRow, with outflows as negative amounts, before rows are split into
+// expenses and deposits.
+
+export type StatementFormat = "csv" | "ofx" | "qif";
+
+export interface StatementRow {
+  date: string; // YYYY-MM-DD
+  description: string;
+  amount: number;
+}
+
+export type DecimalSeparator = "." | ",";
+
+export interface CsvColumnMapping {
+  hasHeader: boolean;
+  dateFormat: string;
+  // "," for exports like 1.234,50; the other mark is a thousands separator.
+  decimalSeparator: DecimalSeparator;
+  date: number;
+  description: number;
+  // Either a single signed amount column or separate debit/credit columns.
+  amount?: number;
+  debit?: number;
+  credit?: number;
+}
+
+export const CSV_DATE_FORMATS = [
+  "YYYY-MM-DD",
+  "DD/MM/YYYY",
+  "MM/DD/YYYY",
+  "DD-MM-YYYY",
+  "DD MMM YYYY",
+];
+
+export const CSV_DELIMITERS = [
+  { value: ",", label: "Comma" },
+  { value: ";", label: "Semicolon" },
+  { value: "\t", label: "Tab" },
+];
+
+export function detectFormat(fileName: string): StatementFormat | null {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  if (extension === "csv") return "csv";
+  if (extension === "ofx" || extension === "qfx") return "ofx";
+  if (extension === "qif") return "qif";
+  return null;
+}
+
+/**
+ * Guesses the delimiter from the first line: exports that write decimal
+ * commas usually separate cells with semicolons or tabs instead.
+ */
+export function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, "");
+  const counts = CSV_DELIMITERS.map(
+    ({ value }) => firstLine.split(value).length - 1
+  );
+  const best = counts.indexOf(Math.max(...counts));
+  return counts[best] > 0 ? CSV_DELIMITERS[best].value : ",";
+}
+
+/** Splits CSV text into cells, honouring quoted fields and "" escapes. */
+export function parseCsv(text: string, delimiter = ","): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+/**
+ * Guesses the decimal separator from sample amounts: a comma followed by one
+ * or two final digits, as in 12,50 or 1.234,50, means a decimal comma.
+ */
+export function detectDecimalSeparator(values: string[]): DecimalSeparator {
+  let commas = 0;
+  let points = 0;
+  for (const value of values) {
+    if (/,\d{1,2}\)?$/.test(value.trim())) commas++;
+    else if (/\.\d{1,2}\)?$/.test(value.trim())) points++;
+  }
+  return commas > points ? "," : ".";
+}
+
+function parseAmount(
+  value: string | undefined,
+  decimalSeparator: DecimalSeparator = "."
+): number {
+  if (!value) return 0;
+  const trimmed = value.trim();
+  // Accounting-style negatives: (1,234.50)
+  const negative = /^\(.*\)$/.test(trimmed) || trimmed.startsWith("-");
+  const digits =
+    decimalSeparator === ","
+      ? trimmed.replace(/[^0-9,]/g, "").replace(",", ".")
+      : trimmed.replace(/[^0-9.]/g, "");
+  const amount = parseFloat(digits);
+  if (Number.isNaN(amount)) return 0;
+  return negative ? -amount : amount;
+}
+
+/** Applies a column mapping, skipping rows whose date or amount is unusable. */
+export function mapCsvRows(
+  rows: string[][],
+  mapping: CsvColumnMapping
+): StatementRow[] {
+  const dataRows = mapping.hasHeader ? rows.slice(1) : rows;
+  const result: StatementRow[] = [];
+  for (const cells of dataRows) {
+    const date = dayjs(cells[mapping.date]?.trim(), mapping.dateFormat, true);
+    const amount =
+      mapping.amount !== undefined
+        ? parseAmount(cells[mapping.amount], mapping.decimalSeparator)
+        : Math.abs(
+            parseAmount(cells[mapping.credit ?? -1], mapping.decimalSeparator)
+          ) -
+          Math.abs(
+            parseAmount(cells[mapping.debit ?? -1], mapping.decimalSeparator)
+          );
+    if (!date.isValid() || amount === 0) continue;
+    result.push({
+      date: date.format("YYYY-MM-DD"),
+      description: cells[mapping.description]?.trim() || "",
+      amount,
+    });
+  }
+  return result;
+}
+
+function ofxTag(block: string, tag: string): string | undefined {
+  // OFX 1.x is SGML without closing tags, so read up to the next tag.
+  return block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"))?.[1]?.trim();
+}
+
+export function parseOfx(text: string): StatementRow[] {
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|$)/gi);
+  const result: StatementRow[] = [];
+  for (const block of blocks || []) {
+    const posted = ofxTag(block, "DTPOSTED");
+    const amount = parseAmount(ofxTag(block, "TRNAMT"));
+    const date = posted ? dayjs(posted.slice(0, 8), "YYYYMMDD", true) : null;
+    if (!date?.isValid() || amount === 0) continue;
+    result.push({
+      date: date.format("YYYY-MM-DD"),
+      description: ofxTag(block, "NAME") || ofxTag(block, "MEMO") || "",
+      amount,
+    });
+  }
+  return result;
+}
+
+export function parseQif(text: string): StatementRow[] {
+  const result: StatementRow[] = [];
+  for (const record of text.split(/^\^/m)) {
+    let date: dayjs.Dayjs | null = null;
+    let amount = 0;
+    let payee = "";
+    let memo = "";
+    for (const line of record.split(/\r?\n/)) {
+      const value = line.slice(1).trim();
+      switch (line[0]) {
+        case "D":
+          // Quicken writes M/D/YY, M/D'YY or M/D/YYYY.
+          date = dayjs(value.replace("'", "/"), ["M/D/YYYY", "M/D/YY"], true);
+          break;
+        case "T":
+        case "U":
+          amount = parseAmount(value);
+          break;
+        case "P":
+          payee = value;
+          break;
+        case "M":
+          memo = value;
+          break;
+      }
+    }
+    if (!date?.isValid() || amount === 0) continue;
+    result.push({
+      date: date.format("YYYY-MM-DD"),
+      description: payee || memo,
+      amount,
+    });
+  }
+  return result;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 2 && !/^\d+$/.test(token));
+}
+
+export type CategoryIndex = Map<string, Map<string, number>>;
+
+/** Counts how often each word in past expense notes was filed per category. */
+export function buildCategoryIndex(expenses: Expense[]): CategoryIndex {
+  const index: CategoryIndex = new Map();
+  for (const expense of expenses) {
+    for (const token of new Set(tokenize(expense.note || ""))) {
+      const counts = index.get(token) || new Map<string, number>();
+      counts.set(expense.categoryId, (counts.get(expense.categoryId) || 0) + 1);
+      index.set(token, counts);
+    }
+  }
+  return index;
+}
+
+export function suggestCategory(
+  description: string,
+  index: CategoryIndex
+): string | null {
+  const scores = new Map<string, number>();
+  for (const token of tokenize(description)) {
+    for (const [categoryId, count] of index.get(token) || []) {
+      scores.set(categoryId, (scores.get(categoryId) || 0) + count);
+    }
+  }
+  let best: string | null = null;
+  for (const [categoryId, score] of scores) {
+    if (!best || score > (scores.get(best) || 0)) best = categoryId;
+  }
+  return best;
+}
+
+/**
+ * A row is a likely duplicate when an expense (for outflows) or deposit (for
+ * inflows) already exists on the same account, day and amount.
+ */
+export function findDuplicate(
+  row: StatementRow,
+  bankAccountId: string,
+  expenses: Expense[],
+  deposits: Deposit[]
+): Expense | Deposit | undefined {
+  const candidates: (Expense | Deposit)[] =
+    row.amount < 0 ? expenses : deposits;
+  return candidates.find(
+    (entry) =>
+      entry.bankAccountId === bankAccountId &&
+      dayjs(entry.date).format("YYYY-MM-DD") === row.date &&
+      Math.abs(entry.amount - Math.abs(row.amount)) < 0.005
+  );
+}
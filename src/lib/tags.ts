@@ -0,0 +1,95 @@
+// Free-form tags on expenses and deposits, such as "vacation-2026" or
+// "reimbursable". They cut across categories and months, so a trip or a
+// project can be totalled on its own. Tags are kept lowercase with hyphens
+// for spaces, so "Project X" and "project-x" are the same tag.
+
+interface Tagged {
+  tags?: string[] | null;
+}
+
+export const normalizeTag = (tag: string) =>
+  tag.trim().toLowerCase().replace(/\s+/g, "-");
+
+export const hasTag = (item: Tagged, tag: string) => !!item.tags?.includes(tag);
+
+/** Every tag in use, most used first, for autocomplete and filters. */
+export const collectTags = (items: Tagged[]): string[] => {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    for (const tag of item.tags || []) {
+      counts.set(tag, (counts.get(tag) || 0) + 1);
+    }
+  }
+  return Array.from(counts.entries())
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .map(([tag]) => tag);
+};
+
+// Tags seen in lists loaded before, newest first, so the tag field can
+// suggest tags from other periods without loading the whole history.
+const KNOWN_TAGS_KEY = "knownTags";
+const MAX_KNOWN_TAGS = 200;
+
+type TagScope = "expense" | "deposit";
+
+export const getKnownTags = (scope: TagScope): string[] => {
+  const stored = localStorage.getItem(KNOWN_TAGS_KEY);
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored)[scope] || [];
+  } catch {
+    return [];
+  }
+};
+
+export const rememberTags = (scope: TagScope, tags: string[]) => {
+  if (tags.length === 0) return;
+  const stored = localStorage.getItem(KNOWN_TAGS_KEY);
+  let known: Partial<Record<TagScope, string[]>> = {};
+  try {
+    known = stored ? JSON.parse(stored) : {};
+  } catch {
+    // Start over from a corrupt entry
+  }
+  const merged = Array.from(new Set([...tags, ...(known[scope] || [])]));
+  known[scope] = merged.slice(0, MAX_KNOWN_TAGS);
+  localStorage.setItem(KNOWN_TAGS_KEY, JSON.stringify(known));
+};
+
+/** Tags in the loaded list first, then ones remembered from earlier lists. */
+export const suggestTags = (scope: TagScope, items: Tagged[]) =>
+  Array.from(new Set([...collectTags(items), ...getKnownTags(scope)]));
+
+export interface TagTotal {
+  tag: string;
+  spent: number;
+  received: number;
+  count: number;
+}
+
+/**
+ * Totals per tag. Amounts should already be in one currency; a transaction
+ * with several tags counts towards each of them.
+ */
+export const tagTotals = (
+  expenses: (Tagged & { amount: number })[],
+  deposits: (Tagged & { amount: number })[]
+): TagTotal[] => {
+  const totals = new Map<string, TagTotal>();
+  const add = (item: Tagged, spent: number, received: number) => {
+    for (const tag of item.tags || []) {
+      const total = totals.get(tag) || { tag, spent: 0, received: 0, count: 0 };
+      totals.set(tag, {
+        tag,
+        spent: total.spent + spent,
+        received: total.received + received,
+        count: total.count + 1,
+      });
+    }
+  };
+  for (const expense of expenses) add(expense, expense.amount, 0);
+  for (const deposit of deposits) add(deposit, 0, deposit.amount);
+  return Array.from(totals.values()).sort(
+    (a, b) => b.spent - a.spent || a.tag.localeCompare(b.tag)
+  );
+};
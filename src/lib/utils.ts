@@ -1,10 +1,13 @@
+import type { User } from "./models";
+import { getBaseCurrency } from "./currency";
+
 // Utility functions for authentication and user data
 
 export const getAuthToken = (): string | null => {
   return localStorage.getItem("token");
 };
 
-export const getUserFromStorage = (): any => {
+export const getUserFromStorage = (): User | null => {
   try {
     const userStr = localStorage.getItem("user");
     return userStr ? JSON.parse(userStr) : null;
@@ -36,10 +39,19 @@ export const requireAuth = (): void => {
   }
 };
 
-export const formatCurrency = (amount: number): string => {
+export const formatCurrency = (
+  amount: number,
+  currency: string = getBaseCurrency()
+): string => {
   return new Intl.NumberFormat("en-IN", {
     style: "currency",
-    currency: "INR",
+    currency,
     maximumFractionDigits: 2,
   }).format(amount);
 };
+
+// Expense dates are saved as UTC midnight (new Date("YYYY-MM-DD")), so date
+// range queries cover whole UTC days at both bounds.
+export const dayStart = (date: string): string => `${date}T00:00:00.000Z`;
+
+export const dayEnd = (date: string): string => `${date}T23:59:59.999Z`;
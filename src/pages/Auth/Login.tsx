@@ -5,6 +5,7 @@ import { useState } from "react";
 import { Link, useNavigate, useLocation } from "react-router-dom";
 import { Eye, EyeOff, Loader2 } from "lucide-react";
 import { authAPI } from "../../lib/api";
+import { storeSession } from "../../lib/session";
 import AuthLayout from "../../layouts/AuthLayout";
 
 const loginSchema = z.object({
@@ -37,8 +38,7 @@ export default function Login() {
 
     try {
       const res = await authAPI.login(data);
-      localStorage.setItem("token", res.data.token);
-      localStorage.setItem("user", JSON.stringify(res.data.user));
+      storeSession(res.data);
       navigate(from, { replace: true });
     } catch (err: any) {
       setError(
@@ -5,6 +5,7 @@ import { useState } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { Eye, EyeOff, Loader2 } from "lucide-react";
 import { authAPI } from "../../lib/api";
+import { storeSession } from "../../lib/session";
 import AuthLayout from "../../layouts/AuthLayout";
 
 const registerSchema = z
@@ -42,8 +43,7 @@ export default function Register() {
 
     try {
       const res = await authAPI.register(data);
-      localStorage.setItem("token", res.data.token);
-      localStorage.setItem("user", JSON.stringify(res.data.user));
+      storeSession(res.data);
       navigate("/dashboard", { replace: true });
     } catch (err: any) {
       setError(
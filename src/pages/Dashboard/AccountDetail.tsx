@@ -0,0 +1,457 @@
+import { useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, CheckCircle, Lock, Scale } from "lucide-react";
+import {
+  bankAccountsAPI,
+  expensesAPI,
+  depositsAPI,
+  transfersAPI,
+} from "../../lib/api";
+import { getAuthToken, getUserId, formatCurrency } from "../../lib/utils";
+import { currencyOf } from "../../lib/currency";
+import {
+  buildLedger,
+  clearedBalance,
+  isBalanced,
+  withRunningBalance,
+} from "../../lib/ledger";
+import type { LedgerEntry } from "../../lib/ledger";
+import DashboardLayout from "../../layouts/DashboardLayout";
+import dayjs from "dayjs";
+
+const KIND_LABELS: Record<LedgerEntry["kind"], string> = {
+  expense: "Expense",
+  deposit: "Deposit",
+  "transfer-in": "Transfer in",
+  "transfer-out": "Transfer out",
+};
+
+export default function AccountDetail() {
+  const { accountId = "" } = useParams();
+  const [isReconciling, setIsReconciling] = useState(false);
+  const [statementDate, setStatementDate] = useState(
+    dayjs().format("YYYY-MM-DD")
+  );
+  const [statementBalance, setStatementBalance] = useState(0);
+  const [cleared, setCleared] = useState<Set<string>>(new Set());
+  const queryClient = useQueryClient();
+
+  const { data: accountsResponse, isLoading: accountsLoading } = useQuery({
+    queryKey: ["bank-accounts"],
+    queryFn: async () => {
+      const token = getAuthToken();
+      if (!token) throw new Error("No authentication token");
+
+      const response = await bankAccountsAPI.getAll();
+      return response;
+    },
+  });
+
+  const {
+    data: expensesResponse,
+    isLoading: expensesLoading,
+    error,
+  } = useQuery({
+    queryKey: ["expenses", "ledger"],
+    queryFn: async () => {
+      const userId = getUserId();
+      if (!userId) throw new Error("No user ID found");
+
+      const response = await expensesAPI.getAll(userId);
+      return response;
+    },
+  });
+
+  const { data: depositsResponse, isLoading: depositsLoading } = useQuery({
+    queryKey: ["deposits", "ledger"],
+    queryFn: async () => {
+      const userId = getUserId();
+      if (!userId) throw new Error("No user ID found");
+
+      const response = await depositsAPI.getAll(userId);
+      return response;
+    },
+  });
+
+  const { data: transfersResponse, isLoading: transfersLoading } = useQuery({
+    queryKey: ["transfers"],
+    queryFn: async () => {
+      const userId = getUserId();
+      if (!userId) throw new Error("No user ID found");
+
+      const response = await transfersAPI.getAll(userId);
+      return response;
+    },
+  });
+
+  const accounts = accountsResponse?.data || [];
+  const account = accounts.find((a) => a.id === accountId);
+  const currency = currencyOf(account);
+
+  const ledger = withRunningBalance(
+    buildLedger(
+      accountId,
+      expensesResponse?.data || [],
+      depositsResponse?.data || [],
+      transfersResponse?.data || [],
+      (id) => accounts.find((a) => a.id === id)?.name || "Unknown"
+    ),
+    account?.balance ?? 0
+  );
+
+  const isCleared = (entry: LedgerEntry) =>
+    !!entry.reconciledAt || cleared.has(entry.key);
+  const clearedTotal = clearedBalance(ledger, account?.balance ?? 0, isCleared);
+  const difference = statementBalance - clearedTotal;
+  const lastReconciled = ledger
+    .map((entry) => entry.reconciledAt)
+    .filter((date): date is string => !!date)
+    .sort()
+    .pop();
+
+  const reconcileMutation = useMutation({
+    mutationFn: () => {
+      const idsOf = (kinds: LedgerEntry["kind"][]) =>
+        ledger
+          .filter((entry) => kinds.includes(entry.kind))
+          .filter((entry) => cleared.has(entry.key))
+          .map((entry) => entry.sourceId);
+      return bankAccountsAPI.reconcile(accountId, {
+        statementDate: new Date(statementDate).toISOString(),
+        statementBalance,
+        expenseIds: idsOf(["expense"]),
+        depositIds: idsOf(["deposit"]),
+        transferIds: idsOf(["transfer-in", "transfer-out"]),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["expenses"] });
+      queryClient.invalidateQueries({ queryKey: ["deposits"] });
+      queryClient.invalidateQueries({ queryKey: ["transfers"] });
+      setIsReconciling(false);
+      setCleared(new Set());
+    },
+    onError: (err) => {
+      alert(err instanceof Error ? err.message : "Reconciliation failed");
+    },
+  });
+
+  const toggleCleared = (key: string) => {
+    const next = new Set(cleared);
+    if (next.has(key)) {
+      next.delete(key);
+    } else {
+      next.add(key);
+    }
+    setCleared(next);
+  };
+
+  // Ticks everything the statement can include, i.e. dated on or before it.
+  const clearUpToStatementDate = () => {
+    const cutoff = dayjs(statementDate).endOf("day");
+    setCleared(
+      new Set(
+        ledger
+          .filter(
+            (entry) => !entry.reconciledAt && !dayjs(entry.date).isAfter(cutoff)
+          )
+          .map((entry) => entry.key)
+      )
+    );
+  };
+
+  if (
+    accountsLoading ||
+    expensesLoading ||
+    depositsLoading ||
+    transfersLoading
+  ) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-600"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (error || !account) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              {error ? "Error loading transactions" : "Account not found"}
+            </h3>
+            {error && <p className="text-gray-600">{error.message}</p>}
+            <Link to="/dashboard/accounts" className="btn btn-primary mt-4">
+              Back to accounts
+            </Link>
+          </div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <Link
+            to="/dashboard/accounts"
+            className="flex items-center text-sm text-gray-600 hover:text-gray-900 mb-2"
+          >
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Bank Accounts
+          </Link>
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">
+                {account.name}
+              </h1>
+              <p className="text-gray-600">
+                {account.bankName} · {account.accountNumber}
+              </p>
+            </div>
+            {!isReconciling && (
+              <button
+                onClick={() => {
+                  setStatementBalance(account.balance);
+                  setIsReconciling(true);
+                }}
+                className="btn btn-primary flex items-center"
+              >
+                <Scale className="w-4 h-4 mr-2" />
+                Reconcile
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Stats */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="card p-6">
+            <p className="text-sm font-medium text-gray-600">Current Balance</p>
+            <p className="text-2xl font-semibold text-gray-900">
+              {formatCurrency(account.balance, currency)}
+            </p>
+          </div>
+          <div className="card p-6">
+            <p className="text-sm font-medium text-gray-600">Transactions</p>
+            <p className="text-2xl font-semibold text-gray-900">
+              {ledger.length}
+            </p>
+          </div>
+          <div className="card p-6">
+            <p className="text-sm font-medium text-gray-600">Last Reconciled</p>
+            <p className="text-2xl font-semibold text-gray-900">
+              {lastReconciled
+                ? dayjs(lastReconciled).format("MMM D, YYYY")
+                : "Never"}
+            </p>
+          </div>
+        </div>
+
+        {/* Reconcile panel */}
+        {isReconciling && (
+          <div className="card">
+            <div className="card-header">
+              <h3 className="text-lg font-medium text-gray-900">
+                Reconcile with statement
+              </h3>
+              <p className="text-sm text-gray-500">
+                Tick the transactions that appear on the statement until the
+                difference is zero.
+              </p>
+            </div>
+            <div className="card-body space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Statement date
+                  </label>
+                  <input
+                    type="date"
+                    value={statementDate}
+                    onChange={(e) => setStatementDate(e.target.value)}
+                    className="input w-full"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Statement ending balance ({currency})
+                  </label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={statementBalance}
+                    onChange={(e) =>
+                      setStatementBalance(parseFloat(e.target.value) || 0)
+                    }
+                    className="input w-full"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-4 text-sm">
+                <div>
+                  <p className="text-gray-600">Cleared balance</p>
+                  <p className="font-semibold text-gray-900">
+                    {formatCurrency(clearedTotal, currency)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-gray-600">Statement balance</p>
+                  <p className="font-semibold text-gray-900">
+                    {formatCurrency(statementBalance, currency)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-gray-600">Difference</p>
+                  <p
+                    className={`font-semibold ${
+                      isBalanced(difference)
+                        ? "text-success-600"
+                        : "text-danger-600"
+                    }`}
+                  >
+                    {formatCurrency(difference, currency)}
+                  </p>
+                </div>
+              </div>
+              <div className="flex justify-between">
+                <button
+                  onClick={clearUpToStatementDate}
+                  className="text-sm text-primary-600 hover:text-primary-900"
+                >
+                  Tick everything up to the statement date
+                </button>
+                <div className="flex space-x-3">
+                  <button
+                    onClick={() => {
+                      setIsReconciling(false);
+                      setCleared(new Set());
+                    }}
+                    className="btn btn-secondary"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={() => reconcileMutation.mutate()}
+                    disabled={
+                      !isBalanced(difference) ||
+                      cleared.size === 0 ||
+                      reconcileMutation.isPending
+                    }
+                    className="btn btn-primary flex items-center"
+                  >
+                    <CheckCircle className="w-4 h-4 mr-2" />
+                    {reconcileMutation.isPending
+                      ? "Saving..."
+                      : "Finish reconciliation"}
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Ledger */}
+        <div className="card">
+          <div className="card-header">
+            <h3 className="text-lg font-medium text-gray-900">Transactions</h3>
+          </div>
+          <div className="card-body">
+            {ledger.length === 0 ? (
+              <p className="text-center text-sm text-gray-500 py-6">
+                No transactions on this account yet
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      {isReconciling && <th className="px-4 py-3"></th>}
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Date
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Description
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Type
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Amount
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Balance
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {ledger.map((entry) => (
+                      <tr
+                        key={entry.key}
+                        className={
+                          isReconciling && isCleared(entry)
+                            ? "bg-success-50"
+                            : "hover:bg-gray-50"
+                        }
+                      >
+                        {isReconciling && (
+                          <td className="px-4 py-4">
+                            <input
+                              type="checkbox"
+                              checked={isCleared(entry)}
+                              disabled={!!entry.reconciledAt}
+                              onChange={() => toggleCleared(entry.key)}
+                              className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                            />
+                          </td>
+                        )}
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {new Date(entry.date).toLocaleDateString()}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          <span className="flex items-center">
+                            {entry.description}
+                            {entry.reconciledAt && (
+                              <span title="Reconciled">
+                                <Lock className="w-3 h-3 ml-2 text-gray-400" />
+                              </span>
+                            )}
+                          </span>
+                          <span className="block text-xs text-gray-500">
+                            {entry.detail}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                          {KIND_LABELS[entry.kind]}
+                        </td>
+                        <td
+                          className={`px-6 py-4 whitespace-nowrap text-right text-sm font-medium ${
+                            entry.amount < 0
+                              ? "text-danger-600"
+                              : "text-success-600"
+                          }`}
+                        >
+                          {entry.amount < 0 ? "-" : "+"}
+                          {formatCurrency(Math.abs(entry.amount), currency)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
+                          {formatCurrency(entry.balance, currency)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { Link } from "react-router-dom";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import {
   Plus,
@@ -8,28 +9,38 @@ import {
   Wallet,
   CreditCard,
   Building,
+  Upload,
+  ArrowLeftRight,
+  ArrowRight,
+  List,
 } from "lucide-react";
-import { bankAccountsAPI } from "../../lib/api";
-import { getAuthToken, formatCurrency } from "../../lib/utils";
+import { bankAccountsAPI, transfersAPI } from "../../lib/api";
+import { getAuthToken, getUserId, formatCurrency } from "../../lib/utils";
+import {
+  CURRENCIES,
+  currencyOf,
+  getBaseCurrency,
+  toBaseCurrency,
+  totalsByCurrency,
+} from "../../lib/currency";
+import {
+  applyPending,
+  runOrQueue,
+  useOfflineQueue,
+} from "../../lib/offlineQueue";
+import type { BankAccount, Transfer } from "../../lib/models";
 import DashboardLayout from "../../layouts/DashboardLayout";
-
-interface BankAccount {
-  id: string;
-  userId: string;
-  name: string;
-  accountNumber: string;
-  balance: number;
-  bankName: string;
-  isDefault: boolean;
-  createdAt: string;
-  updatedAt: string;
-}
+import ImportStatementModal from "../../components/ImportStatementModal";
+import TransferModal from "../../components/TransferModal";
+import OriginalAmounts from "../../components/OriginalAmounts";
+import SyncBadge from "../../components/SyncBadge";
 
 interface AccountFormData {
   name: string;
   accountNumber: string;
   balance: number;
   bankName: string;
+  currency: string;
   isDefault?: boolean;
 }
 
@@ -39,11 +50,17 @@ export default function Accounts() {
     null
   );
   const [searchTerm, setSearchTerm] = useState("");
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [importAccountId, setImportAccountId] = useState<string>();
+  const [isTransferOpen, setIsTransferOpen] = useState(false);
+  const [transferFromId, setTransferFromId] = useState<string>();
+  const [transferAccountFilter, setTransferAccountFilter] = useState("");
   const [formData, setFormData] = useState<AccountFormData>({
     name: "",
     accountNumber: "",
     balance: 0,
     bankName: "",
+    currency: getBaseCurrency(),
     isDefault: false,
   });
   const queryClient = useQueryClient();
@@ -60,15 +77,78 @@ export default function Accounts() {
     },
   });
 
-  const accounts = accountsResponse?.data || [];
+  // Include changes still waiting in the offline queue
+  const offlineQueue = useOfflineQueue();
+  const accounts = applyPending(
+    accountsResponse?.data || [],
+    offlineQueue,
+    "bank-account",
+    (id, payload): BankAccount => ({
+      ...payload,
+      id,
+      userId: getUserId() || "",
+      isDefault: !!payload.isDefault,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    })
+  );
+
+  // Get transfers
+  const { data: transfersResponse } = useQuery({
+    queryKey: ["transfers"],
+    queryFn: async () => {
+      const token = getAuthToken();
+      if (!token) throw new Error("No authentication token");
+
+      const userId = getUserId();
+      if (!userId) throw new Error("No user ID found");
+
+      const response = await transfersAPI.getAll(userId);
+      return response;
+    },
+  });
+
+  const transfers = applyPending(
+    transfersResponse?.data || [],
+    offlineQueue,
+    "transfer",
+    (id, payload): Transfer => ({
+      ...payload,
+      id,
+      date: String(payload.date),
+      createdAt: String(payload.date),
+      updatedAt: String(payload.date),
+    })
+  );
+
+  const accountTransfers = transfers.filter(
+    (transfer) =>
+      !transferAccountFilter ||
+      transfer.fromAccountId === transferAccountFilter ||
+      transfer.toAccountId === transferAccountFilter
+  );
+
+  const accountName = (id: string) =>
+    accounts.find((account) => account.id === id)?.name || "Unknown";
 
   // Create/Update mutation
   const createMutation = useMutation({
     mutationFn: (data: AccountFormData) => {
       if (editingAccount) {
-        return bankAccountsAPI.update(editingAccount.id, data);
+        return runOrQueue(
+          {
+            entity: "bank-account",
+            action: "update",
+            targetId: editingAccount.id,
+            payload: { ...data },
+          },
+          () => bankAccountsAPI.update(editingAccount.id, data)
+        );
       }
-      return bankAccountsAPI.create(data);
+      return runOrQueue(
+        { entity: "bank-account", action: "create", payload: { ...data } },
+        () => bankAccountsAPI.create(data)
+      );
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["bank-accounts"] });
@@ -80,18 +160,35 @@ export default function Accounts() {
 
   // Delete mutation
   const deleteMutation = useMutation({
-    mutationFn: (id: string) => bankAccountsAPI.delete(id),
+    mutationFn: (id: string) =>
+      runOrQueue(
+        { entity: "bank-account", action: "delete", targetId: id },
+        () => bankAccountsAPI.delete(id)
+      ),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["bank-accounts"] });
     },
   });
 
+  // Deleting a transfer reverses it on both accounts
+  const deleteTransferMutation = useMutation({
+    mutationFn: (id: string) =>
+      runOrQueue({ entity: "transfer", action: "delete", targetId: id }, () =>
+        transfersAPI.delete(id)
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["transfers"] });
+      queryClient.invalidateQueries({ queryKey: ["bank-accounts"] });
+    },
+  });
+
   const resetForm = () => {
     setFormData({
       name: "",
       accountNumber: "",
       balance: 0,
       bankName: "",
+      currency: getBaseCurrency(),
       isDefault: false,
     });
   };
@@ -112,6 +209,7 @@ export default function Accounts() {
       accountNumber: account.accountNumber,
       balance: account.balance,
       bankName: account.bankName,
+      currency: currencyOf(account),
       isDefault: account.isDefault,
     });
     setIsModalOpen(true);
@@ -123,6 +221,18 @@ export default function Accounts() {
     }
   };
 
+  const handleDeleteTransfer = (transfer: Transfer) => {
+    if (
+      window.confirm(
+        transfer.fromReconciledAt || transfer.toReconciledAt
+          ? "This transfer has been reconciled with a bank statement. Delete it anyway? Both account balances will be restored."
+          : "Delete this transfer? Both account balances will be restored."
+      )
+    ) {
+      deleteTransferMutation.mutate(transfer.id);
+    }
+  };
+
   const filteredAccounts = accounts.filter(
     (account: BankAccount) =>
       account.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -130,8 +240,12 @@ export default function Accounts() {
       account.accountNumber.includes(searchTerm)
   );
 
-  const totalBalance = filteredAccounts.reduce(
-    (sum: number, account: BankAccount) => sum + account.balance,
+  const balances = filteredAccounts.map((account) => ({
+    amount: account.balance,
+    bankAccountId: account.id,
+  }));
+  const totalBalance = toBaseCurrency(balances, accounts).reduce(
+    (sum, balance) => sum + balance.amount,
     0
   );
 
@@ -160,17 +274,41 @@ export default function Accounts() {
               Manage your bank accounts and balances
             </p>
           </div>
-          <button
-            onClick={() => {
-              setEditingAccount(null);
-              resetForm();
-              setIsModalOpen(true);
-            }}
-            className="btn btn-primary flex items-center"
-          >
-            <Plus className="w-4 h-4 mr-2" />
-            Add Account
-          </button>
+          <div className="flex space-x-3">
+            <button
+              onClick={() => {
+                setImportAccountId(undefined);
+                setIsImportOpen(true);
+              }}
+              disabled={accounts.length === 0}
+              className="btn btn-secondary flex items-center"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Import Statement
+            </button>
+            <button
+              onClick={() => {
+                setTransferFromId(undefined);
+                setIsTransferOpen(true);
+              }}
+              disabled={accounts.length < 2}
+              className="btn btn-secondary flex items-center"
+            >
+              <ArrowLeftRight className="w-4 h-4 mr-2" />
+              Transfer
+            </button>
+            <button
+              onClick={() => {
+                setEditingAccount(null);
+                resetForm();
+                setIsModalOpen(true);
+              }}
+              className="btn btn-primary flex items-center"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Account
+            </button>
+          </div>
         </div>
 
         {/* Stats */}
@@ -187,6 +325,9 @@ export default function Accounts() {
                 <p className="text-2xl font-semibold text-gray-900">
                   {formatCurrency(totalBalance)}
                 </p>
+                <OriginalAmounts
+                  totals={totalsByCurrency(balances, accounts)}
+                />
               </div>
             </div>
           </div>
@@ -269,7 +410,7 @@ export default function Accounts() {
               </div>
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {filteredAccounts.map((account: BankAccount) => (
+                {filteredAccounts.map((account) => (
                   <div
                     key={account.id}
                     className={`card p-6 border-2 ${
@@ -281,10 +422,16 @@ export default function Accounts() {
                     <div className="flex justify-between items-start mb-4">
                       <div>
                         <h3 className="text-lg font-semibold text-gray-900">
-                          {account.name}
+                          <Link
+                            to={`/dashboard/accounts/${account.id}`}
+                            className="hover:text-primary-600"
+                          >
+                            {account.name}
+                          </Link>
                         </h3>
                         <p className="text-sm text-gray-600">
                           {account.bankName}
+                          <SyncBadge state={account.syncState} />
                         </p>
                       </div>
                       {account.isDefault && (
@@ -304,7 +451,7 @@ export default function Accounts() {
                       <div>
                         <p className="text-sm text-gray-600">Balance</p>
                         <p className="text-lg font-semibold text-gray-900">
-                          {formatCurrency(account.balance)}
+                          {formatCurrency(account.balance, currencyOf(account))}
                         </p>
                       </div>
                       <div>
@@ -316,6 +463,34 @@ export default function Accounts() {
                     </div>
 
                     <div className="flex justify-end space-x-2 mt-4 pt-4 border-t border-gray-200">
+                      <Link
+                        to={`/dashboard/accounts/${account.id}`}
+                        className="text-gray-600 hover:text-gray-900"
+                        title="Transactions and reconciliation"
+                      >
+                        <List className="w-4 h-4" />
+                      </Link>
+                      <button
+                        onClick={() => {
+                          setImportAccountId(account.id);
+                          setIsImportOpen(true);
+                        }}
+                        className="text-gray-600 hover:text-gray-900"
+                        title="Import statement"
+                      >
+                        <Upload className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => {
+                          setTransferFromId(account.id);
+                          setIsTransferOpen(true);
+                        }}
+                        disabled={accounts.length < 2}
+                        className="text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                        title="Transfer from this account"
+                      >
+                        <ArrowLeftRight className="w-4 h-4" />
+                      </button>
                       <button
                         onClick={() => handleEdit(account)}
                         className="text-primary-600 hover:text-primary-900"
@@ -336,6 +511,125 @@ export default function Accounts() {
           </div>
         </div>
 
+        {/* Transfers */}
+        <div className="card">
+          <div className="card-header flex justify-between items-center">
+            <h3 className="text-lg font-medium text-gray-900">Transfers</h3>
+            <select
+              value={transferAccountFilter}
+              onChange={(e) => setTransferAccountFilter(e.target.value)}
+              className="input w-48"
+            >
+              <option value="">All accounts</option>
+              {accounts.map((account) => (
+                <option key={account.id} value={account.id}>
+                  {account.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="card-body">
+            {accountTransfers.length === 0 ? (
+              <p className="text-center text-sm text-gray-500 py-6">
+                No transfers yet
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Date
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Accounts
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Description
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Amount
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {accountTransfers.map((transfer) => (
+                      <tr key={transfer.id} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {new Date(transfer.date).toLocaleDateString()}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          <span className="flex items-center">
+                            {accountName(transfer.fromAccountId)}
+                            <ArrowRight className="w-4 h-4 mx-2 text-gray-400" />
+                            {accountName(transfer.toAccountId)}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {transfer.note || "Transfer"}
+                          <SyncBadge state={transfer.syncState} />
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                          {formatCurrency(
+                            transfer.amount,
+                            currencyOf(
+                              accounts.find(
+                                (a) => a.id === transfer.fromAccountId
+                              )
+                            )
+                          )}
+                          {transfer.toAmount != null && (
+                            <span className="text-gray-500">
+                              {" → "}
+                              {formatCurrency(
+                                transfer.toAmount,
+                                currencyOf(
+                                  accounts.find(
+                                    (a) => a.id === transfer.toAccountId
+                                  )
+                                )
+                              )}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                          <button
+                            onClick={() => handleDeleteTransfer(transfer)}
+                            className="text-danger-600 hover:text-danger-900"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Transfer Modal */}
+        {isTransferOpen && (
+          <TransferModal
+            accounts={accounts}
+            initialFromAccountId={transferFromId}
+            onClose={() => setIsTransferOpen(false)}
+          />
+        )}
+
+        {/* Import Statement Modal */}
+        {isImportOpen && (
+          <ImportStatementModal
+            accounts={accounts}
+            initialAccountId={importAccountId}
+            onClose={() => setIsImportOpen(false)}
+          />
+        )}
+
         {/* Add/Edit Modal */}
         {isModalOpen && (
           <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -395,6 +689,26 @@ export default function Accounts() {
                   />
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Currency *
+                  </label>
+                  <select
+                    value={formData.currency}
+                    onChange={(e) =>
+                      setFormData({ ...formData, currency: e.target.value })
+                    }
+                    className="input w-full"
+                    required
+                  >
+                    {CURRENCIES.map((currency) => (
+                      <option key={currency} value={currency}>
+                        {currency}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
                     Current Balance *
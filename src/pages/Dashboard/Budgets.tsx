@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { useSearchParams } from "react-router-dom";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import {
   Plus,
@@ -10,45 +11,75 @@ import {
   AlertTriangle,
   Target,
   BarChart3,
+  X,
+  RotateCcw,
+  CalendarRange,
+  RefreshCw,
 } from "lucide-react";
-import { budgetsAPI, authAPI } from "../../lib/api";
-import { getAuthToken, getUserId, formatCurrency } from "../../lib/utils";
+import {
+  budgetsAPI,
+  authAPI,
+  expensesAPI,
+  bankAccountsAPI,
+  categoriesAPI,
+} from "../../lib/api";
+import {
+  getAuthToken,
+  getUserId,
+  formatCurrency,
+  dayStart,
+  dayEnd,
+} from "../../lib/utils";
+import {
+  getBaseCurrency,
+  toBaseCurrency,
+  totalsByCurrency,
+} from "../../lib/currency";
+import {
+  budgetDrift,
+  categoryBudgetStatuses,
+  categoryCarryIn,
+  rolloverChain,
+  rolloverMonths,
+  rawSpendingByMonth,
+  spendingByCategory,
+  useMonthExpenses,
+} from "../../lib/budgets";
+import { useMonthForecast } from "../../lib/forecast";
+import type { Budget, BudgetCategoryInput } from "../../lib/models";
 import DashboardLayout from "../../layouts/DashboardLayout";
+import OriginalAmounts from "../../components/OriginalAmounts";
+import BudgetTemplateModal from "../../components/BudgetTemplateModal";
+import BudgetForecast from "../../components/BudgetForecast";
 import {
   BarChart,
+  ComposedChart,
   Bar,
+  Line,
   XAxis,
   YAxis,
   CartesianGrid,
   Tooltip,
   ResponsiveContainer,
+  Legend,
 } from "recharts";
+import dayjs from "dayjs";
 
-interface Budget {
-  id: string;
+interface BudgetFormData {
   userId: string;
   month: number;
   year: number;
   amountLimit: number;
-  spentAmount: number;
   thresholdPercentage: number;
-  createdAt: string;
-  updatedAt: string;
-  alerts?: Array<{
-    id: string;
-    alertType: string;
-    message: string;
-    isRead: boolean;
-    createdAt: string;
-  }>;
+  categories: BudgetCategoryInput[];
+  rollover: boolean;
+  rolloverReset: boolean;
 }
 
-interface BudgetFormData {
-  userId: string;
-  month: number;
-  year: number;
-  amountLimit: number;
-  thresholdPercentage: number;
+interface RecalcResult {
+  budget: Budget;
+  // Null when the recalculation failed.
+  after: number | null;
 }
 
 const MONTHS = [
@@ -68,17 +99,24 @@ const MONTHS = [
 
 export default function Budgets() {
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isTemplateModalOpen, setIsTemplateModalOpen] = useState(false);
   const [editingBudget, setEditingBudget] = useState<Budget | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
+  const [recalcReport, setRecalcReport] = useState<RecalcResult[] | null>(null);
   const [formData, setFormData] = useState<BudgetFormData>({
     userId: "",
     month: new Date().getMonth() + 1,
     year: new Date().getFullYear(),
     amountLimit: 0,
     thresholdPercentage: 80,
+    categories: [],
+    rollover: false,
+    rolloverReset: false,
   });
   const queryClient = useQueryClient();
+  const [searchParams] = useSearchParams();
+  const linkedBudgetId = searchParams.get("budgetId");
 
   // Get current user
   const { data: userData } = useQuery({
@@ -119,6 +157,12 @@ export default function Budgets() {
 
   const budgets = budgetsResponse?.data || [];
 
+  // Budget alerts link here with ?budgetId=; show that budget's year once.
+  const linkedBudgetYear = budgets.find((b) => b.id === linkedBudgetId)?.year;
+  useEffect(() => {
+    if (linkedBudgetYear) setSelectedYear(linkedBudgetYear);
+  }, [linkedBudgetYear]);
+
   // Get current budget summary
   const { data: budgetSummary } = useQuery({
     queryKey: ["budget-summary", selectedYear],
@@ -134,6 +178,20 @@ export default function Budgets() {
     },
   });
 
+  // Get expense categories for category budget lines
+  const { data: expenseCategoriesResponse } = useQuery({
+    queryKey: ["expense-categories"],
+    queryFn: async () => {
+      const token = getAuthToken();
+      if (!token) throw new Error("No authentication token");
+
+      const response = await categoriesAPI.getExpenseCategories();
+      return response;
+    },
+  });
+
+  const expenseCategories = expenseCategoriesResponse?.data || [];
+
   // Create/Update mutation
   const createMutation = useMutation({
     mutationFn: (data: BudgetFormData) => {
@@ -151,6 +209,38 @@ export default function Budgets() {
     },
   });
 
+  // Starting a fresh chain drops everything carried into that month
+  const resetRolloverMutation = useMutation({
+    mutationFn: (budget: Budget) =>
+      budgetsAPI.update(budget.id, { rolloverReset: !budget.rolloverReset }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["budgets"] });
+    },
+  });
+
+  // Recalculate mutation, one budget at a time so a failure only loses
+  // that month
+  const recalcMutation = useMutation({
+    mutationFn: async (targets: Budget[]) => {
+      const results: RecalcResult[] = [];
+      for (const budget of targets) {
+        try {
+          const response = await budgetsAPI.recalc(budget.id);
+          results.push({ budget, after: response.data.spentAmount });
+        } catch {
+          results.push({ budget, after: null });
+        }
+      }
+      return results;
+    },
+    onSuccess: (results) => {
+      queryClient.invalidateQueries({ queryKey: ["budgets"] });
+      queryClient.invalidateQueries({ queryKey: ["budget-summary"] });
+      queryClient.invalidateQueries({ queryKey: ["budget-alerts"] });
+      setRecalcReport(results);
+    },
+  });
+
   // Delete mutation
   const deleteMutation = useMutation({
     mutationFn: (id: string) => budgetsAPI.delete(id),
@@ -168,6 +258,9 @@ export default function Budgets() {
       year: new Date().getFullYear(),
       amountLimit: 0,
       thresholdPercentage: 80,
+      categories: [],
+      rollover: false,
+      rolloverReset: false,
     });
   };
 
@@ -177,6 +270,19 @@ export default function Budgets() {
       alert("Please enter a valid budget amount");
       return;
     }
+    const categoryIds = formData.categories.map((line) => line.categoryId);
+    if (
+      formData.categories.some(
+        (line) => !line.categoryId || line.amountLimit <= 0
+      )
+    ) {
+      alert("Every category budget needs a category and an amount");
+      return;
+    }
+    if (new Set(categoryIds).size !== categoryIds.length) {
+      alert("Each category can only have one budget line");
+      return;
+    }
     createMutation.mutate(formData);
   };
 
@@ -188,6 +294,14 @@ export default function Budgets() {
       year: budget.year,
       amountLimit: budget.amountLimit,
       thresholdPercentage: budget.thresholdPercentage,
+      categories: (budget.categories || []).map((line) => ({
+        categoryId: line.categoryId,
+        amountLimit: line.amountLimit,
+        thresholdPercentage: line.thresholdPercentage,
+        rollover: !!line.rollover,
+      })),
+      rollover: !!budget.rollover,
+      rolloverReset: !!budget.rolloverReset,
     });
     setIsModalOpen(true);
   };
@@ -208,17 +322,179 @@ export default function Budgets() {
   );
 
   const currentBudget = budgetSummary?.currentBudget;
-  const totalSpent = budgetSummary?.totalSpent || 0;
-  const remainingBudget = budgetSummary?.remainingBudget || 0;
-  const spendingPercentage = budgetSummary?.spendingPercentage || 0;
+
+  // The backend sums raw amounts across accounts, so the current month's
+  // spending is re-totalled in the base currency when accounts differ.
+  const { data: accountsResponse } = useQuery({
+    queryKey: ["bank-accounts"],
+    queryFn: async () => {
+      const token = getAuthToken();
+      if (!token) throw new Error("No authentication token");
+
+      const response = await bankAccountsAPI.getAll();
+      return response;
+    },
+  });
+
+  const accounts = accountsResponse?.data || [];
+
+  const { data: monthExpensesResponse } = useMonthExpenses(
+    currentBudget?.month,
+    currentBudget?.year
+  );
+
+  const monthExpenses = monthExpensesResponse?.data || [];
+  const spentByCurrency = totalsByCurrency(monthExpenses, accounts);
+  const needsConversion = Object.keys(spentByCurrency).some(
+    (currency) => currency !== getBaseCurrency()
+  );
+
+  const totalSpent = needsConversion
+    ? toBaseCurrency(monthExpenses, accounts).reduce(
+        (sum, expense) => sum + expense.amount,
+        0
+      )
+    : budgetSummary?.totalSpent || 0;
+
+  // Rollover: surplus or deficit from earlier months in the chain
+  const rollover = rolloverChain(budgets);
+  const carriedIn = currentBudget
+    ? rollover.get(currentBudget.id)?.carriedIn || 0
+    : 0;
+  const availableBudget = (currentBudget?.amountLimit || 0) + carriedIn;
+  const forecast = useMonthForecast(currentBudget, availableBudget, accounts);
+
+  const remainingBudget =
+    (needsConversion || carriedIn !== 0) && currentBudget
+      ? availableBudget - totalSpent
+      : budgetSummary?.remainingBudget || 0;
+  const spendingPercentage =
+    (needsConversion || carriedIn !== 0) && currentBudget
+      ? availableBudget > 0
+        ? (totalSpent / availableBudget) * 100
+        : 100
+      : budgetSummary?.spendingPercentage || 0;
+
+  // Category lines carry over separately, so the chain's earlier months are
+  // loaded when any current line rolls over.
+  const currentBudgetDetails = currentBudget
+    ? budgets.find((b) => b.id === currentBudget.id) || currentBudget
+    : undefined;
+  const chainMonths = currentBudgetDetails
+    ? rolloverMonths(budgets, currentBudgetDetails)
+    : [];
+  const hasCategoryRollover =
+    chainMonths.length > 1 &&
+    !!currentBudgetDetails?.categories?.some((line) => line.rollover);
+
+  const { data: chainExpensesResponse } = useQuery({
+    queryKey: [
+      "expenses",
+      "rollover",
+      chainMonths[0]?.id,
+      currentBudgetDetails?.id,
+    ],
+    queryFn: async () => {
+      const userId = getUserId();
+      if (!userId) throw new Error("No user ID found");
+
+      const first = chainMonths[0];
+      const last = chainMonths[chainMonths.length - 2];
+      const response = await expensesAPI.getAll(userId, {
+        startDate: dayStart(
+          dayjs()
+            .year(first.year)
+            .month(first.month - 1)
+            .startOf("month")
+            .format("YYYY-MM-DD")
+        ),
+        endDate: dayEnd(
+          dayjs()
+            .year(last.year)
+            .month(last.month - 1)
+            .endOf("month")
+            .format("YYYY-MM-DD")
+        ),
+      });
+      return response;
+    },
+    enabled: hasCategoryRollover,
+  });
+
+  // Back-dated expense edits can leave a stored spentAmount behind, so each
+  // month of the year is checked against its actual expenses.
+  const { data: yearExpensesResponse } = useQuery({
+    queryKey: ["expenses", "budget-year", selectedYear],
+    queryFn: async () => {
+      const token = getAuthToken();
+      if (!token) throw new Error("No authentication token");
+
+      const userId = getUserId();
+      if (!userId) throw new Error("No user ID found");
+
+      const response = await expensesAPI.getAll(userId, {
+        startDate: dayStart(`${selectedYear}-01-01`),
+        // The end of the last day, so expenses late on December 31 count
+        endDate: dayEnd(`${selectedYear}-12-31`),
+      });
+      return response;
+    },
+  });
+
+  const actualSpending = rawSpendingByMonth(yearExpensesResponse?.data || []);
+  const driftOf = (budget: Budget) =>
+    yearExpensesResponse ? budgetDrift(budget, actualSpending) : 0;
+  const yearBudgets = budgets.filter((b) => b.year === selectedYear);
+  const driftedCount = yearBudgets.filter((b) => driftOf(b) !== 0).length;
+
+  // Category lines of the current month, most used first
+  const categoryStatuses = currentBudgetDetails
+    ? categoryBudgetStatuses(
+        currentBudgetDetails,
+        spendingByCategory(monthExpenses, accounts),
+        expenseCategories,
+        hasCategoryRollover
+          ? categoryCarryIn(
+              chainMonths,
+              chainExpensesResponse?.data || [],
+              accounts
+            )
+          : undefined
+      )
+    : [];
+  const overspendingCategories = categoryStatuses.filter(
+    (status) => status.usage !== "ok"
+  );
+  const categoryLimitTotal = formData.categories.reduce(
+    (sum, line) => sum + line.amountLimit,
+    0
+  );
+
+  const updateCategoryLine = (
+    index: number,
+    changes: Partial<BudgetCategoryInput>
+  ) => {
+    setFormData({
+      ...formData,
+      categories: formData.categories.map((line, i) =>
+        i === index ? { ...line, ...changes } : line
+      ),
+    });
+  };
 
   // Prepare chart data
-  const chartData = filteredBudgets.map((budget: Budget) => ({
-    month: MONTHS[budget.month - 1],
-    limit: budget.amountLimit,
-    spent: budget.spentAmount,
-    remaining: Math.max(0, budget.amountLimit - budget.spentAmount),
-  }));
+  const chartData = filteredBudgets.map((budget: Budget) => {
+    const available = rollover.get(budget.id)?.available ?? budget.amountLimit;
+    return {
+      month: MONTHS[budget.month - 1],
+      limit: budget.amountLimit,
+      spent: budget.spentAmount,
+      remaining: Math.max(0, available - budget.spentAmount),
+      available: budget.rollover ? available : undefined,
+      carriedIn: rollover.get(budget.id)?.carriedIn || 0,
+    };
+  });
+  const showRollover = filteredBudgets.some((budget) => budget.rollover);
 
   if (isLoading) {
     return (
@@ -262,17 +538,26 @@ export default function Budgets() {
               Manage your monthly budgets and track spending
             </p>
           </div>
-          <button
-            onClick={() => {
-              setEditingBudget(null);
-              resetForm();
-              setIsModalOpen(true);
-            }}
-            className="btn btn-primary flex items-center"
-          >
-            <Plus className="w-4 h-4 mr-2" />
-            Add Budget
-          </button>
+          <div className="flex space-x-3">
+            <button
+              onClick={() => setIsTemplateModalOpen(true)}
+              className="btn btn-secondary flex items-center"
+            >
+              <CalendarRange className="w-4 h-4 mr-2" />
+              Apply Template
+            </button>
+            <button
+              onClick={() => {
+                setEditingBudget(null);
+                resetForm();
+                setIsModalOpen(true);
+              }}
+              className="btn btn-primary flex items-center"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Budget
+            </button>
+          </div>
         </div>
 
         {/* Current Budget Stats */}
@@ -288,8 +573,15 @@ export default function Budgets() {
                     Monthly Budget
                   </p>
                   <p className="text-2xl font-semibold text-gray-900">
-                    {formatCurrency(currentBudget.amountLimit)}
+                    {formatCurrency(availableBudget)}
                   </p>
+                  {carriedIn !== 0 && (
+                    <p className="text-xs text-gray-500">
+                      {formatCurrency(currentBudget.amountLimit)}{" "}
+                      {carriedIn > 0 ? "+" : "-"}{" "}
+                      {formatCurrency(Math.abs(carriedIn))} carried over
+                    </p>
+                  )}
                 </div>
               </div>
             </div>
@@ -305,6 +597,7 @@ export default function Budgets() {
                   <p className="text-2xl font-semibold text-gray-900">
                     {formatCurrency(totalSpent)}
                   </p>
+                  <OriginalAmounts totals={spentByCurrency} />
                 </div>
               </div>
             </div>
@@ -371,7 +664,7 @@ export default function Budgets() {
                 </span>
                 <span className="text-sm text-gray-500">
                   {formatCurrency(totalSpent)} /{" "}
-                  {formatCurrency(currentBudget.amountLimit)}
+                  {formatCurrency(availableBudget)}
                 </span>
               </div>
               <div className="w-full bg-gray-200 rounded-full h-2.5">
@@ -388,8 +681,7 @@ export default function Budgets() {
               </div>
               {spendingPercentage > 100 && (
                 <p className="text-sm text-danger-600 mt-1">
-                  You are{" "}
-                  {formatCurrency(totalSpent - currentBudget.amountLimit)} over
+                  You are {formatCurrency(totalSpent - availableBudget)} over
                   budget!
                 </p>
               )}
@@ -397,6 +689,95 @@ export default function Budgets() {
           </div>
         )}
 
+        {/* Month-end Forecast */}
+        {currentBudget && forecast && (
+          <BudgetForecast
+            forecast={forecast}
+            limit={availableBudget}
+            thresholdPercentage={currentBudget.thresholdPercentage}
+          />
+        )}
+
+        {/* Category Budgets */}
+        {currentBudget && categoryStatuses.length > 0 && (
+          <div className="card">
+            <div className="card-header flex justify-between items-center">
+              <h3 className="text-lg font-medium text-gray-900">
+                Category Budgets - {MONTHS[currentBudget.month - 1]}
+              </h3>
+              {overspendingCategories.length > 0 && (
+                <span className="flex items-center text-sm text-warning-600">
+                  <AlertTriangle className="w-4 h-4 mr-1" />
+                  {overspendingCategories.length} of {categoryStatuses.length}{" "}
+                  categories at or over their limit
+                </span>
+              )}
+            </div>
+            <div className="card-body grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="space-y-4">
+                {categoryStatuses.map((status) => (
+                  <div key={status.categoryId}>
+                    <div className="flex justify-between items-center mb-1">
+                      <span className="text-sm font-medium text-gray-700">
+                        {status.name}
+                        {status.carriedIn !== 0 && (
+                          <span className="ml-2 text-xs font-normal text-gray-500">
+                            {status.carriedIn > 0 ? "+" : "-"}
+                            {formatCurrency(Math.abs(status.carriedIn))} carried
+                            over
+                          </span>
+                        )}
+                      </span>
+                      <span
+                        className={`text-sm ${
+                          status.usage === "over"
+                            ? "text-danger-600"
+                            : status.usage === "near"
+                            ? "text-warning-600"
+                            : "text-gray-500"
+                        }`}
+                      >
+                        {formatCurrency(status.spent)} /{" "}
+                        {formatCurrency(status.limit)} (
+                        {status.percentage.toFixed(0)}%)
+                      </span>
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-2">
+                      <div
+                        className={`h-2 rounded-full ${
+                          status.usage === "over"
+                            ? "bg-danger-600"
+                            : status.usage === "near"
+                            ? "bg-warning-600"
+                            : "bg-success-600"
+                        }`}
+                        style={{
+                          width: `${Math.min(status.percentage, 100)}%`,
+                        }}
+                      ></div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={categoryStatuses} layout="vertical">
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis type="number" />
+                    <YAxis type="category" dataKey="name" width={100} />
+                    <Tooltip
+                      formatter={(value) => formatCurrency(Number(value))}
+                    />
+                    <Legend />
+                    <Bar dataKey="limit" fill="#3b82f6" name="Limit" />
+                    <Bar dataKey="spent" fill="#ef4444" name="Spent" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Filters */}
         <div className="card">
           <div className="card-body">
@@ -462,14 +843,25 @@ export default function Budgets() {
             <div className="card-body">
               <div className="h-64">
                 <ResponsiveContainer width="100%" height="100%">
-                  <BarChart data={chartData}>
+                  <ComposedChart data={chartData}>
                     <CartesianGrid strokeDasharray="3 3" />
                     <XAxis dataKey="month" />
                     <YAxis />
                     <Tooltip />
+                    {showRollover && <Legend />}
                     <Bar dataKey="limit" fill="#3b82f6" name="Budget Limit" />
                     <Bar dataKey="spent" fill="#ef4444" name="Spent" />
-                  </BarChart>
+                    {showRollover && (
+                      <Line
+                        type="monotone"
+                        dataKey="available"
+                        stroke="#10b981"
+                        strokeWidth={2}
+                        name="Available with carry-over"
+                        connectNulls={false}
+                      />
+                    )}
+                  </ComposedChart>
                 </ResponsiveContainer>
               </div>
             </div>
@@ -478,10 +870,34 @@ export default function Budgets() {
 
         {/* Budgets List */}
         <div className="card">
-          <div className="card-header">
-            <h3 className="text-lg font-medium text-gray-900">
-              Monthly Budgets
-            </h3>
+          <div className="card-header flex justify-between items-center">
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">
+                Monthly Budgets
+              </h3>
+              {driftedCount > 0 && (
+                <p className="text-sm text-warning-600 flex items-center">
+                  <AlertTriangle className="w-4 h-4 mr-1" />
+                  {driftedCount}{" "}
+                  {driftedCount === 1 ? "budget is" : "budgets are"} out of sync
+                  with your expenses
+                </p>
+              )}
+            </div>
+            {yearBudgets.length > 0 && (
+              <button
+                onClick={() => recalcMutation.mutate(yearBudgets)}
+                disabled={recalcMutation.isPending}
+                className="btn btn-secondary flex items-center"
+              >
+                <RefreshCw
+                  className={`w-4 h-4 mr-2 ${
+                    recalcMutation.isPending ? "animate-spin" : ""
+                  }`}
+                />
+                Recalculate {selectedYear}
+              </button>
+            )}
           </div>
           <div className="card-body">
             {filteredBudgets.length === 0 ? (
@@ -521,6 +937,9 @@ export default function Budgets() {
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Spent
                       </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Carry-over
+                      </th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Remaining
                       </th>
@@ -534,29 +953,81 @@ export default function Budgets() {
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
                     {filteredBudgets.map((budget: Budget) => {
+                      const chain = rollover.get(budget.id);
+                      const available = chain?.available ?? budget.amountLimit;
                       const usagePercentage =
-                        (budget.spentAmount / budget.amountLimit) * 100;
+                        available > 0
+                          ? (budget.spentAmount / available) * 100
+                          : 100;
                       const isOverBudget = usagePercentage > 100;
                       const isNearLimit =
                         usagePercentage > budget.thresholdPercentage;
+                      const drift = driftOf(budget);
 
                       return (
-                        <tr key={budget.id} className="hover:bg-gray-50">
+                        <tr
+                          key={budget.id}
+                          className={
+                            budget.id === linkedBudgetId
+                              ? "bg-primary-50"
+                              : "hover:bg-gray-50"
+                          }
+                        >
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                             {MONTHS[budget.month - 1]} {budget.year}
+                            {(budget.categories?.length ?? 0) > 0 && (
+                              <p className="text-xs text-gray-500">
+                                {budget.categories?.length} category{" "}
+                                {budget.categories?.length === 1
+                                  ? "limit"
+                                  : "limits"}
+                              </p>
+                            )}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                             {formatCurrency(budget.amountLimit)}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                             {formatCurrency(budget.spentAmount)}
+                            {drift !== 0 && (
+                              <p
+                                className="text-xs text-warning-600 flex items-center"
+                                title="Recalculate to bring the budget in line with your expenses"
+                              >
+                                <AlertTriangle className="w-3 h-3 mr-1" />
+                                Expenses total{" "}
+                                {formatCurrency(budget.spentAmount + drift)}
+                              </p>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {budget.rollover && chain ? (
+                              <div>
+                                <p
+                                  className={
+                                    chain.carriedIn < 0
+                                      ? "text-danger-600"
+                                      : "text-gray-900"
+                                  }
+                                >
+                                  In: {formatCurrency(chain.carriedIn)}
+                                </p>
+                                <p className="text-xs text-gray-500">
+                                  Out: {formatCurrency(chain.carriedOut)}
+                                </p>
+                                {budget.rolloverReset && (
+                                  <p className="text-xs text-primary-600">
+                                    Chain restarts here
+                                  </p>
+                                )}
+                              </div>
+                            ) : (
+                              <span className="text-gray-400">-</span>
+                            )}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                             {formatCurrency(
-                              Math.max(
-                                0,
-                                budget.amountLimit - budget.spentAmount
-                              )
+                              Math.max(0, available - budget.spentAmount)
                             )}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
@@ -578,6 +1049,37 @@ export default function Budgets() {
                             </div>
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                            {budget.rollover && (
+                              <button
+                                onClick={() =>
+                                  resetRolloverMutation.mutate(budget)
+                                }
+                                className={`mr-3 ${
+                                  budget.rolloverReset
+                                    ? "text-primary-600 hover:text-primary-900"
+                                    : "text-gray-600 hover:text-gray-900"
+                                }`}
+                                title={
+                                  budget.rolloverReset
+                                    ? "Continue the rollover from last month"
+                                    : "Reset rollover from this month"
+                                }
+                              >
+                                <RotateCcw className="w-4 h-4" />
+                              </button>
+                            )}
+                            <button
+                              onClick={() => recalcMutation.mutate([budget])}
+                              disabled={recalcMutation.isPending}
+                              className={`mr-3 ${
+                                drift !== 0
+                                  ? "text-warning-600 hover:text-warning-900"
+                                  : "text-gray-600 hover:text-gray-900"
+                              }`}
+                              title="Recalculate spending"
+                            >
+                              <RefreshCw className="w-4 h-4" />
+                            </button>
                             <button
                               onClick={() => handleEdit(budget)}
                               className="text-primary-600 hover:text-primary-900 mr-3"
@@ -604,7 +1106,7 @@ export default function Budgets() {
         {/* Add/Edit Modal */}
         {isModalOpen && (
           <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
-            <div className="bg-white rounded-lg p-6 w-full max-w-md">
+            <div className="bg-white rounded-lg p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
               <h2 className="text-xl font-bold mb-4">
                 {editingBudget ? "Edit Budget" : "Add Budget"}
               </h2>
@@ -743,6 +1245,170 @@ export default function Budgets() {
                   </p>
                 </div>
 
+                <div className="space-y-2">
+                  <div className="flex items-center">
+                    <input
+                      type="checkbox"
+                      id="rollover"
+                      checked={formData.rollover}
+                      onChange={(e) =>
+                        setFormData({ ...formData, rollover: e.target.checked })
+                      }
+                      className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                    />
+                    <label
+                      htmlFor="rollover"
+                      className="ml-2 block text-sm text-gray-900"
+                    >
+                      Roll over what is left (or overspent) into next month
+                    </label>
+                  </div>
+                  {formData.rollover && (
+                    <div className="flex items-center">
+                      <input
+                        type="checkbox"
+                        id="rolloverReset"
+                        checked={formData.rolloverReset}
+                        onChange={(e) =>
+                          setFormData({
+                            ...formData,
+                            rolloverReset: e.target.checked,
+                          })
+                        }
+                        className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                      />
+                      <label
+                        htmlFor="rolloverReset"
+                        className="ml-2 block text-sm text-gray-900"
+                      >
+                        Start fresh this month, ignoring earlier carry-over
+                      </label>
+                    </div>
+                  )}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Category Budgets
+                  </label>
+                  {formData.categories.length > 0 && (
+                    <div className="space-y-2 mb-2">
+                      <div className="flex gap-2 text-xs text-gray-500">
+                        <span className="flex-1">Category</span>
+                        <span className="w-24">Limit</span>
+                        <span className="w-16">Alert %</span>
+                        {formData.rollover && (
+                          <span className="w-10">Roll</span>
+                        )}
+                        <span className="w-4"></span>
+                      </div>
+                      {formData.categories.map((line, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                          <select
+                            value={line.categoryId}
+                            onChange={(e) =>
+                              updateCategoryLine(index, {
+                                categoryId: e.target.value,
+                              })
+                            }
+                            className="input flex-1"
+                            required
+                          >
+                            <option value="">Select category</option>
+                            {expenseCategories.map((category) => (
+                              <option key={category.id} value={category.id}>
+                                {category.icon} {category.name}
+                              </option>
+                            ))}
+                          </select>
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={line.amountLimit}
+                            onChange={(e) =>
+                              updateCategoryLine(index, {
+                                amountLimit: parseFloat(e.target.value) || 0,
+                              })
+                            }
+                            className="input w-24"
+                            required
+                          />
+                          <input
+                            type="number"
+                            min="1"
+                            max="100"
+                            value={line.thresholdPercentage}
+                            onChange={(e) =>
+                              updateCategoryLine(index, {
+                                thresholdPercentage:
+                                  parseInt(e.target.value) || 80,
+                              })
+                            }
+                            className="input w-16"
+                          />
+                          {formData.rollover && (
+                            <span className="w-10 flex justify-center">
+                              <input
+                                type="checkbox"
+                                checked={!!line.rollover}
+                                onChange={(e) =>
+                                  updateCategoryLine(index, {
+                                    rollover: e.target.checked,
+                                  })
+                                }
+                                title="Carry this category's surplus or deficit into next month"
+                                className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                              />
+                            </span>
+                          )}
+                          <button
+                            type="button"
+                            onClick={() =>
+                              setFormData({
+                                ...formData,
+                                categories: formData.categories.filter(
+                                  (_, i) => i !== index
+                                ),
+                              })
+                            }
+                            className="text-gray-400 hover:text-danger-600"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setFormData({
+                        ...formData,
+                        categories: [
+                          ...formData.categories,
+                          {
+                            categoryId: "",
+                            amountLimit: 0,
+                            thresholdPercentage: formData.thresholdPercentage,
+                          },
+                        ],
+                      })
+                    }
+                    className="flex items-center text-sm text-primary-600 hover:text-primary-900"
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add category limit
+                  </button>
+                  {categoryLimitTotal > formData.amountLimit && (
+                    <p className="text-xs text-warning-600 mt-1">
+                      Category limits add up to{" "}
+                      {formatCurrency(categoryLimitTotal)}, more than the
+                      monthly budget.
+                    </p>
+                  )}
+                </div>
+
                 <div className="flex justify-end space-x-3 pt-4">
                   <button
                     type="button"
@@ -771,6 +1437,80 @@ export default function Budgets() {
             </div>
           </div>
         )}
+
+        {/* Recalculation Report */}
+        {recalcReport && (
+          <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg p-6 w-full max-w-md">
+              <h2 className="text-xl font-bold mb-4">Recalculation Report</h2>
+              {recalcReport.every(
+                (result) => result.after === result.budget.spentAmount
+              ) ? (
+                <p className="text-sm text-gray-600">
+                  Everything was already up to date.
+                </p>
+              ) : (
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Month
+                      </th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Before
+                      </th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        After
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {recalcReport
+                      .filter(
+                        (result) => result.after !== result.budget.spentAmount
+                      )
+                      .map(({ budget, after }) => (
+                        <tr key={budget.id}>
+                          <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">
+                            {MONTHS[budget.month - 1]} {budget.year}
+                          </td>
+                          <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">
+                            {formatCurrency(budget.spentAmount)}
+                          </td>
+                          <td className="px-3 py-2 whitespace-nowrap text-sm">
+                            {after === null ? (
+                              <span className="text-danger-600">Failed</span>
+                            ) : (
+                              <span className="font-medium text-gray-900">
+                                {formatCurrency(after)}
+                              </span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                  </tbody>
+                </table>
+              )}
+              <div className="flex justify-end pt-4">
+                <button
+                  onClick={() => setRecalcReport(null)}
+                  className="btn btn-primary"
+                >
+                  Close
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {isTemplateModalOpen && (
+          <BudgetTemplateModal
+            budgets={budgets}
+            accounts={accounts}
+            year={selectedYear}
+            onClose={() => setIsTemplateModalOpen(false)}
+          />
+        )}
       </div>
     </DashboardLayout>
   );
@@ -0,0 +1,614 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Plus,
+  Edit,
+  Trash2,
+  Archive,
+  ArchiveRestore,
+  GitMerge,
+  Check,
+  X,
+  Tags,
+} from "lucide-react";
+import { categoriesAPI } from "../../lib/api";
+import { getAuthToken } from "../../lib/utils";
+import {
+  CATEGORY_COLORS,
+  CATEGORY_ICONS,
+  isArchived,
+  typesForCategory,
+} from "../../lib/categories";
+import { retargetRules } from "../../lib/rules";
+import type {
+  ExpenseCategory,
+  ExpenseCategoryInput,
+  ExpenseType,
+} from "../../lib/models";
+import DashboardLayout from "../../layouts/DashboardLayout";
+import IconColorPicker from "../../components/IconColorPicker";
+
+interface TypeEdit {
+  id: string;
+  name: string;
+}
+
+const emptyCategoryForm = (): ExpenseCategoryInput => ({
+  name: "",
+  description: "",
+  icon: CATEGORY_ICONS[0],
+  color: CATEGORY_COLORS[7],
+});
+
+export default function Categories() {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingCategory, setEditingCategory] =
+    useState<ExpenseCategory | null>(null);
+  const [formData, setFormData] =
+    useState<ExpenseCategoryInput>(emptyCategoryForm());
+  const [mergingCategory, setMergingCategory] =
+    useState<ExpenseCategory | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
+  // New type names, keyed by category id
+  const [newTypeNames, setNewTypeNames] = useState<Record<string, string>>({});
+  const [typeEdit, setTypeEdit] = useState<TypeEdit | null>(null);
+  const queryClient = useQueryClient();
+
+  // Get categories, archived ones included
+  const { data: categoriesResponse, isLoading } = useQuery({
+    queryKey: ["expense-categories", "all"],
+    queryFn: async () => {
+      const token = getAuthToken();
+      if (!token) throw new Error("No authentication token");
+
+      const response = await categoriesAPI.getExpenseCategories({
+        includeArchived: true,
+      });
+      return response;
+    },
+  });
+
+  const categories = categoriesResponse?.data || [];
+  const activeCategories = categories.filter((c) => !isArchived(c));
+  const archivedCategories = categories.filter(isArchived);
+
+  // Get expense types
+  const { data: expenseTypesResponse } = useQuery({
+    queryKey: ["expense-types"],
+    queryFn: async () => {
+      const token = getAuthToken();
+      if (!token) throw new Error("No authentication token");
+
+      const response = await categoriesAPI.getExpenseTypes();
+      return response;
+    },
+  });
+
+  const expenseTypes = expenseTypesResponse?.data || [];
+
+  const showError = (fallback: string) => (error: Error) => {
+    alert(error.message || fallback);
+  };
+
+  // Create/Update category mutation
+  const saveMutation = useMutation({
+    mutationFn: (data: ExpenseCategoryInput) =>
+      editingCategory
+        ? categoriesAPI.updateExpenseCategory(editingCategory.id, data)
+        : categoriesAPI.createExpenseCategory(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["expense-categories"] });
+      closeModal();
+    },
+    onError: showError("Failed to save category"),
+  });
+
+  // Archive/Restore mutation
+  const archiveMutation = useMutation({
+    mutationFn: ({ id, archived }: { id: string; archived: boolean }) =>
+      categoriesAPI.updateExpenseCategory(id, { archived }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["expense-categories"] });
+    },
+    onError: showError("Failed to archive category"),
+  });
+
+  // Merge mutation: everything filed under the category moves to the target
+  const mergeMutation = useMutation({
+    mutationFn: ({ id, targetId }: { id: string; targetId: string }) =>
+      categoriesAPI.mergeExpenseCategory(id, targetId),
+    onSuccess: (_, { id, targetId }) => {
+      retargetRules(id, targetId);
+      queryClient.invalidateQueries({ queryKey: ["expense-categories"] });
+      queryClient.invalidateQueries({ queryKey: ["expense-types"] });
+      queryClient.invalidateQueries({ queryKey: ["expenses"] });
+      queryClient.invalidateQueries({ queryKey: ["all-expenses"] });
+      queryClient.invalidateQueries({ queryKey: ["recurring-expenses"] });
+      queryClient.invalidateQueries({ queryKey: ["budgets"] });
+      setMergingCategory(null);
+      setMergeTargetId("");
+    },
+    onError: showError("Failed to merge categories"),
+  });
+
+  // Expense type mutations
+  const createTypeMutation = useMutation({
+    mutationFn: (data: { categoryId: string; name: string }) =>
+      categoriesAPI.createExpenseType(data),
+    onSuccess: (_, { categoryId }) => {
+      queryClient.invalidateQueries({ queryKey: ["expense-types"] });
+      setNewTypeNames((prev) => ({ ...prev, [categoryId]: "" }));
+    },
+    onError: showError("Failed to add type"),
+  });
+
+  const renameTypeMutation = useMutation({
+    mutationFn: ({ id, name }: TypeEdit) =>
+      categoriesAPI.updateExpenseType(id, { name }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["expense-types"] });
+      setTypeEdit(null);
+    },
+    onError: showError("Failed to rename type"),
+  });
+
+  const deleteTypeMutation = useMutation({
+    mutationFn: (id: string) => categoriesAPI.deleteExpenseType(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["expense-types"] });
+      queryClient.invalidateQueries({ queryKey: ["expenses"] });
+    },
+    onError: showError("Failed to delete type"),
+  });
+
+  const openModal = (category: ExpenseCategory | null) => {
+    setEditingCategory(category);
+    setFormData(
+      category
+        ? {
+            name: category.name,
+            description: category.description || "",
+            icon: category.icon || "",
+            color: category.color || CATEGORY_COLORS[7],
+          }
+        : emptyCategoryForm()
+    );
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditingCategory(null);
+    setFormData(emptyCategoryForm());
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = formData.name.trim();
+    if (!name) {
+      alert("Please enter a category name");
+      return;
+    }
+    const duplicate = categories.some(
+      (c) =>
+        c.id !== editingCategory?.id &&
+        c.name.toLowerCase() === name.toLowerCase()
+    );
+    if (duplicate) {
+      alert(`A category called "${name}" already exists`);
+      return;
+    }
+    saveMutation.mutate({ ...formData, name });
+  };
+
+  const handleArchive = (category: ExpenseCategory) => {
+    if (
+      window.confirm(
+        `Archive "${category.name}"? It will no longer be offered for new expenses, but existing expenses keep it.`
+      )
+    ) {
+      archiveMutation.mutate({ id: category.id, archived: true });
+    }
+  };
+
+  const handleMerge = () => {
+    if (!mergingCategory || !mergeTargetId) return;
+    mergeMutation.mutate({ id: mergingCategory.id, targetId: mergeTargetId });
+  };
+
+  const handleAddType = (categoryId: string) => {
+    const name = (newTypeNames[categoryId] || "").trim();
+    if (!name) return;
+    createTypeMutation.mutate({ categoryId, name });
+  };
+
+  const handleRenameType = () => {
+    if (!typeEdit || !typeEdit.name.trim()) return;
+    renameTypeMutation.mutate({ ...typeEdit, name: typeEdit.name.trim() });
+  };
+
+  const handleDeleteType = (type: ExpenseType) => {
+    if (
+      window.confirm(
+        `Delete the type "${type.name}"? Its expenses stay in the category.`
+      )
+    ) {
+      deleteTypeMutation.mutate(type.id);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-600"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  const renderCategory = (category: ExpenseCategory) => {
+    const archived = isArchived(category);
+    const types = typesForCategory(expenseTypes, category.id);
+
+    return (
+      <div
+        key={category.id}
+        className={`card p-4 ${archived ? "opacity-60" : ""}`}
+      >
+        <div className="flex items-start justify-between">
+          <div className="flex items-center min-w-0">
+            <div
+              className="w-10 h-10 rounded-lg flex items-center justify-center text-xl shrink-0"
+              style={{ backgroundColor: `${category.color || "#6b7280"}33` }}
+            >
+              {category.icon || "📝"}
+            </div>
+            <div className="ml-3 min-w-0">
+              <p className="font-medium text-gray-900 truncate flex items-center">
+                <span
+                  className="w-2.5 h-2.5 rounded-full mr-2 shrink-0"
+                  style={{ backgroundColor: category.color || "#6b7280" }}
+                ></span>
+                {category.name}
+                {category.isDefault && (
+                  <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                    Default
+                  </span>
+                )}
+              </p>
+              {category.description && (
+                <p className="text-sm text-gray-500 truncate">
+                  {category.description}
+                </p>
+              )}
+            </div>
+          </div>
+          <div className="flex space-x-2 ml-3 shrink-0">
+            {archived ? (
+              <button
+                onClick={() =>
+                  archiveMutation.mutate({ id: category.id, archived: false })
+                }
+                className="text-primary-600 hover:text-primary-900"
+                title="Restore"
+              >
+                <ArchiveRestore className="w-4 h-4" />
+              </button>
+            ) : (
+              <>
+                <button
+                  onClick={() => openModal(category)}
+                  className="text-primary-600 hover:text-primary-900"
+                  title="Edit"
+                >
+                  <Edit className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setMergingCategory(category)}
+                  className="text-gray-600 hover:text-gray-900"
+                  title="Merge into another category"
+                >
+                  <GitMerge className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleArchive(category)}
+                  className="text-danger-600 hover:text-danger-900"
+                  title="Archive"
+                >
+                  <Archive className="w-4 h-4" />
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+
+        {/* Expense types */}
+        <div className="mt-4 pt-3 border-t border-gray-200">
+          <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">
+            Types
+          </p>
+          {types.length === 0 && (
+            <p className="text-sm text-gray-500 mb-2">No types yet.</p>
+          )}
+          <ul className="space-y-1">
+            {types.map((type) => (
+              <li
+                key={type.id}
+                className="flex items-center justify-between text-sm"
+              >
+                {typeEdit?.id === type.id ? (
+                  <>
+                    <input
+                      type="text"
+                      value={typeEdit.name}
+                      onChange={(e) =>
+                        setTypeEdit({ ...typeEdit, name: e.target.value })
+                      }
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") handleRenameType();
+                        if (e.key === "Escape") setTypeEdit(null);
+                      }}
+                      className="input py-1 text-sm flex-1"
+                      autoFocus
+                    />
+                    <button
+                      onClick={handleRenameType}
+                      className="ml-2 text-success-600 hover:text-success-800"
+                      title="Save"
+                    >
+                      <Check className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => setTypeEdit(null)}
+                      className="ml-1 text-gray-400 hover:text-gray-600"
+                      title="Cancel"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <span className="text-gray-900">{type.name}</span>
+                    {!archived && (
+                      <span className="flex space-x-2">
+                        <button
+                          onClick={() =>
+                            setTypeEdit({ id: type.id, name: type.name })
+                          }
+                          className="text-primary-600 hover:text-primary-900"
+                          title="Rename"
+                        >
+                          <Edit className="w-3.5 h-3.5" />
+                        </button>
+                        <button
+                          onClick={() => handleDeleteType(type)}
+                          className="text-danger-600 hover:text-danger-900"
+                          title="Delete"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      </span>
+                    )}
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+          {!archived && (
+            <div className="flex mt-2">
+              <input
+                type="text"
+                value={newTypeNames[category.id] || ""}
+                onChange={(e) =>
+                  setNewTypeNames((prev) => ({
+                    ...prev,
+                    [category.id]: e.target.value,
+                  }))
+                }
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleAddType(category.id);
+                }}
+                className="input py-1 text-sm flex-1"
+                placeholder="Add a type, e.g. Groceries"
+              />
+              <button
+                onClick={() => handleAddType(category.id)}
+                disabled={!newTypeNames[category.id]?.trim()}
+                className="ml-2 text-primary-600 hover:text-primary-900 disabled:text-gray-300"
+                title="Add type"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Categories</h1>
+            <p className="text-gray-600">
+              Organize expenses into categories and the types within them
+            </p>
+          </div>
+          <button
+            onClick={() => openModal(null)}
+            className="btn btn-primary flex items-center"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Category
+          </button>
+        </div>
+
+        {/* Categories */}
+        {activeCategories.length === 0 ? (
+          <div className="card">
+            <div className="card-body text-center py-12">
+              <Tags className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">
+                No categories
+              </h3>
+              <p className="mt-1 text-sm text-gray-500">
+                Add a category to start organizing your expenses.
+              </p>
+            </div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {activeCategories.map(renderCategory)}
+          </div>
+        )}
+
+        {/* Archived */}
+        {archivedCategories.length > 0 && (
+          <div>
+            <button
+              onClick={() => setShowArchived(!showArchived)}
+              className="text-sm text-gray-600 hover:text-gray-900 flex items-center"
+            >
+              <Archive className="w-4 h-4 mr-2" />
+              {showArchived ? "Hide" : "Show"} archived (
+              {archivedCategories.length})
+            </button>
+            {showArchived && (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mt-4">
+                {archivedCategories.map(renderCategory)}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Add/Edit Modal */}
+        {isModalOpen && (
+          <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg p-6 w-full max-w-md">
+              <h2 className="text-xl font-bold mb-4">
+                {editingCategory ? "Edit Category" : "Add Category"}
+              </h2>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Name *
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) =>
+                      setFormData({ ...formData, name: e.target.value })
+                    }
+                    className="input w-full"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Description
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.description}
+                    onChange={(e) =>
+                      setFormData({ ...formData, description: e.target.value })
+                    }
+                    className="input w-full"
+                  />
+                </div>
+
+                <IconColorPicker
+                  icons={CATEGORY_ICONS}
+                  icon={formData.icon || ""}
+                  color={formData.color || CATEGORY_COLORS[7]}
+                  onIconChange={(icon) => setFormData({ ...formData, icon })}
+                  onColorChange={(color) => setFormData({ ...formData, color })}
+                />
+
+                <div className="flex justify-end space-x-3 pt-4">
+                  <button
+                    type="button"
+                    onClick={closeModal}
+                    className="btn btn-secondary"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={saveMutation.isPending}
+                    className="btn btn-primary"
+                  >
+                    {saveMutation.isPending ? "Saving..." : "Save"}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        )}
+
+        {/* Merge Modal */}
+        {mergingCategory && (
+          <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg p-6 w-full max-w-md">
+              <h2 className="text-xl font-bold mb-4">
+                Merge "{mergingCategory.name}"
+              </h2>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Merge into *
+                  </label>
+                  <select
+                    value={mergeTargetId}
+                    onChange={(e) => setMergeTargetId(e.target.value)}
+                    className="input w-full"
+                  >
+                    <option value="">Select category</option>
+                    {activeCategories
+                      .filter((c) => c.id !== mergingCategory.id)
+                      .map((category) => (
+                        <option key={category.id} value={category.id}>
+                          {category.icon} {category.name}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+                <p className="text-sm text-gray-600">
+                  Every expense, recurring expense, budget line and type in "
+                  {mergingCategory.name}" moves to the chosen category, and "
+                  {mergingCategory.name}" is removed. This cannot be undone.
+                </p>
+                <div className="flex justify-end space-x-3 pt-4">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setMergingCategory(null);
+                      setMergeTargetId("");
+                    }}
+                    className="btn btn-secondary"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleMerge}
+                    disabled={!mergeTargetId || mergeMutation.isPending}
+                    className="btn btn-primary"
+                  >
+                    {mergeMutation.isPending ? "Merging..." : "Merge"}
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
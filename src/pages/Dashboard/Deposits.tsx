@@ -9,6 +9,8 @@ import {
   DollarSign,
   Calendar,
   CreditCard,
+  Lock,
+  Settings2,
 } from "lucide-react";
 import {
   depositsAPI,
@@ -17,27 +19,22 @@ import {
   authAPI,
 } from "../../lib/api";
 import { getAuthToken, getUserId, formatCurrency } from "../../lib/utils";
+import { currencyOf } from "../../lib/currency";
+import { CATEGORY_COLORS, DEPOSIT_TYPE_ICONS } from "../../lib/categories";
+import { applyRules } from "../../lib/rules";
+import { collectTags, hasTag, rememberTags, suggestTags } from "../../lib/tags";
+import {
+  applyPending,
+  runOrQueue,
+  useOfflineQueue,
+} from "../../lib/offlineQueue";
+import type { Deposit } from "../../lib/models";
 import DashboardLayout from "../../layouts/DashboardLayout";
+import SyncBadge from "../../components/SyncBadge";
+import DepositTypeManager from "../../components/DepositTypeManager";
+import TagInput from "../../components/TagInput";
 import dayjs from "dayjs";
 
-interface Deposit {
-  id: string;
-  userId: string;
-  bankAccountId: string;
-  depositTypeId: string;
-  amount: number;
-  note?: string;
-  date: string;
-  bankAccount?: {
-    name: string;
-    bankName: string;
-  };
-  depositType?: {
-    name: string;
-    color?: string;
-  };
-}
-
 interface DepositFormData {
   userId: string;
   bankAccountId: string;
@@ -45,6 +42,8 @@ interface DepositFormData {
   amount: number;
   note?: string;
   date: string;
+  // Rules may add more when a new deposit is saved.
+  tags: string[];
 }
 
 export default function Deposits() {
@@ -52,6 +51,10 @@ export default function Deposits() {
   const [editingDeposit, setEditingDeposit] = useState<Deposit | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedType, setSelectedType] = useState("");
+  const [selectedTag, setSelectedTag] = useState("");
+  const [isTypeManagerOpen, setIsTypeManagerOpen] = useState(false);
+  // Name of a deposit type being added from the deposit form, or null
+  const [newTypeName, setNewTypeName] = useState<string | null>(null);
   const [formData, setFormData] = useState<DepositFormData>({
     userId: "",
     bankAccountId: "",
@@ -59,6 +62,7 @@ export default function Deposits() {
     amount: 0,
     note: "",
     date: new Date().toISOString().split("T")[0],
+    tags: [],
   });
   const queryClient = useQueryClient();
   const [startDate, setStartDate] = useState(
@@ -98,8 +102,6 @@ export default function Deposits() {
     },
   });
 
-  const deposits = depositsResponse?.data || [];
-
   // Get deposit types
   const { data: depositTypesResponse } = useQuery({
     queryKey: ["deposit-types"],
@@ -114,6 +116,13 @@ export default function Deposits() {
 
   const depositTypes = depositTypesResponse?.data || [];
 
+  // An archived type stays selectable on the deposits that already use it
+  const formDepositTypes =
+    editingDeposit?.depositType &&
+    !depositTypes.some((t) => t.id === editingDeposit.depositTypeId)
+      ? [...depositTypes, editingDeposit.depositType]
+      : depositTypes;
+
   // Get bank accounts
   const { data: bankAccountsResponse } = useQuery({
     queryKey: ["bank-accounts"],
@@ -128,27 +137,88 @@ export default function Deposits() {
 
   const bankAccounts = bankAccountsResponse?.data || [];
 
+  // Include changes still waiting in the offline queue
+  const offlineQueue = useOfflineQueue();
+  const deposits = applyPending(
+    depositsResponse?.data || [],
+    offlineQueue,
+    "deposit",
+    (id, payload): Deposit => ({
+      ...payload,
+      id,
+      date: String(payload.date),
+      createdAt: String(payload.date),
+      updatedAt: String(payload.date),
+      depositType: depositTypes.find((t) => t.id === payload.depositTypeId),
+      bankAccount: bankAccounts.find((a) => a.id === payload.bankAccountId),
+    })
+  );
+
   // Create/Update mutation
   const createMutation = useMutation({
     mutationFn: (data: DepositFormData) => {
       if (editingDeposit) {
-        return depositsAPI.update(editingDeposit.id, data);
+        return runOrQueue(
+          {
+            entity: "deposit",
+            action: "update",
+            targetId: editingDeposit.id,
+            payload: { ...data },
+          },
+          () => depositsAPI.update(editingDeposit.id, data)
+        );
       }
-      return depositsAPI.create(data);
+      return runOrQueue(
+        { entity: "deposit", action: "create", payload: { ...data } },
+        () => depositsAPI.create(data)
+      );
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["deposits"] });
+      queryClient.invalidateQueries({ queryKey: ["all-deposits"] });
       setIsModalOpen(false);
       setEditingDeposit(null);
       resetForm();
     },
   });
 
+  // Create deposit type mutation, from the deposit form
+  const createTypeMutation = useMutation({
+    mutationFn: (name: string) =>
+      categoriesAPI.createDepositType({
+        name,
+        icon: DEPOSIT_TYPE_ICONS[0],
+        color: CATEGORY_COLORS[4],
+      }),
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ["deposit-types"] });
+      setFormData((prev) => ({ ...prev, depositTypeId: response.data.id }));
+      setNewTypeName(null);
+    },
+    onError: (error) => {
+      alert(error.message || "Failed to create deposit type");
+    },
+  });
+
+  const handleCreateType = () => {
+    const name = newTypeName?.trim();
+    if (!name) return;
+    if (depositTypes.some((t) => t.name.toLowerCase() === name.toLowerCase())) {
+      alert(`A deposit type called "${name}" already exists`);
+      return;
+    }
+    createTypeMutation.mutate(name);
+  };
+
   // Delete mutation
   const deleteMutation = useMutation({
-    mutationFn: (id: string) => depositsAPI.delete(id),
+    mutationFn: (id: string) =>
+      runOrQueue({ entity: "deposit", action: "delete", targetId: id }, () =>
+        depositsAPI.delete(id)
+      ),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["deposits"] });
+      queryClient.invalidateQueries({ queryKey: ["all-deposits"] });
     },
   });
 
@@ -161,15 +231,26 @@ export default function Deposits() {
       amount: 0,
       note: "",
       date: new Date().toISOString().split("T")[0],
+      tags: [],
     });
+    setNewTypeName(null);
   };
 
+  // Rules fill in new deposits only
+  const ruleResult = editingDeposit
+    ? null
+    : applyRules(formData, "deposit", depositTypes);
+  const ruleDepositTypeId = formData.depositTypeId
+    ? ""
+    : ruleResult?.subject.depositTypeId || "";
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    const input = ruleResult ? ruleResult.subject : formData;
     if (
-      !formData.bankAccountId ||
-      !formData.depositTypeId ||
-      Number(formData.amount) <= 0
+      !input.bankAccountId ||
+      !input.depositTypeId ||
+      Number(input.amount) <= 0
     ) {
       alert("Please fill in all required fields");
       return;
@@ -177,14 +258,22 @@ export default function Deposits() {
 
     // Convert date to ISO format for the backend
     const submissionData = {
-      ...formData,
-      date: new Date(formData.date).toISOString(),
+      ...input,
+      date: new Date(input.date).toISOString(),
     };
 
     createMutation.mutate(submissionData);
   };
 
+  // Reconciled deposits match a bank statement; changing them needs a confirm.
+  const confirmReconciledChange = (deposit: Deposit) =>
+    !deposit.reconciledAt ||
+    window.confirm(
+      "This deposit has been reconciled with a bank statement. Change it anyway?"
+    );
+
   const handleEdit = (deposit: Deposit) => {
+    if (!confirmReconciledChange(deposit)) return;
     setEditingDeposit(deposit);
     setFormData({
       userId: deposit.userId,
@@ -193,20 +282,35 @@ export default function Deposits() {
       amount: deposit.amount,
       note: deposit.note || "",
       date: new Date(deposit.date).toISOString().split("T")[0],
+      tags: deposit.tags || [],
     });
     setIsModalOpen(true);
   };
 
-  const handleDelete = (id: string) => {
+  const handleDelete = (deposit: Deposit) => {
+    if (!confirmReconciledChange(deposit)) return;
     if (window.confirm("Are you sure you want to delete this deposit?")) {
-      deleteMutation.mutate(id);
+      deleteMutation.mutate(deposit.id);
     }
   };
 
+  const tagSuggestions = suggestTags("deposit", deposits);
+  const listTags = collectTags(deposits).sort();
+
+  // Remembered so other periods can suggest them
+  const loadedTags = listTags.join(",");
+  useEffect(() => {
+    rememberTags("deposit", loadedTags.split(",").filter(Boolean));
+  }, [loadedTags]);
+
   const filteredDeposits = deposits.filter(
     (deposit: Deposit) =>
-      deposit.note?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      deposit.depositType?.name.toLowerCase().includes(searchTerm.toLowerCase())
+      (!selectedTag || hasTag(deposit, selectedTag)) &&
+      (deposit.note?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        deposit.depositType?.name
+          .toLowerCase()
+          .includes(searchTerm.toLowerCase()) ||
+        deposit.tags?.some((tag) => tag.includes(searchTerm.toLowerCase())))
   );
 
   const totalDeposits = filteredDeposits.reduce(
@@ -247,17 +351,26 @@ export default function Deposits() {
             <h1 className="text-2xl font-bold text-gray-900">Deposits</h1>
             <p className="text-gray-600">Track your income and deposits</p>
           </div>
-          <button
-            onClick={() => {
-              setEditingDeposit(null);
-              resetForm();
-              setIsModalOpen(true);
-            }}
-            className="btn btn-primary flex items-center"
-          >
-            <Plus className="w-4 h-4 mr-2" />
-            Add Deposit
-          </button>
+          <div className="flex space-x-3">
+            <button
+              onClick={() => setIsTypeManagerOpen(true)}
+              className="btn btn-secondary flex items-center"
+            >
+              <Settings2 className="w-4 h-4 mr-2" />
+              Manage Types
+            </button>
+            <button
+              onClick={() => {
+                setEditingDeposit(null);
+                resetForm();
+                setIsModalOpen(true);
+              }}
+              className="btn btn-primary flex items-center"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Deposit
+            </button>
+          </div>
         </div>
 
         {/* Stats */}
@@ -355,7 +468,7 @@ export default function Deposits() {
                   className="input w-full pl-10 pr-10 appearance-none bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-colors"
                 >
                   <option value="">All Types</option>
-                  {depositTypes.map((type: any) => (
+                  {depositTypes.map((type) => (
                     <option key={type.id} value={type.id}>
                       {type.icon ? `${type.icon} ` : ""}
                       {type.name}
@@ -381,6 +494,22 @@ export default function Deposits() {
                   </svg>
                 </div>
               </div>
+              {(listTags.length > 0 || selectedTag) && (
+                <div className="sm:w-48">
+                  <select
+                    value={selectedTag}
+                    onChange={(e) => setSelectedTag(e.target.value)}
+                    className="input w-full"
+                  >
+                    <option value="">All Tags</option>
+                    {listTags.map((tag) => (
+                      <option key={tag} value={tag}>
+                        #{tag}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -442,13 +571,33 @@ export default function Deposits() {
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
-                    {filteredDeposits.map((deposit: Deposit) => (
+                    {filteredDeposits.map((deposit) => (
                       <tr key={deposit.id} className="hover:bg-gray-50">
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                           {new Date(deposit.date).toLocaleDateString()}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                           {deposit.note || "No description"}
+                          {deposit.reconciledAt && (
+                            <span title="Reconciled">
+                              <Lock className="inline w-3 h-3 ml-2 text-gray-400" />
+                            </span>
+                          )}
+                          <SyncBadge state={deposit.syncState} />
+                          {deposit.tags && deposit.tags.length > 0 && (
+                            <div className="mt-1 flex flex-wrap gap-1">
+                              {deposit.tags.map((tag) => (
+                                <button
+                                  key={tag}
+                                  onClick={() => setSelectedTag(tag)}
+                                  className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+                                  title="Show deposits with this tag"
+                                >
+                                  #{tag}
+                                </button>
+                              ))}
+                            </div>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                           {deposit.depositType?.name || "Unknown"}
@@ -457,7 +606,16 @@ export default function Deposits() {
                           {deposit.bankAccount?.name || "Unknown"}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-success-600">
-                          +{formatCurrency(deposit.amount)}
+                          +
+                          {formatCurrency(
+                            deposit.amount,
+                            currencyOf(
+                              bankAccounts.find(
+                                (account) =>
+                                  account.id === deposit.bankAccountId
+                              )
+                            )
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                           <button
@@ -467,7 +625,7 @@ export default function Deposits() {
                             <Edit className="w-4 h-4" />
                           </button>
                           <button
-                            onClick={() => handleDelete(deposit.id)}
+                            onClick={() => handleDelete(deposit)}
                             className="text-danger-600 hover:text-danger-900"
                           >
                             <Trash2 className="w-4 h-4" />
@@ -482,6 +640,11 @@ export default function Deposits() {
           </div>
         </div>
 
+        {/* Deposit Type Manager */}
+        {isTypeManagerOpen && (
+          <DepositTypeManager onClose={() => setIsTypeManagerOpen(false)} />
+        )}
+
         {/* Add/Edit Modal */}
         {isModalOpen && (
           <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -527,46 +690,114 @@ export default function Deposits() {
 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Deposit Type *
+                    Tags
                   </label>
-                  <div className="relative">
-                    <select
-                      value={formData.depositTypeId}
-                      onChange={(e) =>
-                        setFormData({
-                          ...formData,
-                          depositTypeId: e.target.value,
-                        })
-                      }
-                      className="input w-full pl-10 pr-10 appearance-none bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-colors"
-                      required
-                    >
-                      <option value="">Select type</option>
-                      {depositTypes.map((type: any) => (
-                        <option key={type.id} value={type.id}>
-                          {type.name}
-                        </option>
-                      ))}
-                    </select>
-                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                      <span className="text-gray-400">💳</span>
+                  <TagInput
+                    tags={formData.tags}
+                    suggestions={tagSuggestions}
+                    onChange={(tags) => setFormData({ ...formData, tags })}
+                    placeholder="e.g. reimbursable, project-x"
+                  />
+                </div>
+
+                <div>
+                  <div className="flex items-center justify-between mb-1">
+                    <label className="block text-sm font-medium text-gray-700">
+                      Deposit Type *
+                    </label>
+                    {newTypeName === null && (
+                      <button
+                        type="button"
+                        onClick={() => setNewTypeName("")}
+                        className="text-sm text-primary-600 hover:text-primary-900"
+                      >
+                        New type
+                      </button>
+                    )}
+                  </div>
+                  {newTypeName !== null ? (
+                    <div className="flex space-x-2">
+                      <input
+                        type="text"
+                        value={newTypeName}
+                        onChange={(e) => setNewTypeName(e.target.value)}
+                        onKeyDown={(e) => {
+                          // Enter adds the type rather than submitting the deposit
+                          if (e.key === "Enter") {
+                            e.preventDefault();
+                            handleCreateType();
+                          }
+                        }}
+                        className="input flex-1"
+                        placeholder="e.g. Freelance"
+                        autoFocus
+                      />
+                      <button
+                        type="button"
+                        onClick={handleCreateType}
+                        disabled={
+                          !newTypeName.trim() || createTypeMutation.isPending
+                        }
+                        className="btn btn-primary"
+                      >
+                        {createTypeMutation.isPending ? "Adding..." : "Add"}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setNewTypeName(null)}
+                        className="btn btn-secondary"
+                      >
+                        Cancel
+                      </button>
                     </div>
-                    <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
-                      <svg
-                        className="h-5 w-5 text-gray-400"
-                        fill="none"
-                        stroke="currentColor"
-                        viewBox="0 0 24 24"
+                  ) : (
+                    <div className="relative">
+                      <select
+                        value={formData.depositTypeId}
+                        onChange={(e) =>
+                          setFormData({
+                            ...formData,
+                            depositTypeId: e.target.value,
+                          })
+                        }
+                        className="input w-full pl-10 pr-10 appearance-none bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-colors"
+                        required={!ruleDepositTypeId}
                       >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={2}
-                          d="M19 9l-7 7-7-7"
-                        />
-                      </svg>
+                        <option value="">Select type</option>
+                        {formDepositTypes.map((type) => (
+                          <option key={type.id} value={type.id}>
+                            {type.name}
+                          </option>
+                        ))}
+                      </select>
+                      <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                        <span className="text-gray-400">💳</span>
+                      </div>
+                      <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
+                        <svg
+                          className="h-5 w-5 text-gray-400"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M19 9l-7 7-7-7"
+                          />
+                        </svg>
+                      </div>
                     </div>
-                  </div>
+                  )}
+                  {newTypeName === null && ruleDepositTypeId && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Left empty, rules will file this as{" "}
+                      {depositTypes.find((t) => t.id === ruleDepositTypeId)
+                        ?.name || "a type"}
+                      .
+                    </p>
+                  )}
                 </div>
 
                 <div>
@@ -586,7 +817,7 @@ export default function Deposits() {
                       required
                     >
                       <option value="">Select account</option>
-                      {bankAccounts.map((account: any) => (
+                      {bankAccounts.map((account) => (
                         <option key={account.id} value={account.id}>
                           {account.name} - {account.bankName}
                         </option>
@@ -9,55 +9,91 @@ import {
   DollarSign,
   Calendar,
   CreditCard,
+  Lock,
+  Wand2,
+  SlidersHorizontal,
+  ArrowUp,
+  ArrowDown,
+  Save,
+  X,
 } from "lucide-react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import {
   expensesAPI,
   categoriesAPI,
   bankAccountsAPI,
   authAPI,
 } from "../../lib/api";
-import { getAuthToken, getUserId, formatCurrency } from "../../lib/utils";
+import {
+  getAuthToken,
+  getUserId,
+  formatCurrency,
+  dayStart,
+  dayEnd,
+} from "../../lib/utils";
+import { currencyOf } from "../../lib/currency";
+import {
+  applyPending,
+  runOrQueue,
+  useOfflineQueue,
+} from "../../lib/offlineQueue";
+import { isArchived, typesForCategory } from "../../lib/categories";
+import { applyRules, ruleFromExpense } from "../../lib/rules";
+import { collectTags, rememberTags, suggestTags } from "../../lib/tags";
+import {
+  EXPENSE_COLUMNS,
+  activeFilterCount,
+  defaultExpenseView,
+  getSavedViews,
+  filterMatcher,
+  notePatternError,
+  saveViews,
+  sortExpenses,
+  viewFromParams,
+  viewToParams,
+} from "../../lib/expenseFilters";
+import {
+  expenseLines,
+  isSplit,
+  startSplit,
+  toSplitInputs,
+  validateSplits,
+} from "../../lib/splits";
+import type {
+  ExpenseColumn,
+  ExpenseFilter,
+  ExpenseView,
+  SavedExpenseView,
+} from "../../lib/expenseFilters";
+import type {
+  Expense,
+  ExpenseInput,
+  ExpenseSplitInput,
+  RecurringFrequency,
+} from "../../lib/models";
 import DashboardLayout from "../../layouts/DashboardLayout";
+import SyncBadge from "../../components/SyncBadge";
+import SplitLinesEditor from "../../components/SplitLinesEditor";
+import TagInput from "../../components/TagInput";
 import dayjs from "dayjs";
 
-interface Expense {
-  id: string;
-  userId: string;
-  bankAccountId: string;
-  categoryId: string;
-  amount: number;
-  note?: string;
-  date: string;
-  isRecurring: boolean;
-  bankAccount?: {
-    name: string;
-    bankName: string;
-  };
-  category?: {
-    name: string;
-    color?: string;
-    icon?: string;
-  };
-  recurringFrequency?: "daily" | "weekly" | "monthly" | "yearly";
-  recurringExpense?: {
-    frequency: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
-    startDate: string;
-    endDate?: string;
-  };
-}
-
 interface ExpenseFormData {
   userId: string;
   bankAccountId: string;
   categoryId: string;
+  // "" for none; split expenses have no type.
+  expenseTypeId: string;
   amount: number;
   note?: string;
   date: string;
   isRecurring?: boolean;
+  splits: ExpenseSplitInput[];
+  // Rules may add more when a new expense is saved.
+  tags: string[];
 }
 
 interface RecurringExpenseFormData {
-  frequency: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+  frequency: RecurringFrequency;
   startDate: string;
   endDate?: string;
 }
@@ -65,16 +101,17 @@ interface RecurringExpenseFormData {
 export default function Expenses() {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
-  const [searchTerm, setSearchTerm] = useState("");
-  const [selectedCategory, setSelectedCategory] = useState("");
   const [formData, setFormData] = useState<ExpenseFormData>({
     userId: "",
     bankAccountId: "",
     categoryId: "",
+    expenseTypeId: "",
     amount: 0,
     note: "",
     date: new Date().toISOString().split("T")[0],
     isRecurring: false,
+    splits: [],
+    tags: [],
   });
   const [recurringData, setRecurringData] = useState<RecurringExpenseFormData>({
     frequency: "MONTHLY",
@@ -83,12 +120,25 @@ export default function Expenses() {
   });
   const [loading, setLoading] = useState(false);
   const queryClient = useQueryClient();
-  const [startDate, setStartDate] = useState(
-    dayjs().startOf("month").format("YYYY-MM-DD")
-  );
-  const [endDate, setEndDate] = useState(
-    dayjs().endOf("month").format("YYYY-MM-DD")
-  );
+  const navigate = useNavigate();
+  // The filter, sort order and columns live in the URL
+  const [searchParams, setSearchParams] = useSearchParams();
+  const view = viewFromParams(searchParams);
+  const { filter, sort, columns } = view;
+  const [showFilters, setShowFilters] = useState(activeFilterCount(filter) > 0);
+  const [savedViews, setSavedViews] =
+    useState<SavedExpenseView[]>(getSavedViews);
+  // A note pattern from a link runs only once the user applies it; one they
+  // type or pick from their saved views is applied straight away.
+  const [approvedPattern, setApprovedPattern] = useState("");
+
+  const updateView = (changes: Partial<ExpenseView>) => {
+    setSearchParams(viewToParams({ ...view, ...changes }), { replace: true });
+  };
+
+  const updateFilter = (changes: Partial<ExpenseFilter>) => {
+    updateView({ filter: { ...filter, ...changes } });
+  };
 
   // Get current user
   const { data: userData } = useQuery({
@@ -111,7 +161,7 @@ export default function Expenses() {
     isLoading,
     error,
   } = useQuery({
-    queryKey: ["expenses", searchTerm, selectedCategory, startDate, endDate],
+    queryKey: ["expenses", filter.startDate, filter.endDate],
     queryFn: async () => {
       const token = getAuthToken();
       if (!token) throw new Error("No authentication token");
@@ -119,26 +169,60 @@ export default function Expenses() {
       const userId = getUserId();
       if (!userId) throw new Error("No user ID found");
 
-      const response = await expensesAPI.getAll(userId, { startDate, endDate });
+      const response = await expensesAPI.getAll(userId, {
+        startDate: filter.startDate ? dayStart(filter.startDate) : undefined,
+        // Through the end of the day, not its midnight
+        endDate: filter.endDate ? dayEnd(filter.endDate) : undefined,
+      });
       return response;
     },
   });
 
-  const expenses = expensesResponse?.data || [];
-
-  // Get expense categories
+  // Get expense categories, archived ones included so past expenses can
+  // still be filtered by them
   const { data: expenseCategoriesResponse } = useQuery({
-    queryKey: ["expense-categories"],
+    queryKey: ["expense-categories", "all"],
+    queryFn: async () => {
+      const token = getAuthToken();
+      if (!token) throw new Error("No authentication token");
+
+      const response = await categoriesAPI.getExpenseCategories({
+        includeArchived: true,
+      });
+      return response;
+    },
+  });
+
+  const allCategories = expenseCategoriesResponse?.data || [];
+  const expenseCategories = allCategories.filter((c) => !isArchived(c));
+
+  // An archived category stays selectable on the expenses that already use it
+  const editingCategoryIds = editingExpense
+    ? expenseLines(editingExpense).map((line) => line.categoryId)
+    : [];
+  const formCategories = allCategories.filter(
+    (c) => !isArchived(c) || editingCategoryIds.includes(c.id)
+  );
+
+  // Get expense types, the second level under each category
+  const { data: expenseTypesResponse } = useQuery({
+    queryKey: ["expense-types"],
     queryFn: async () => {
       const token = getAuthToken();
       if (!token) throw new Error("No authentication token");
 
-      const response = await categoriesAPI.getExpenseCategories();
+      const response = await categoriesAPI.getExpenseTypes();
       return response;
     },
   });
 
-  const expenseCategories = expenseCategoriesResponse?.data || [];
+  const expenseTypes = expenseTypesResponse?.data || [];
+  const formTypes = typesForCategory(expenseTypes, formData.categoryId);
+  // Types can only be picked once the filter is down to one category
+  const filterTypes = typesForCategory(
+    expenseTypes,
+    filter.categoryIds.length === 1 ? filter.categoryIds[0] : ""
+  );
 
   // Get bank accounts
   const { data: bankAccountsResponse } = useQuery({
@@ -154,16 +238,46 @@ export default function Expenses() {
 
   const bankAccounts = bankAccountsResponse?.data || [];
 
+  // Include changes still waiting in the offline queue
+  const offlineQueue = useOfflineQueue();
+  const expenses = applyPending(
+    expensesResponse?.data || [],
+    offlineQueue,
+    "expense",
+    (id, payload): Expense => ({
+      ...payload,
+      id,
+      date: String(payload.date),
+      isRecurring: !!payload.isRecurring,
+      createdAt: String(payload.date),
+      updatedAt: String(payload.date),
+      category: allCategories.find((c) => c.id === payload.categoryId),
+      bankAccount: bankAccounts.find((a) => a.id === payload.bankAccountId),
+    })
+  );
+
   // Create/Update mutation
   const createMutation = useMutation({
-    mutationFn: (data: ExpenseFormData) => {
+    mutationFn: (data: ExpenseInput) => {
       if (editingExpense) {
-        return expensesAPI.update(editingExpense.id, data);
+        return runOrQueue(
+          {
+            entity: "expense",
+            action: "update",
+            targetId: editingExpense.id,
+            payload: { ...data },
+          },
+          () => expensesAPI.update(editingExpense.id, data)
+        );
       }
-      return expensesAPI.create(data);
+      return runOrQueue(
+        { entity: "expense", action: "create", payload: { ...data } },
+        () => expensesAPI.create(data)
+      );
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["expenses"] });
+      queryClient.invalidateQueries({ queryKey: ["all-expenses"] });
       queryClient.invalidateQueries({ queryKey: ["bank-accounts"] });
       setIsModalOpen(false);
       setEditingExpense(null);
@@ -173,9 +287,13 @@ export default function Expenses() {
 
   // Delete mutation
   const deleteMutation = useMutation({
-    mutationFn: (id: string) => expensesAPI.delete(id),
+    mutationFn: (id: string) =>
+      runOrQueue({ entity: "expense", action: "delete", targetId: id }, () =>
+        expensesAPI.delete(id)
+      ),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["expenses"] });
+      queryClient.invalidateQueries({ queryKey: ["all-expenses"] });
     },
   });
 
@@ -185,10 +303,13 @@ export default function Expenses() {
       userId: userId || "",
       bankAccountId: "",
       categoryId: "",
+      expenseTypeId: "",
       amount: 0,
       note: "",
       date: new Date().toISOString().split("T")[0],
       isRecurring: false,
+      splits: [],
+      tags: [],
     });
     setRecurringData({
       frequency: "MONTHLY",
@@ -197,26 +318,49 @@ export default function Expenses() {
     });
   };
 
+  const isSplitting = formData.splits.length > 0;
+
+  // Rules fill in new expenses only; split lines are categorized by hand.
+  const ruleResult =
+    editingExpense || isSplitting
+      ? null
+      : applyRules(formData, "expense", expenseCategories);
+  const ruleCategoryId = formData.categoryId
+    ? ""
+    : ruleResult?.subject.categoryId || "";
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    const input = ruleResult ? ruleResult.subject : formData;
     if (
-      !formData.bankAccountId ||
-      !formData.categoryId ||
-      formData.amount <= 0
+      !input.bankAccountId ||
+      (!isSplitting && !input.categoryId) ||
+      input.amount <= 0
     ) {
       alert("Please fill in all required fields");
       return;
     }
+    if (isSplitting) {
+      const splitError = validateSplits(input.amount, input.splits);
+      if (splitError) {
+        alert(splitError);
+        return;
+      }
+      if (input.isRecurring) {
+        alert("Split expenses cannot be recurring");
+        return;
+      }
+    }
     setLoading(true);
     try {
       let recurringExpenseId: string | undefined = undefined;
-      if (formData.isRecurring) {
+      if (input.isRecurring) {
         // 1. Create RecurringExpense
         const recurringPayload = {
-          userId: formData.userId,
-          categoryId: formData.categoryId,
-          amount: formData.amount,
-          note: formData.note,
+          userId: input.userId,
+          categoryId: input.categoryId,
+          amount: input.amount,
+          note: input.note,
           frequency: recurringData.frequency,
           startDate: dayjs(recurringData.startDate).toISOString(),
           endDate: recurringData.endDate
@@ -229,36 +373,55 @@ export default function Expenses() {
         if (!data.success)
           throw new Error(data.message || "Failed to create recurring expense");
         recurringExpenseId = data.data.id;
+        queryClient.invalidateQueries({ queryKey: ["recurring-expenses"] });
       }
-      // 2. Create Expense
+      // 2. Create Expense. A split keeps its first line as the category;
+      // an empty list is only sent to clear an existing split.
+      const { splits, ...fields } = input;
       const submissionData = {
-        ...formData,
-        date: new Date(formData.date).toISOString(),
-        isRecurring: !!formData.isRecurring,
+        ...fields,
+        categoryId: isSplitting ? splits[0].categoryId : fields.categoryId,
+        // null clears the type when editing
+        expenseTypeId: (!isSplitting && fields.expenseTypeId) || null,
+        date: new Date(input.date).toISOString(),
+        isRecurring: !!input.isRecurring,
         recurringExpenseId,
+        ...(isSplitting || (editingExpense && isSplit(editingExpense))
+          ? { splits }
+          : {}),
       };
       await createMutation.mutateAsync(submissionData);
-    } catch (err: any) {
-      alert(err.message || "Failed to create expense");
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to create expense");
     } finally {
       setLoading(false);
     }
   };
 
+  // Reconciled expenses match a bank statement; changing them needs a confirm.
+  const confirmReconciledChange = (expense: Expense) =>
+    !expense.reconciledAt ||
+    window.confirm(
+      "This expense has been reconciled with a bank statement. Change it anyway?"
+    );
+
   const handleEdit = (expense: Expense) => {
+    if (!confirmReconciledChange(expense)) return;
     setEditingExpense(expense);
     setFormData({
       userId: expense.userId,
       bankAccountId: expense.bankAccountId,
       categoryId: expense.categoryId,
+      expenseTypeId: expense.expenseTypeId || "",
       amount: expense.amount,
       note: expense.note || "",
       date: new Date(expense.date).toISOString().split("T")[0],
       isRecurring: expense.isRecurring,
+      splits: toSplitInputs(expense.splits),
+      tags: expense.tags || [],
     });
     setRecurringData({
-      frequency: (expense.recurringExpense?.frequency ||
-        "MONTHLY") as RecurringExpenseFormData["frequency"],
+      frequency: expense.recurringExpense?.frequency || "MONTHLY",
       startDate: expense.recurringExpense?.startDate
         ? new Date(expense.recurringExpense.startDate)
             .toISOString()
@@ -271,23 +434,130 @@ export default function Expenses() {
     setIsModalOpen(true);
   };
 
-  const handleDelete = (id: string) => {
+  const handleDelete = (expense: Expense) => {
+    if (!confirmReconciledChange(expense)) return;
     if (window.confirm("Are you sure you want to delete this expense?")) {
-      deleteMutation.mutate(id);
+      deleteMutation.mutate(expense.id);
     }
   };
 
-  const filteredExpenses = expenses.filter((expense: Expense) => {
-    // If no search term, show all expenses
-    if (!searchTerm) return true;
+  const categoryName = (categoryId: string) =>
+    allCategories.find((c) => c.id === categoryId)?.name;
 
-    // Check if search term matches note or category name
-    const searchLower = searchTerm.toLowerCase();
-    return (
-      expense.note?.toLowerCase().includes(searchLower) ||
-      expense.category?.name?.toLowerCase().includes(searchLower)
+  // Category names of every line, so split expenses show all of theirs
+  const lineCategoryNames = (expense: Expense) =>
+    expenseLines(expense).map(
+      (line) =>
+        line.category?.name || categoryName(line.categoryId) || "Unknown"
     );
-  });
+
+  const typeName = (expense: Expense) =>
+    expense.expenseTypeId
+      ? expense.expenseType?.name ||
+        expenseTypes.find((t) => t.id === expense.expenseTypeId)?.name
+      : undefined;
+
+  const tagSuggestions = suggestTags("expense", expenses);
+  const listTags = collectTags(expenses).sort();
+
+  // Remembered so other periods can suggest them
+  const loadedTags = listTags.join(",");
+  useEffect(() => {
+    rememberTags("expense", loadedTags.split(",").filter(Boolean));
+  }, [loadedTags]);
+
+  const sortValue = (expense: Expense, column: ExpenseColumn) => {
+    switch (column) {
+      case "date":
+        return dayjs(expense.date).valueOf();
+      case "description":
+        return expense.note || "";
+      case "category":
+        return lineCategoryNames(expense).join(", ");
+      case "account":
+        return expense.bankAccount?.name || "";
+      case "amount":
+        return Number(expense.amount);
+    }
+  };
+
+  const patternPending =
+    !!filter.noteRegex && filter.noteRegex !== approvedPattern;
+  const matchesView = filterMatcher(
+    patternPending ? { ...filter, noteRegex: "" } : filter
+  );
+
+  const filteredExpenses = sortExpenses(
+    expenses.filter((expense: Expense) => {
+      if (!matchesView(expense)) return false;
+
+      // If no search term, show all expenses
+      if (!filter.search) return true;
+
+      // Check if search term matches note, category name or a tag
+      const searchLower = filter.search.toLowerCase();
+      return (
+        expense.note?.toLowerCase().includes(searchLower) ||
+        expense.tags?.some((tag) => tag.includes(searchLower)) ||
+        typeName(expense)?.toLowerCase().includes(searchLower) ||
+        lineCategoryNames(expense).some((name) =>
+          name.toLowerCase().includes(searchLower)
+        )
+      );
+    }),
+    sort,
+    sortValue
+  );
+
+  const toggleSort = (column: ExpenseColumn) => {
+    updateView({
+      sort: {
+        column,
+        direction:
+          sort.column === column && sort.direction === "desc" ? "asc" : "desc",
+      },
+    });
+  };
+
+  const toggleListValue = (list: string[], value: string) =>
+    list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+  // A saved view is active when the URL holds exactly its query
+  const currentQuery = viewToParams(view).toString();
+  const activeView = savedViews.find((v) => v.query === currentQuery);
+
+  const handleSaveView = () => {
+    const name = window.prompt("Name this view", activeView?.name || "");
+    if (!name?.trim()) return;
+    const existing = savedViews.find(
+      (v) => v.name.toLowerCase() === name.trim().toLowerCase()
+    );
+    if (existing && !window.confirm(`Replace the view "${existing.name}"?`)) {
+      return;
+    }
+    const saved: SavedExpenseView = {
+      id: existing?.id || crypto.randomUUID(),
+      name: name.trim(),
+      query: currentQuery,
+    };
+    const next = existing
+      ? savedViews.map((v) => (v.id === existing.id ? saved : v))
+      : [...savedViews, saved];
+    setSavedViews(next);
+    saveViews(next);
+  };
+
+  const handleDeleteView = (saved: SavedExpenseView) => {
+    if (!window.confirm(`Delete the view "${saved.name}"?`)) return;
+    const next = savedViews.filter((v) => v.id !== saved.id);
+    setSavedViews(next);
+    saveViews(next);
+  };
+
+  const patternError = filter.noteRegex
+    ? notePatternError(filter.noteRegex)
+    : null;
+  const filterCount = activeFilterCount(filter);
 
   const totalExpenses = filteredExpenses.reduce(
     (sum: number, expense: Expense) => Number(sum) + Number(expense.amount),
@@ -308,7 +578,7 @@ export default function Expenses() {
     0
   );
 
-  if (isLoading && !searchTerm?.length) {
+  if (isLoading && !filter.search) {
     return (
       <DashboardLayout>
         <div className="flex items-center justify-center h-64">
@@ -415,22 +685,38 @@ export default function Expenses() {
               <label className="text-sm font-medium text-gray-700">From</label>
               <input
                 type="date"
-                value={startDate}
-                onChange={(e) => setStartDate(e.target.value)}
+                value={filter.startDate}
+                onChange={(e) =>
+                  updateFilter({ period: "custom", startDate: e.target.value })
+                }
                 className="input w-full"
-                max={endDate}
+                max={filter.endDate}
               />
             </div>
             <div className="flex items-center gap-2">
               <label className="text-sm font-medium text-gray-700">To</label>
               <input
                 type="date"
-                value={endDate}
-                onChange={(e) => setEndDate(e.target.value)}
+                value={filter.endDate}
+                onChange={(e) =>
+                  updateFilter({ period: "custom", endDate: e.target.value })
+                }
                 className="input w-full"
-                min={startDate}
+                min={filter.startDate}
               />
             </div>
+            {filter.period === "custom" && (
+              <button
+                onClick={() => {
+                  const { period, startDate, endDate } =
+                    defaultExpenseView().filter;
+                  updateFilter({ period, startDate, endDate });
+                }}
+                className="text-sm text-primary-600 hover:text-primary-900"
+              >
+                This month
+              </button>
+            )}
           </div>
         </div>
 
@@ -443,55 +729,350 @@ export default function Expenses() {
                   <input
                     type="text"
                     placeholder="Search expenses..."
-                    value={searchTerm}
-                    onChange={(e) => setSearchTerm(e.target.value)}
+                    value={filter.search}
+                    onChange={(e) => updateFilter({ search: e.target.value })}
                     className="input pl-10"
                   />
                 </div>
               </div>
-              <div className="sm:w-48 relative">
-                <select
-                  value={selectedCategory}
-                  onChange={(e) => setSelectedCategory(e.target.value)}
-                  className="input w-full pl-10 pr-10 appearance-none bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-colors"
-                >
-                  <option value="">All Categories</option>
-                  {expenseCategories.map((category: any) => (
-                    <option key={category.id} value={category.id}>
-                      {category.icon ? `${category.icon} ` : ""}
-                      {category.name}
-                    </option>
-                  ))}
-                </select>
-                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                  <span className="text-gray-400">🏷️</span>
+              <button
+                onClick={() => setShowFilters(!showFilters)}
+                className="btn btn-secondary flex items-center justify-center"
+              >
+                <SlidersHorizontal className="w-4 h-4 mr-2" />
+                Filters
+                {filterCount > 0 && (
+                  <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-primary-100 text-primary-800">
+                    {filterCount}
+                  </span>
+                )}
+              </button>
+              {filterTypes.length > 0 && (
+                <div className="sm:w-48">
+                  <select
+                    value={filter.expenseTypeId}
+                    onChange={(e) =>
+                      updateFilter({ expenseTypeId: e.target.value })
+                    }
+                    className="input w-full"
+                  >
+                    <option value="">All Types</option>
+                    {filterTypes.map((type) => (
+                      <option key={type.id} value={type.id}>
+                        {type.name}
+                      </option>
+                    ))}
+                  </select>
                 </div>
-                <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
-                  <svg
-                    className="h-5 w-5 text-gray-400"
-                    fill="none"
-                    stroke="currentColor"
-                    viewBox="0 0 24 24"
+              )}
+              {(listTags.length > 0 || filter.tag) && (
+                <div className="sm:w-48">
+                  <select
+                    value={filter.tag}
+                    onChange={(e) => updateFilter({ tag: e.target.value })}
+                    className="input w-full"
                   >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M19 9l-7 7-7-7"
+                    <option value="">All Tags</option>
+                    {listTags.map((tag) => (
+                      <option key={tag} value={tag}>
+                        #{tag}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+
+            {showFilters && (
+              <div className="mt-4 pt-4 border-t border-gray-200 space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Categories
+                  </label>
+                  <div className="flex flex-wrap gap-2">
+                    {allCategories.map((category) => (
+                      <button
+                        key={category.id}
+                        onClick={() =>
+                          updateFilter({
+                            categoryIds: toggleListValue(
+                              filter.categoryIds,
+                              category.id
+                            ),
+                            expenseTypeId: "",
+                          })
+                        }
+                        className={`px-3 py-1 rounded-full text-sm ${
+                          filter.categoryIds.includes(category.id)
+                            ? "bg-primary-600 text-white"
+                            : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                        }`}
+                      >
+                        {category.icon ? `${category.icon} ` : ""}
+                        {category.name}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Accounts
+                  </label>
+                  <div className="flex flex-wrap gap-2">
+                    {bankAccounts.map((account) => (
+                      <button
+                        key={account.id}
+                        onClick={() =>
+                          updateFilter({
+                            bankAccountIds: toggleListValue(
+                              filter.bankAccountIds,
+                              account.id
+                            ),
+                          })
+                        }
+                        className={`px-3 py-1 rounded-full text-sm ${
+                          filter.bankAccountIds.includes(account.id)
+                            ? "bg-primary-600 text-white"
+                            : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                        }`}
+                      >
+                        {account.name}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Amount from
+                    </label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={filter.minAmount ?? ""}
+                      onChange={(e) =>
+                        updateFilter({
+                          minAmount:
+                            e.target.value === ""
+                              ? null
+                              : Number(e.target.value),
+                        })
+                      }
+                      className="input w-full"
                     />
-                  </svg>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Amount to
+                    </label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={filter.maxAmount ?? ""}
+                      onChange={(e) =>
+                        updateFilter({
+                          maxAmount:
+                            e.target.value === ""
+                              ? null
+                              : Number(e.target.value),
+                        })
+                      }
+                      className="input w-full"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Recurring
+                    </label>
+                    <select
+                      value={filter.recurring}
+                      onChange={(e) =>
+                        updateFilter({
+                          recurring: e.target
+                            .value as ExpenseFilter["recurring"],
+                        })
+                      }
+                      className="input w-full"
+                    >
+                      <option value="all">Recurring and one-off</option>
+                      <option value="recurring">Recurring only</option>
+                      <option value="oneOff">One-off only</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Receipt
+                    </label>
+                    <select
+                      value={filter.receipt}
+                      onChange={(e) =>
+                        updateFilter({
+                          receipt: e.target.value as ExpenseFilter["receipt"],
+                        })
+                      }
+                      className="input w-full"
+                    >
+                      <option value="all">With or without</option>
+                      <option value="with">Has a receipt</option>
+                      <option value="without">No receipt</option>
+                    </select>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Note contains
+                    </label>
+                    <input
+                      type="text"
+                      value={filter.noteContains}
+                      onChange={(e) =>
+                        updateFilter({ noteContains: e.target.value })
+                      }
+                      className="input w-full"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Note matches pattern
+                    </label>
+                    <input
+                      type="text"
+                      value={filter.noteRegex}
+                      onChange={(e) => {
+                        setApprovedPattern(e.target.value);
+                        updateFilter({ noteRegex: e.target.value });
+                      }}
+                      className="input w-full font-mono"
+                      placeholder="e.g. ^uber|ola"
+                    />
+                    {patternError && (
+                      <p className="text-xs text-danger-600 mt-1">
+                        {patternError}. The pattern is ignored until it is
+                        fixed.
+                      </p>
+                    )}
+                    {patternPending && !patternError && (
+                      <p className="text-xs text-warning-600 mt-1">
+                        This pattern came with the link and is not applied yet.
+                        Some patterns can freeze the page, so only apply it if
+                        you trust the link.{" "}
+                        <button
+                          onClick={() => setApprovedPattern(filter.noteRegex)}
+                          className="text-primary-600 hover:text-primary-900"
+                        >
+                          Apply it
+                        </button>
+                      </p>
+                    )}
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Columns
+                  </label>
+                  <div className="flex flex-wrap gap-4">
+                    {EXPENSE_COLUMNS.map((column) => (
+                      <label
+                        key={column.id}
+                        className="flex items-center text-sm text-gray-700"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={columns.includes(column.id)}
+                          // At least one column stays visible
+                          disabled={
+                            columns.length === 1 && columns.includes(column.id)
+                          }
+                          onChange={() =>
+                            updateView({
+                              columns: columns.includes(column.id)
+                                ? columns.filter((c) => c !== column.id)
+                                : [...columns, column.id],
+                            })
+                          }
+                          className="mr-2"
+                        />
+                        {column.label}
+                      </label>
+                    ))}
+                  </div>
                 </div>
+
+                {filterCount > 0 && (
+                  <button
+                    onClick={() =>
+                      updateFilter({
+                        ...defaultExpenseView().filter,
+                        period: filter.period,
+                        startDate: filter.startDate,
+                        endDate: filter.endDate,
+                        search: filter.search,
+                      })
+                    }
+                    className="text-sm text-gray-600 hover:text-gray-900"
+                  >
+                    Clear filters
+                  </button>
+                )}
               </div>
-            </div>
+            )}
           </div>
         </div>
 
         {/* Expenses List */}
         <div className="card">
-          <div className="card-header">
+          <div className="card-header flex justify-between items-center">
             <h3 className="text-lg font-medium text-gray-900">
-              Recent Expenses
+              {activeView ? activeView.name : "Recent Expenses"}
             </h3>
+            <div className="flex items-center space-x-3">
+              {savedViews.length > 0 && (
+                <select
+                  value={activeView?.id || ""}
+                  onChange={(e) => {
+                    const saved = savedViews.find(
+                      (v) => v.id === e.target.value
+                    );
+                    const params = new URLSearchParams(saved?.query || "");
+                    setApprovedPattern(viewFromParams(params).filter.noteRegex);
+                    setSearchParams(params);
+                  }}
+                  className="input py-1 text-sm"
+                >
+                  <option value="">
+                    {currentQuery ? "Unsaved view" : "Default view"}
+                  </option>
+                  {savedViews.map((saved) => (
+                    <option key={saved.id} value={saved.id}>
+                      {saved.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <button
+                onClick={handleSaveView}
+                className="text-primary-600 hover:text-primary-900 text-sm font-medium flex items-center"
+              >
+                <Save className="w-4 h-4 mr-1" />
+                Save View
+              </button>
+              {activeView && (
+                <button
+                  onClick={() => handleDeleteView(activeView)}
+                  className="text-gray-400 hover:text-danger-600"
+                  title="Delete view"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
           </div>
           <div className="card-body">
             {filteredExpenses.length === 0 ? (
@@ -513,10 +1094,10 @@ export default function Expenses() {
                       Raw expenses count: {expenses.length}
                     </p>
                     <p className="text-xs text-gray-600">
-                      Search term: "{searchTerm}"
+                      Search term: "{filter.search}"
                     </p>
                     <p className="text-xs text-gray-600">
-                      Selected category: "{selectedCategory}"
+                      Active filters: {filterCount}
                     </p>
                     <p className="text-xs text-gray-600">
                       Filtered count: {filteredExpenses.length}
@@ -542,44 +1123,103 @@ export default function Expenses() {
                 <table className="min-w-full divide-y divide-gray-200">
                   <thead className="bg-gray-50">
                     <tr>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Date
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Description
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Category
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Account
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Amount
-                      </th>
+                      {EXPENSE_COLUMNS.filter((column) =>
+                        columns.includes(column.id)
+                      ).map((column) => (
+                        <th
+                          key={column.id}
+                          className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                        >
+                          <button
+                            onClick={() => toggleSort(column.id)}
+                            className="flex items-center uppercase tracking-wider hover:text-gray-900"
+                          >
+                            {column.label}
+                            {sort.column === column.id &&
+                              (sort.direction === "asc" ? (
+                                <ArrowUp className="w-3 h-3 ml-1" />
+                              ) : (
+                                <ArrowDown className="w-3 h-3 ml-1" />
+                              ))}
+                          </button>
+                        </th>
+                      ))}
                       <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Actions
                       </th>
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
-                    {filteredExpenses.map((expense: Expense) => (
+                    {filteredExpenses.map((expense) => (
                       <tr key={expense.id} className="hover:bg-gray-50">
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                          {new Date(expense.date).toLocaleDateString()}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                          {expense.note || "No description"}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                          {expense.category?.name || "Unknown"}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                          {expense.bankAccount?.name || "Unknown"}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-danger-600">
-                          -{formatCurrency(expense.amount)}
-                        </td>
+                        {columns.includes("date") && (
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {new Date(expense.date).toLocaleDateString()}
+                          </td>
+                        )}
+                        {columns.includes("description") && (
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {expense.note || "No description"}
+                            {expense.reconciledAt && (
+                              <span title="Reconciled">
+                                <Lock className="inline w-3 h-3 ml-2 text-gray-400" />
+                              </span>
+                            )}
+                            <SyncBadge state={expense.syncState} />
+                            {expense.tags && expense.tags.length > 0 && (
+                              <div className="mt-1 flex flex-wrap gap-1">
+                                {expense.tags.map((tag) => (
+                                  <button
+                                    key={tag}
+                                    onClick={() => updateFilter({ tag })}
+                                    className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+                                    title="Show expenses with this tag"
+                                  >
+                                    #{tag}
+                                  </button>
+                                ))}
+                              </div>
+                            )}
+                          </td>
+                        )}
+                        {columns.includes("category") && (
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {isSplit(expense) ? (
+                              <span
+                                title={lineCategoryNames(expense).join(", ")}
+                              >
+                                <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-primary-100 text-primary-800 mr-1">
+                                  Split
+                                </span>
+                                {lineCategoryNames(expense).join(", ")}
+                              </span>
+                            ) : (
+                              <>
+                                {expense.category?.name || "Unknown"}
+                                {typeName(expense) && (
+                                  <span className="text-gray-500">
+                                    {" "}
+                                    › {typeName(expense)}
+                                  </span>
+                                )}
+                              </>
+                            )}
+                          </td>
+                        )}
+                        {columns.includes("account") && (
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {expense.bankAccount?.name || "Unknown"}
+                          </td>
+                        )}
+                        {columns.includes("amount") && (
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-danger-600">
+                            -
+                            {formatCurrency(
+                              expense.amount,
+                              currencyOf(expense.bankAccount)
+                            )}
+                          </td>
+                        )}
                         <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                           <button
                             onClick={() => handleEdit(expense)}
@@ -588,7 +1228,18 @@ export default function Expenses() {
                             <Edit className="w-4 h-4" />
                           </button>
                           <button
-                            onClick={() => handleDelete(expense.id)}
+                            onClick={() =>
+                              navigate("/dashboard/rules", {
+                                state: { draft: ruleFromExpense(expense) },
+                              })
+                            }
+                            className="text-gray-600 hover:text-gray-900 mr-3"
+                            title="Create rule from this expense"
+                          >
+                            <Wand2 className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(expense)}
                             className="text-danger-600 hover:text-danger-900"
                           >
                             <Trash2 className="w-4 h-4" />
@@ -606,7 +1257,11 @@ export default function Expenses() {
         {/* Add/Edit Modal */}
         {isModalOpen && (
           <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
-            <div className="bg-white rounded-lg p-6 w-full max-w-md">
+            <div
+              className={`bg-white rounded-lg p-6 w-full ${
+                isSplitting ? "max-w-2xl" : "max-w-md"
+              }`}
+            >
               <h2 className="text-xl font-bold mb-4">
                 {editingExpense ? "Edit Expense" : "Add Expense"}
               </h2>
@@ -648,53 +1303,135 @@ export default function Expenses() {
 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Category *
+                    Tags
                   </label>
-                  <div className="relative">
+                  <TagInput
+                    tags={formData.tags}
+                    suggestions={tagSuggestions}
+                    onChange={(tags) => setFormData({ ...formData, tags })}
+                    placeholder="e.g. vacation-2026, reimbursable"
+                  />
+                </div>
+
+                <div>
+                  <div className="flex items-center justify-between mb-1">
+                    <label className="block text-sm font-medium text-gray-700">
+                      {isSplitting ? "Categories *" : "Category *"}
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setFormData({
+                          ...formData,
+                          categoryId: isSplitting
+                            ? formData.splits[0].categoryId
+                            : formData.categoryId,
+                          expenseTypeId: "",
+                          splits: isSplitting
+                            ? []
+                            : startSplit(formData.amount, formData.categoryId),
+                        })
+                      }
+                      className="text-sm text-primary-600 hover:text-primary-900"
+                    >
+                      {isSplitting
+                        ? "Use one category"
+                        : "Split across categories"}
+                    </button>
+                  </div>
+                  {isSplitting ? (
+                    <SplitLinesEditor
+                      total={formData.amount}
+                      currency={currencyOf(
+                        bankAccounts.find(
+                          (a) => a.id === formData.bankAccountId
+                        )
+                      )}
+                      lines={formData.splits}
+                      categories={formCategories}
+                      onChange={(splits) =>
+                        setFormData({ ...formData, splits })
+                      }
+                    />
+                  ) : (
+                    <div className="relative">
+                      <select
+                        value={formData.categoryId}
+                        onChange={(e) =>
+                          setFormData({
+                            ...formData,
+                            categoryId: e.target.value,
+                            expenseTypeId: "",
+                          })
+                        }
+                        className="input w-full pl-10 pr-10 appearance-none bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-colors"
+                        required={!ruleCategoryId}
+                      >
+                        <option value="">Select category</option>
+                        {formCategories.map((category) => (
+                          <option key={category.id} value={category.id}>
+                            {category.icon} {category.name}
+                          </option>
+                        ))}
+                      </select>
+                      <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                        <span className="text-gray-400">
+                          {formData.categoryId
+                            ? formCategories.find(
+                                (c) => c.id === formData.categoryId
+                              )?.icon || "📝"
+                            : "📝"}
+                        </span>
+                      </div>
+                      <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
+                        <svg
+                          className="h-5 w-5 text-gray-400"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M19 9l-7 7-7-7"
+                          />
+                        </svg>
+                      </div>
+                    </div>
+                  )}
+                  {ruleCategoryId && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Left empty, rules will file this under{" "}
+                      {categoryName(ruleCategoryId) || "a category"}.
+                    </p>
+                  )}
+                </div>
+
+                {!isSplitting && formTypes.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Type
+                    </label>
                     <select
-                      value={formData.categoryId}
+                      value={formData.expenseTypeId}
                       onChange={(e) =>
                         setFormData({
                           ...formData,
-                          categoryId: e.target.value,
+                          expenseTypeId: e.target.value,
                         })
                       }
-                      className="input w-full pl-10 pr-10 appearance-none bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-colors"
-                      required
+                      className="input w-full"
                     >
-                      <option value="">Select category</option>
-                      {expenseCategories.map((category: any) => (
-                        <option key={category.id} value={category.id}>
-                          {category.icon} {category.name}
+                      <option value="">No type</option>
+                      {formTypes.map((type) => (
+                        <option key={type.id} value={type.id}>
+                          {type.name}
                         </option>
                       ))}
                     </select>
-                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                      <span className="text-gray-400">
-                        {formData.categoryId
-                          ? expenseCategories.find(
-                              (c: any) => c.id === formData.categoryId
-                            )?.icon || "📝"
-                          : "📝"}
-                      </span>
-                    </div>
-                    <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
-                      <svg
-                        className="h-5 w-5 text-gray-400"
-                        fill="none"
-                        stroke="currentColor"
-                        viewBox="0 0 24 24"
-                      >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={2}
-                          d="M19 9l-7 7-7-7"
-                        />
-                      </svg>
-                    </div>
                   </div>
-                </div>
+                )}
 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -713,7 +1450,7 @@ export default function Expenses() {
                       required
                     >
                       <option value="">Select account</option>
-                      {bankAccounts.map((account: any) => (
+                      {bankAccounts.map((account) => (
                         <option key={account.id} value={account.id}>
                           {account.name} - {account.bankName}
                         </option>
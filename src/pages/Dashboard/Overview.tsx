@@ -1,5 +1,6 @@
 import { useEffect, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
 import {
   TrendingUp,
   TrendingDown,
@@ -10,9 +11,31 @@ import {
   ArrowUpRight,
   ArrowDownRight,
 } from "lucide-react";
-import { authAPI, expensesAPI, depositsAPI } from "../../lib/api";
+import {
+  authAPI,
+  expensesAPI,
+  depositsAPI,
+  bankAccountsAPI,
+  budgetsAPI,
+  categoriesAPI,
+} from "../../lib/api";
 import { getAuthToken, getUserId, formatCurrency } from "../../lib/utils";
+import {
+  currencyOf,
+  toBaseCurrency,
+  totalsByCurrency,
+} from "../../lib/currency";
+import { expenseLines } from "../../lib/splits";
+import {
+  categoryBudgetStatuses,
+  spendingByCategory,
+  useMonthExpenses,
+} from "../../lib/budgets";
+import { useMonthForecast } from "../../lib/forecast";
+import type { Deposit, Expense, User } from "../../lib/models";
 import DashboardLayout from "../../layouts/DashboardLayout";
+import OriginalAmounts from "../../components/OriginalAmounts";
+import BudgetForecast from "../../components/BudgetForecast";
 import {
   LineChart,
   Line,
@@ -27,12 +50,6 @@ import {
 } from "recharts";
 import dayjs from "dayjs";
 
-interface User {
-  id: string;
-  name: string;
-  email: string;
-}
-
 const COLORS = [
   "#0088FE",
   "#00C49F",
@@ -68,7 +85,7 @@ export default function Overview() {
 
   // Get all expenses for summary calculation
   const {
-    data: allExpenses = [],
+    data: rawExpenses = [],
     isLoading: expensesLoading,
     error: expensesError,
   } = useQuery({
@@ -87,7 +104,7 @@ export default function Overview() {
 
   // Get all deposits for summary calculation
   const {
-    data: allDeposits = [],
+    data: rawDeposits = [],
     isLoading: depositsLoading,
     error: depositsError,
   } = useQuery({
@@ -104,38 +121,106 @@ export default function Overview() {
     },
   });
 
+  // Get bank accounts for their currencies
+  const { data: accountsResponse } = useQuery({
+    queryKey: ["bank-accounts"],
+    queryFn: async () => {
+      const token = getAuthToken();
+      if (!token) throw new Error("No authentication token");
+
+      const response = await bankAccountsAPI.getAll();
+      return response;
+    },
+  });
+
+  const accounts = accountsResponse?.data || [];
+
+  // Current budget and the categories driving overspend this month
+  const { data: currentBudget } = useQuery({
+    queryKey: ["budgets", "current"],
+    queryFn: async () => {
+      const userId = getUserId();
+      if (!userId) throw new Error("No user ID found");
+
+      const response = await budgetsAPI.getCurrent(userId);
+      return response.data;
+    },
+  });
+
+  const { data: expenseCategoriesResponse } = useQuery({
+    queryKey: ["expense-categories"],
+    queryFn: async () => {
+      const token = getAuthToken();
+      if (!token) throw new Error("No authentication token");
+
+      const response = await categoriesAPI.getExpenseCategories();
+      return response;
+    },
+  });
+
+  const { data: budgetMonthExpenses } = useMonthExpenses(
+    currentBudget?.categories?.length ? currentBudget.month : undefined,
+    currentBudget?.year
+  );
+
+  const overspendingCategories = currentBudget
+    ? categoryBudgetStatuses(
+        currentBudget,
+        spendingByCategory(budgetMonthExpenses?.data || [], accounts),
+        expenseCategoriesResponse?.data
+      ).filter((status) => status.usage !== "ok")
+    : [];
+
+  const forecast = useMonthForecast(
+    currentBudget,
+    currentBudget?.amountLimit || 0,
+    accounts
+  );
+
+  // Summaries below work in the base currency; the recent lists keep each
+  // transaction in its account's currency.
+  const allExpenses = toBaseCurrency(rawExpenses, accounts);
+  const allDeposits = toBaseCurrency(rawDeposits, accounts);
+  const accountById = new Map(accounts.map((account) => [account.id, account]));
+
   // Get recent expenses (first 5)
-  const recentExpenses = allExpenses.slice(0, 5);
+  const recentExpenses = rawExpenses.slice(0, 5);
 
   // Get recent deposits (first 5)
-  const recentDeposits = allDeposits.slice(0, 5);
+  const recentDeposits = rawDeposits.slice(0, 5);
 
   // Calculate totals from actual data
   const totalExpenses = allExpenses.reduce(
-    (sum: number, expense: any) => Number(sum) + Number(expense.amount),
+    (sum, expense) => sum + expense.amount,
     0
   );
   const totalIncome = allDeposits.reduce(
-    (sum: number, deposit: any) => Number(sum) + Number(deposit.amount),
+    (sum, deposit) => sum + deposit.amount,
     0
   );
   const netSavings = totalIncome - totalExpenses;
 
-  // Calculate expenses by category
-  const expensesByCategory = allExpenses.reduce((acc: any, expense: any) => {
-    const categoryName = expense.category?.name || "Other";
-    if (!acc[categoryName]) {
-      acc[categoryName] = { category: categoryName, amount: 0, count: 0 };
-    }
-    acc[categoryName].amount += Number(expense.amount);
-    acc[categoryName].count += 1;
-    return acc;
-  }, {});
+  // Calculate expenses by category, counting each line of a split expense
+  const expensesByCategory = toBaseCurrency(
+    rawExpenses.flatMap(expenseLines),
+    accounts
+  ).reduce(
+    (acc, line) => {
+      const categoryName = line.category?.name || "Other";
+      if (!acc[categoryName]) {
+        acc[categoryName] = { category: categoryName, amount: 0, count: 0 };
+      }
+      acc[categoryName].amount += line.amount;
+      acc[categoryName].count += 1;
+      return acc;
+    },
+    {} as Record<string, { category: string; amount: number; count: number }>
+  );
 
   const expenseCategories = Object.values(expensesByCategory).map(
-    (cat: any, index: number) => ({
+    (cat, index) => ({
       name: cat.category,
-      value: Number(cat.amount),
+      value: cat.amount,
       color: COLORS[index % COLORS.length],
     })
   );
@@ -150,8 +235,8 @@ export default function Overview() {
 
   // Helper to sum amounts for a given month/year
   function sumForMonth(
-    items: any[],
-    dateKey: string,
+    items: Array<Expense | Deposit>,
+    dateKey: "date" | "createdAt",
     month: number,
     year: number
   ) {
@@ -199,7 +284,7 @@ export default function Overview() {
     const month = new Date(now.getFullYear(), now.getMonth() - i, 1);
     const monthName = month.toLocaleDateString("en-US", { month: "short" });
 
-    const monthExpenses = allExpenses.filter((expense: any) => {
+    const monthExpenses = allExpenses.filter((expense) => {
       const expenseDate = new Date(expense.date);
       return (
         expenseDate.getMonth() === month.getMonth() &&
@@ -207,7 +292,7 @@ export default function Overview() {
       );
     });
 
-    const monthDeposits = allDeposits.filter((deposit: any) => {
+    const monthDeposits = allDeposits.filter((deposit) => {
       const depositDate = new Date(deposit.date);
       return (
         depositDate.getMonth() === month.getMonth() &&
@@ -217,14 +302,8 @@ export default function Overview() {
 
     monthlyTrend.push({
       month: monthName,
-      expenses: monthExpenses.reduce(
-        (sum: number, expense: any) => Number(sum) + Number(expense.amount),
-        0
-      ),
-      deposits: monthDeposits.reduce(
-        (sum: number, deposit: any) => Number(sum) + Number(deposit.amount),
-        0
-      ),
+      expenses: monthExpenses.reduce((sum, expense) => sum + expense.amount, 0),
+      deposits: monthDeposits.reduce((sum, deposit) => sum + deposit.amount, 0),
     });
   }
 
@@ -328,6 +407,9 @@ export default function Overview() {
                 <p className="text-2xl font-semibold text-gray-900">
                   {formatCurrency(totalIncome)}
                 </p>
+                <OriginalAmounts
+                  totals={totalsByCurrency(rawDeposits, accounts)}
+                />
               </div>
             </div>
             <div className="mt-4 flex items-center text-sm">
@@ -364,6 +446,9 @@ export default function Overview() {
                 <p className="text-2xl font-semibold text-gray-900">
                   {formatCurrency(totalExpenses)}
                 </p>
+                <OriginalAmounts
+                  totals={totalsByCurrency(rawExpenses, accounts)}
+                />
               </div>
             </div>
             <div className="mt-4 flex items-center text-sm">
@@ -453,6 +538,69 @@ export default function Overview() {
           </div>
         </div>
 
+        {/* Month-end Forecast */}
+        {currentBudget && forecast && (
+          <BudgetForecast
+            forecast={forecast}
+            limit={currentBudget.amountLimit}
+            thresholdPercentage={currentBudget.thresholdPercentage}
+          />
+        )}
+
+        {/* Budget Watch */}
+        {overspendingCategories.length > 0 && (
+          <div className="card">
+            <div className="card-header flex justify-between items-center">
+              <h3 className="text-lg font-medium text-gray-900 flex items-center">
+                <AlertTriangle className="w-5 h-5 text-warning-600 mr-2" />
+                Categories Driving Overspend
+              </h3>
+              <Link
+                to={`/dashboard/budgets?budgetId=${currentBudget?.id}`}
+                className="text-sm text-primary-600 hover:text-primary-900"
+              >
+                View budget
+              </Link>
+            </div>
+            <div className="card-body grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {overspendingCategories.map((status) => (
+                <div key={status.categoryId}>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="font-medium text-gray-700">
+                      {status.name}
+                    </span>
+                    <span
+                      className={
+                        status.usage === "over"
+                          ? "text-danger-600"
+                          : "text-warning-600"
+                      }
+                    >
+                      {status.percentage.toFixed(0)}%
+                    </span>
+                  </div>
+                  <div className="w-full bg-gray-200 rounded-full h-2">
+                    <div
+                      className={`h-2 rounded-full ${
+                        status.usage === "over"
+                          ? "bg-danger-600"
+                          : "bg-warning-600"
+                      }`}
+                      style={{
+                        width: `${Math.min(status.percentage, 100)}%`,
+                      }}
+                    ></div>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {formatCurrency(status.spent)} of{" "}
+                    {formatCurrency(status.limit)}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Charts */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Monthly Trend Chart */}
@@ -513,7 +661,7 @@ export default function Overview() {
                       fill="#8884d8"
                       dataKey="value"
                     >
-                      {expenseCategories.map((entry: any, index: number) => (
+                      {expenseCategories.map((entry, index) => (
                         <Cell key={`cell-${index}`} fill={entry.color} />
                       ))}
                     </Pie>
@@ -544,7 +692,7 @@ export default function Overview() {
                 </div>
               ) : (
                 <div className="space-y-4">
-                  {recentExpenses.slice(0, 5).map((expense: any) => (
+                  {recentExpenses.slice(0, 5).map((expense) => (
                     <div
                       key={expense.id}
                       className="flex items-center justify-between p-3 bg-gray-50 rounded-lg"
@@ -564,7 +712,11 @@ export default function Overview() {
                       </div>
                       <div className="text-right">
                         <p className="text-sm font-medium text-danger-600">
-                          -{formatCurrency(expense.amount)}
+                          -
+                          {formatCurrency(
+                            expense.amount,
+                            currencyOf(accountById.get(expense.bankAccountId))
+                          )}
                         </p>
                         <p className="text-xs text-gray-500">
                           {expense.category?.name || "Unknown"}
@@ -594,7 +746,7 @@ export default function Overview() {
                 </div>
               ) : (
                 <div className="space-y-4">
-                  {recentDeposits.slice(0, 5).map((deposit: any) => (
+                  {recentDeposits.slice(0, 5).map((deposit) => (
                     <div
                       key={deposit.id}
                       className="flex items-center justify-between p-3 bg-gray-50 rounded-lg"
@@ -614,7 +766,11 @@ export default function Overview() {
                       </div>
                       <div className="text-right">
                         <p className="text-sm font-medium text-success-600">
-                          +{formatCurrency(deposit.amount)}
+                          +
+                          {formatCurrency(
+                            deposit.amount,
+                            currencyOf(accountById.get(deposit.bankAccountId))
+                          )}
                         </p>
                         <p className="text-xs text-gray-500">
                           {deposit.depositType?.name || "Unknown"}
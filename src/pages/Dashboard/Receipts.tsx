@@ -1,73 +1,133 @@
-import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useRef, useState } from "react";
+import {
+  useQuery,
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+  keepPreviousData,
+} from "@tanstack/react-query";
 import {
   Upload,
   Eye,
   Trash2,
   Search,
-  FileText,
   Image,
   CheckCircle,
   AlertCircle,
   Clock,
+  RotateCcw,
+  X,
 } from "lucide-react";
 import { receiptsAPI, bankAccountsAPI, categoriesAPI } from "../../lib/api";
 import { requireAuth, formatCurrency } from "../../lib/utils";
+import { useReceiptUploads } from "../../lib/receiptUpload";
+import { analyticsStart, useReceiptStats } from "../../lib/receiptStats";
+import {
+  RECEIPT_POLL_INTERVAL,
+  isProcessing,
+  replaceInReceiptLists,
+  useReceiptEvents,
+} from "../../lib/receiptProcessing";
+import type { Receipt, ReceiptStatus } from "../../lib/models";
 import DashboardLayout from "../../layouts/DashboardLayout";
+import ReceiptUploadModal from "../../components/ReceiptUploadModal";
+import ReceiptReviewEditor from "../../components/ReceiptReviewEditor";
+import ReceiptStatsPanel from "../../components/ReceiptStatsPanel";
+import dayjs from "dayjs";
 
-interface Receipt {
-  id: string;
-  userId: string;
-  imageUrl: string;
-  originalText?: string;
-  processedData?: any;
-  status: "PENDING" | "PROCESSED" | "FAILED";
-  createdAt: string;
-  updatedAt: string;
-  expenses?: Array<{
-    id: string;
-    amount: number;
-    note: string;
-  }>;
-}
-
-interface ReceiptFormData {
-  receiptId: string;
-  bankAccountId: string;
-  categoryId: string;
-  amount: number;
-  note?: string;
-}
+const RECEIPTS_PAGE_SIZE = 24;
+// Wait for a pause in typing before searching on the server
+const SEARCH_DEBOUNCE_MS = 300;
 
 export default function Receipts() {
   // Ensure user is authenticated
   requireAuth();
 
-  const [isModalOpen, setIsModalOpen] = useState(false);
   const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
   const [selectedReceipt, setSelectedReceipt] = useState<Receipt | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
-  const [selectedStatus, setSelectedStatus] = useState("");
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [formData, setFormData] = useState<ReceiptFormData>({
-    receiptId: "",
-    bankAccountId: "",
-    categoryId: "",
-    amount: 0,
-    note: "",
-  });
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [selectedStatus, setSelectedStatus] = useState<ReceiptStatus | "">("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [unlinkedOnly, setUnlinkedOnly] = useState(false);
+  const [hasProcessing, setHasProcessing] = useState(false);
   const queryClient = useQueryClient();
 
-  // Get receipts
-  const { data: receiptsResponse, isLoading } = useQuery({
-    queryKey: ["receipts", searchTerm, selectedStatus],
-    queryFn: async () => {
-      const response = await receiptsAPI.getAll();
-      return response;
-    },
+  // Status events replace polling while the stream is connected
+  const eventsConnected = useReceiptEvents(hasProcessing);
+
+  useEffect(() => {
+    const timeout = setTimeout(
+      () => setDebouncedSearch(searchTerm.trim()),
+      SEARCH_DEBOUNCE_MS
+    );
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  const filters = {
+    status: selectedStatus || undefined,
+    // Receipts carry upload times, so the range runs over whole local days
+    startDate: startDate
+      ? dayjs(startDate).startOf("day").toISOString()
+      : undefined,
+    endDate: endDate ? dayjs(endDate).endOf("day").toISOString() : undefined,
+    search: debouncedSearch || undefined,
+    unlinked: unlinkedOnly || undefined,
+  };
+
+  // Get receipts a page at a time, filtered on the server and polling while
+  // any loaded receipt is still being processed
+  const {
+    data: receiptPages,
+    isLoading,
+    isFetching,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["receipts", "list", filters],
+    queryFn: ({ pageParam }) =>
+      receiptsAPI.getAll({
+        ...filters,
+        page: pageParam,
+        limit: RECEIPTS_PAGE_SIZE,
+      }),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage, pages) =>
+      lastPage.data.length < RECEIPTS_PAGE_SIZE ? undefined : pages.length + 1,
+    placeholderData: keepPreviousData,
+    refetchInterval: (query) =>
+      !eventsConnected &&
+      query.state.data?.pages.some((page) => page.data.some(isProcessing))
+        ? RECEIPT_POLL_INTERVAL
+        : false,
   });
 
-  const receipts = receiptsResponse?.data || [];
+  const receipts = receiptPages?.pages.flatMap((page) => page.data) || [];
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  // Load the next page when the end of the list scrolls into view
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting && !isFetchingNextPage) fetchNextPage();
+      },
+      { rootMargin: "400px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const { stats, analytics } = useReceiptStats();
+
+  const anyProcessing = receipts.some(isProcessing);
+  useEffect(() => {
+    setHasProcessing(anyProcessing);
+  }, [anyProcessing]);
 
   // Get bank accounts
   const { data: bankAccountsResponse } = useQuery({
@@ -91,31 +151,18 @@ export default function Receipts() {
 
   const expenseCategories = expenseCategoriesResponse?.data || [];
 
-  // Upload receipt mutation
-  const uploadMutation = useMutation({
-    mutationFn: async (file: File) => {
-      const response = await receiptsAPI.upload(file);
-      return response;
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["receipts"] });
-      setIsUploadModalOpen(false);
-      setSelectedFile(null);
-    },
-  });
+  // Batch uploads keep running after the upload modal is closed
+  const receiptUploads = useReceiptUploads();
 
-  // Create expense from receipt mutation
-  const createExpenseMutation = useMutation({
-    mutationFn: async (data: ReceiptFormData) => {
-      const response = await receiptsAPI.createExpense(data);
-      return response;
-    },
-    onSuccess: () => {
+  // Retry mutation: sends a FAILED receipt back for processing
+  const retryMutation = useMutation({
+    mutationFn: (id: string) => receiptsAPI.reprocess(id),
+    onSuccess: (response) => {
+      replaceInReceiptLists(queryClient, response.data);
       queryClient.invalidateQueries({ queryKey: ["receipts"] });
-      queryClient.invalidateQueries({ queryKey: ["expenses"] });
-      setIsModalOpen(false);
-      setSelectedReceipt(null);
-      resetForm();
+    },
+    onError: (error) => {
+      alert(error instanceof Error ? error.message : "Could not retry receipt");
     },
   });
 
@@ -127,72 +174,12 @@ export default function Receipts() {
     },
   });
 
-  const resetForm = () => {
-    setFormData({
-      receiptId: "",
-      bankAccountId: "",
-      categoryId: "",
-      amount: 0,
-      note: "",
-    });
-  };
-
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setSelectedFile(file);
-    }
-  };
-
-  const handleUploadSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!selectedFile) {
-      alert("Please select a file");
-      return;
-    }
-    uploadMutation.mutate(selectedFile);
-  };
-
-  const handleCreateExpense = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (
-      !formData.bankAccountId ||
-      !formData.categoryId ||
-      formData.amount <= 0
-    ) {
-      alert("Please fill in all required fields");
-      return;
-    }
-    createExpenseMutation.mutate(formData);
-  };
-
-  const handleCreateExpenseFromReceipt = (receipt: Receipt) => {
-    setSelectedReceipt(receipt);
-    setFormData({
-      receiptId: receipt.id,
-      bankAccountId: "",
-      categoryId: "",
-      amount: 0,
-      note: "",
-    });
-    setIsModalOpen(true);
-  };
-
   const handleDelete = (id: string) => {
     if (window.confirm("Are you sure you want to delete this receipt?")) {
       deleteMutation.mutate(id);
     }
   };
 
-  const filteredReceipts = receipts.filter(
-    (receipt: Receipt) =>
-      (receipt.originalText?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        receipt.processedData?.merchant
-          ?.toLowerCase()
-          .includes(searchTerm.toLowerCase())) &&
-      (selectedStatus === "" || receipt.status === selectedStatus)
-  );
-
   const getStatusIcon = (status: string) => {
     switch (status) {
       case "PROCESSED":
@@ -241,76 +228,23 @@ export default function Receipts() {
             className="btn btn-primary flex items-center"
           >
             <Upload className="w-4 h-4 mr-2" />
-            Upload Receipt
+            {receiptUploads.isUploading ? "Uploading..." : "Upload Receipts"}
           </button>
         </div>
 
         {/* Stats */}
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
-          <div className="card p-6">
-            <div className="flex items-center">
-              <div className="w-8 h-8 bg-primary-100 rounded-lg flex items-center justify-center">
-                <FileText className="w-5 h-5 text-primary-600" />
-              </div>
-              <div className="ml-4">
-                <p className="text-sm font-medium text-gray-600">
-                  Total Receipts
-                </p>
-                <p className="text-2xl font-semibold text-gray-900">
-                  {receipts.length}
-                </p>
-              </div>
-            </div>
-          </div>
-          <div className="card p-6">
-            <div className="flex items-center">
-              <div className="w-8 h-8 bg-success-100 rounded-lg flex items-center justify-center">
-                <CheckCircle className="w-5 h-5 text-success-600" />
-              </div>
-              <div className="ml-4">
-                <p className="text-sm font-medium text-gray-600">Processed</p>
-                <p className="text-2xl font-semibold text-gray-900">
-                  {
-                    receipts.filter((r: Receipt) => r.status === "PROCESSED")
-                      .length
-                  }
-                </p>
-              </div>
-            </div>
-          </div>
-          <div className="card p-6">
-            <div className="flex items-center">
-              <div className="w-8 h-8 bg-warning-100 rounded-lg flex items-center justify-center">
-                <Clock className="w-5 h-5 text-warning-600" />
-              </div>
-              <div className="ml-4">
-                <p className="text-sm font-medium text-gray-600">Pending</p>
-                <p className="text-2xl font-semibold text-gray-900">
-                  {
-                    receipts.filter((r: Receipt) => r.status === "PENDING")
-                      .length
-                  }
-                </p>
-              </div>
-            </div>
-          </div>
-          <div className="card p-6">
-            <div className="flex items-center">
-              <div className="w-8 h-8 bg-danger-100 rounded-lg flex items-center justify-center">
-                <AlertCircle className="w-5 h-5 text-danger-600" />
-              </div>
-              <div className="ml-4">
-                <p className="text-sm font-medium text-gray-600">Failed</p>
-                <p className="text-2xl font-semibold text-gray-900">
-                  {
-                    receipts.filter((r: Receipt) => r.status === "FAILED")
-                      .length
-                  }
-                </p>
-              </div>
-            </div>
-          </div>
-        </div>
+        <ReceiptStatsPanel
+          stats={stats}
+          analytics={analytics}
+          onSelectStatus={setSelectedStatus}
+          onShowUnlinked={() => {
+            // The same window the unlinked count covers
+            setUnlinkedOnly(true);
+            setStartDate(analyticsStart(dayjs()).format("YYYY-MM-DD"));
+            setEndDate("");
+          }}
+          onSelectMerchant={setSearchTerm}
+        />
 
         {/* Filters */}
         <div className="card">
@@ -331,7 +265,9 @@ export default function Receipts() {
               <div className="sm:w-48 relative">
                 <select
                   value={selectedStatus}
-                  onChange={(e) => setSelectedStatus(e.target.value)}
+                  onChange={(e) =>
+                    setSelectedStatus(e.target.value as ReceiptStatus | "")
+                  }
                   className="input w-full pl-10 pr-10 appearance-none bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-colors"
                 >
                   <option value="">All Status</option>
@@ -358,17 +294,59 @@ export default function Receipts() {
                   </svg>
                 </div>
               </div>
+              <div className="flex items-center gap-2">
+                <input
+                  type="date"
+                  value={startDate}
+                  max={endDate || undefined}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  className="input"
+                  aria-label="From date"
+                />
+                <span className="text-gray-500 text-sm">to</span>
+                <input
+                  type="date"
+                  value={endDate}
+                  min={startDate || undefined}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  className="input"
+                  aria-label="To date"
+                />
+              </div>
+              {unlinkedOnly && (
+                <button
+                  onClick={() => setUnlinkedOnly(false)}
+                  className="inline-flex items-center self-center px-3 py-1 rounded-full text-sm bg-primary-100 text-primary-800 hover:bg-primary-200"
+                  title="Show all receipts"
+                >
+                  Not linked to an expense
+                  <X className="w-4 h-4 ml-1" />
+                </button>
+              )}
             </div>
           </div>
         </div>
 
         {/* Receipts List */}
         <div className="card">
-          <div className="card-header">
+          <div className="card-header flex items-center justify-between">
             <h3 className="text-lg font-medium text-gray-900">Receipts</h3>
+            {isFetching && !isFetchingNextPage && (
+              <span className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary-600"></span>
+            )}
           </div>
           <div className="card-body">
-            {filteredReceipts.length === 0 ? (
+            {receipts.length === 0 && hasFilters ? (
+              <div className="text-center py-12">
+                <Search className="mx-auto h-12 w-12 text-gray-400" />
+                <h3 className="mt-2 text-sm font-medium text-gray-900">
+                  No matching receipts
+                </h3>
+                <p className="mt-1 text-sm text-gray-500">
+                  Try a different search, status or date range.
+                </p>
+              </div>
+            ) : receipts.length === 0 ? (
               <div className="text-center py-12">
                 <Image className="mx-auto h-12 w-12 text-gray-400" />
                 <h3 className="mt-2 text-sm font-medium text-gray-900">
@@ -383,18 +361,20 @@ export default function Receipts() {
                     className="btn btn-primary"
                   >
                     <Upload className="w-4 h-4 mr-2" />
-                    Upload Receipt
+                    Upload Receipts
                   </button>
                 </div>
               </div>
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {filteredReceipts.map((receipt: Receipt) => (
+                {receipts.map((receipt: Receipt) => (
                   <div key={receipt.id} className="card p-4">
                     <div className="aspect-w-16 aspect-h-9 mb-4">
                       <img
                         src={receipt.imageUrl}
                         alt="Receipt"
+                        loading="lazy"
+                        decoding="async"
                         className="w-full h-48 object-cover rounded-lg"
                       />
                     </div>
@@ -414,6 +394,32 @@ export default function Receipts() {
                         </span>
                       </div>
 
+                      {isProcessing(receipt) && (
+                        <p className="text-sm text-gray-500 flex items-center">
+                          <span className="animate-spin rounded-full h-3 w-3 border-b-2 border-warning-600 mr-2"></span>
+                          Reading receipt...
+                        </p>
+                      )}
+
+                      {receipt.status === "FAILED" && (
+                        <div className="flex items-center justify-between text-sm">
+                          <span className="text-danger-600">
+                            We couldn't read this receipt.
+                          </span>
+                          <button
+                            onClick={() => retryMutation.mutate(receipt.id)}
+                            disabled={
+                              retryMutation.isPending &&
+                              retryMutation.variables === receipt.id
+                            }
+                            className="text-primary-600 hover:text-primary-900 flex items-center"
+                          >
+                            <RotateCcw className="w-4 h-4 mr-1" />
+                            Retry
+                          </button>
+                        </div>
+                      )}
+
                       {receipt.processedData && (
                         <div className="text-sm">
                           <p className="font-medium text-gray-900">
@@ -421,21 +427,19 @@ export default function Receipts() {
                               "Unknown Merchant"}
                           </p>
                           <p className="text-gray-600">
-                            {formatCurrency(
-                              parseFloat(receipt.processedData.total || "0")
-                            )}
+                            {formatCurrency(receipt.processedData.total ?? 0)}
                           </p>
                         </div>
                       )}
 
                       <div className="flex justify-between items-center pt-2 border-t border-gray-200">
                         <button
-                          onClick={() =>
-                            handleCreateExpenseFromReceipt(receipt)
-                          }
+                          onClick={() => setSelectedReceipt(receipt)}
                           className="text-primary-600 hover:text-primary-900 text-sm font-medium"
                         >
-                          Create Expense
+                          {receipt.status === "FAILED"
+                            ? "Enter Manually"
+                            : "Review & Create Expense"}
                         </button>
                         <div className="flex space-x-2">
                           <button
@@ -459,214 +463,40 @@ export default function Receipts() {
                 ))}
               </div>
             )}
+            {hasNextPage && (
+              <div ref={loadMoreRef} className="flex justify-center pt-6">
+                <button
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
+                  className="btn btn-secondary"
+                >
+                  {isFetchingNextPage ? "Loading..." : "Load More"}
+                </button>
+              </div>
+            )}
           </div>
         </div>
 
         {/* Upload Modal */}
         {isUploadModalOpen && (
-          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-            <div className="bg-white rounded-lg p-6 w-full max-w-md">
-              <h2 className="text-xl font-bold mb-4">Upload Receipt</h2>
-              <form onSubmit={handleUploadSubmit} className="space-y-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Receipt Image *
-                  </label>
-                  <input
-                    type="file"
-                    accept="image/*"
-                    onChange={handleFileUpload}
-                    className="input w-full"
-                    required
-                  />
-                </div>
-
-                <div className="flex justify-end space-x-3 pt-4">
-                  <button
-                    type="button"
-                    onClick={() => {
-                      setIsUploadModalOpen(false);
-                      setSelectedFile(null);
-                    }}
-                    className="btn btn-secondary"
-                  >
-                    Cancel
-                  </button>
-                  <button
-                    type="submit"
-                    disabled={uploadMutation.isPending}
-                    className="btn btn-primary"
-                  >
-                    {uploadMutation.isPending ? "Uploading..." : "Upload"}
-                  </button>
-                </div>
-              </form>
-            </div>
-          </div>
+          <ReceiptUploadModal
+            uploads={receiptUploads.uploads}
+            onAddFiles={receiptUploads.addFiles}
+            onCancel={receiptUploads.cancel}
+            onRetry={receiptUploads.retry}
+            onClearFinished={receiptUploads.clearFinished}
+            onClose={() => setIsUploadModalOpen(false)}
+          />
         )}
 
-        {/* Create Expense Modal */}
-        {isModalOpen && selectedReceipt && (
-          <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
-            <div className="bg-white rounded-lg p-6 w-full max-w-md">
-              <h2 className="text-xl font-bold mb-4">
-                Create Expense from Receipt
-              </h2>
-              <form onSubmit={handleCreateExpense} className="space-y-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Amount *
-                  </label>
-                  <input
-                    type="number"
-                    step="0.01"
-                    min="0"
-                    value={formData.amount}
-                    onChange={(e) =>
-                      setFormData({
-                        ...formData,
-                        amount: parseFloat(e.target.value) || 0,
-                      })
-                    }
-                    className="input w-full"
-                    required
-                  />
-                </div>
-
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Description
-                  </label>
-                  <input
-                    type="text"
-                    value={formData.note}
-                    onChange={(e) =>
-                      setFormData({ ...formData, note: e.target.value })
-                    }
-                    className="input w-full"
-                    placeholder="Enter description"
-                  />
-                </div>
-
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Expense Category *
-                  </label>
-                  <div className="relative">
-                    <select
-                      value={formData.categoryId}
-                      onChange={(e) =>
-                        setFormData({
-                          ...formData,
-                          categoryId: e.target.value,
-                        })
-                      }
-                      className="input w-full pl-10 pr-10 appearance-none bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-colors"
-                      required
-                    >
-                      <option value="">Select category</option>
-                      {expenseCategories.map((category: any) => (
-                        <option key={category.id} value={category.id}>
-                          {category.icon} {category.name}
-                        </option>
-                      ))}
-                    </select>
-                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                      <span className="text-gray-400">
-                        {formData.categoryId
-                          ? expenseCategories.find(
-                              (c: any) => c.id === formData.categoryId
-                            )?.icon || "📝"
-                          : "📝"}
-                      </span>
-                    </div>
-                    <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
-                      <svg
-                        className="h-5 w-5 text-gray-400"
-                        fill="none"
-                        stroke="currentColor"
-                        viewBox="0 0 24 24"
-                      >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={2}
-                          d="M19 9l-7 7-7-7"
-                        />
-                      </svg>
-                    </div>
-                  </div>
-                </div>
-
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Bank Account *
-                  </label>
-                  <div className="relative">
-                    <select
-                      value={formData.bankAccountId}
-                      onChange={(e) =>
-                        setFormData({
-                          ...formData,
-                          bankAccountId: e.target.value,
-                        })
-                      }
-                      className="input w-full pl-10 pr-10 appearance-none bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-colors"
-                      required
-                    >
-                      <option value="">Select account</option>
-                      {bankAccounts.map((account: any) => (
-                        <option key={account.id} value={account.id}>
-                          {account.name} - {account.bankName}
-                        </option>
-                      ))}
-                    </select>
-                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                      <span className="text-gray-400">🏦</span>
-                    </div>
-                    <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
-                      <svg
-                        className="h-5 w-5 text-gray-400"
-                        fill="none"
-                        stroke="currentColor"
-                        viewBox="0 0 24 24"
-                      >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={2}
-                          d="M19 9l-7 7-7-7"
-                        />
-                      </svg>
-                    </div>
-                  </div>
-                </div>
-
-                <div className="flex justify-end space-x-3 pt-4">
-                  <button
-                    type="button"
-                    onClick={() => {
-                      setIsModalOpen(false);
-                      setSelectedReceipt(null);
-                      resetForm();
-                    }}
-                    className="btn btn-secondary"
-                  >
-                    Cancel
-                  </button>
-                  <button
-                    type="submit"
-                    disabled={createExpenseMutation.isPending}
-                    className="btn btn-primary"
-                  >
-                    {createExpenseMutation.isPending
-                      ? "Creating..."
-                      : "Create Expense"}
-                  </button>
-                </div>
-              </form>
-            </div>
-          </div>
+        {/* Review Editor */}
+        {selectedReceipt && (
+          <ReceiptReviewEditor
+            receipt={selectedReceipt}
+            bankAccounts={bankAccounts}
+            expenseCategories={expenseCategories}
+            onClose={() => setSelectedReceipt(null)}
+          />
         )}
       </div>
     </DashboardLayout>
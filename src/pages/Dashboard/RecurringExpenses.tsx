@@ -0,0 +1,741 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Edit,
+  Pause,
+  Play,
+  Square,
+  Repeat,
+  Calendar,
+  ChevronLeft,
+  ChevronRight,
+  DollarSign,
+} from "lucide-react";
+import { expensesAPI, categoriesAPI } from "../../lib/api";
+import { getAuthToken, getUserId, formatCurrency } from "../../lib/utils";
+import {
+  FREQUENCY_LABELS,
+  getOccurrences,
+  getUpcomingOccurrences,
+  monthlyEquivalent,
+} from "../../lib/recurring";
+import type { RecurringExpense } from "../../lib/models";
+import type { Dayjs } from "dayjs";
+import DashboardLayout from "../../layouts/DashboardLayout";
+import dayjs from "dayjs";
+
+interface RecurringEditFormData {
+  amount: number;
+  categoryId: string;
+  note: string;
+  effectiveFrom: string;
+  endDate: string;
+}
+
+interface RecurringChanges {
+  amount: number;
+  categoryId: string;
+  note: string;
+  // null clears an existing end date
+  endDate: string | null;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// How many upcoming occurrences an edit can be scheduled from
+const EFFECTIVE_FROM_OPTIONS = 12;
+
+// Upcoming scheduled dates, listed for paused templates too
+const scheduledDates = (template: RecurringExpense) =>
+  getUpcomingOccurrences(
+    { ...template, isActive: true },
+    EFFECTIVE_FROM_OPTIONS
+  );
+
+export default function RecurringExpenses() {
+  const [editingTemplate, setEditingTemplate] =
+    useState<RecurringExpense | null>(null);
+  const [calendarMonth, setCalendarMonth] = useState(dayjs().startOf("month"));
+  const [formData, setFormData] = useState<RecurringEditFormData>({
+    amount: 0,
+    categoryId: "",
+    note: "",
+    effectiveFrom: "",
+    endDate: "",
+  });
+  const queryClient = useQueryClient();
+
+  // Get recurring expense templates
+  const {
+    data: recurringResponse,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ["recurring-expenses"],
+    queryFn: async () => {
+      const token = getAuthToken();
+      if (!token) throw new Error("No authentication token");
+
+      const userId = getUserId();
+      if (!userId) throw new Error("No user ID found");
+
+      const response = await expensesAPI.getRecurring(userId);
+      return response;
+    },
+  });
+
+  const templates = recurringResponse?.data || [];
+
+  // Get expense categories
+  const { data: expenseCategoriesResponse } = useQuery({
+    queryKey: ["expense-categories"],
+    queryFn: async () => {
+      const token = getAuthToken();
+      if (!token) throw new Error("No authentication token");
+
+      const response = await categoriesAPI.getExpenseCategories();
+      return response;
+    },
+  });
+
+  const expenseCategories = expenseCategoriesResponse?.data || [];
+
+  const updateMutation = useMutation({
+    mutationFn: ({
+      id,
+      data,
+    }: {
+      id: string;
+      data: Parameters<typeof expensesAPI.updateRecurring>[1];
+    }) => expensesAPI.updateRecurring(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["recurring-expenses"] });
+      setEditingTemplate(null);
+    },
+    onError: (err) => {
+      alert(err.message || "Failed to update recurring expense");
+    },
+  });
+
+  // A change from a later occurrence splits the series: the current template
+  // ends the day before, so the occurrences in between are still booked with
+  // the old values, and a new template on the same schedule takes over. The
+  // new one is created first, so a failure never leaves the series cut short.
+  const splitMutation = useMutation({
+    mutationFn: async ({
+      template,
+      effectiveFrom,
+      changes,
+    }: {
+      template: RecurringExpense;
+      effectiveFrom: Dayjs;
+      changes: RecurringChanges;
+    }) => {
+      const created = await expensesAPI.createRecurring({
+        userId: template.userId,
+        categoryId: changes.categoryId,
+        amount: changes.amount,
+        note: changes.note,
+        frequency: template.frequency,
+        // Same anchor, so the new template falls on the same days
+        startDate: template.startDate,
+        nextDueDate: effectiveFrom.toISOString(),
+        endDate: changes.endDate,
+        isActive: template.isActive,
+      });
+      try {
+        await expensesAPI.updateRecurring(template.id, {
+          endDate: effectiveFrom.subtract(1, "day").endOf("day").toISOString(),
+        });
+      } catch (error) {
+        // Pause the new template so the two never book the same dates
+        await expensesAPI
+          .updateRecurring(created.data.id, { isActive: false })
+          .catch(() => undefined);
+        queryClient.invalidateQueries({ queryKey: ["recurring-expenses"] });
+        throw error;
+      }
+      return created;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["recurring-expenses"] });
+      setEditingTemplate(null);
+    },
+    onError: (err) => {
+      alert(err.message || "Failed to update recurring expense");
+    },
+  });
+
+  const isSaving = updateMutation.isPending || splitMutation.isPending;
+
+  const handleToggleActive = (template: RecurringExpense) => {
+    if (template.isActive) {
+      updateMutation.mutate({ id: template.id, data: { isActive: false } });
+      return;
+    }
+    // Resuming never back-books the occurrences missed while paused: the next
+    // due date moves to the first scheduled date from today onwards.
+    const today = dayjs().startOf("day").toISOString();
+    const [nextDue] = getUpcomingOccurrences(
+      { ...template, isActive: true, nextDueDate: today },
+      1
+    );
+    if (!nextDue) {
+      alert("This recurring expense has already ended.");
+      return;
+    }
+    updateMutation.mutate({
+      id: template.id,
+      data: { isActive: true, nextDueDate: nextDue.toISOString() },
+    });
+  };
+
+  const handleEnd = (template: RecurringExpense) => {
+    if (
+      window.confirm(
+        "End this recurring expense? No further occurrences will be created."
+      )
+    ) {
+      updateMutation.mutate({
+        id: template.id,
+        data: { isActive: false, endDate: dayjs().endOf("day").toISOString() },
+      });
+    }
+  };
+
+  const handleEdit = (template: RecurringExpense) => {
+    const [firstDate] = scheduledDates(template);
+    setEditingTemplate(template);
+    setFormData({
+      amount: template.amount,
+      categoryId: template.categoryId,
+      note: template.note || "",
+      effectiveFrom: firstDate ? firstDate.format("YYYY-MM-DD") : "",
+      endDate: template.endDate
+        ? dayjs(template.endDate).format("YYYY-MM-DD")
+        : "",
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingTemplate) return;
+    if (!formData.categoryId || formData.amount <= 0) {
+      alert("Please fill in all required fields");
+      return;
+    }
+    if (
+      formData.endDate &&
+      formData.effectiveFrom &&
+      dayjs(formData.endDate).isBefore(dayjs(formData.effectiveFrom), "day")
+    ) {
+      alert("End date must be after the effective date");
+      return;
+    }
+
+    const changes: RecurringChanges = {
+      amount: formData.amount,
+      categoryId: formData.categoryId,
+      note: formData.note,
+      endDate: formData.endDate ? dayjs(formData.endDate).toISOString() : null,
+    };
+
+    // Occurrences already booked are separate expenses, so only the ones
+    // still to come are affected. The next due date is left alone: when no
+    // occurrence is due before the effective date, the template is simply
+    // updated; otherwise the series is split there.
+    const effectiveFrom = dayjs(formData.effectiveFrom);
+    const dueBefore = formData.effectiveFrom
+      ? getOccurrences(
+          { ...editingTemplate, isActive: true },
+          dayjs(editingTemplate.nextDueDate),
+          effectiveFrom.subtract(1, "day")
+        )
+      : [];
+    if (dueBefore.length === 0) {
+      updateMutation.mutate({ id: editingTemplate.id, data: changes });
+    } else {
+      splitMutation.mutate({
+        template: editingTemplate,
+        effectiveFrom,
+        changes,
+      });
+    }
+  };
+
+  const activeTemplates = templates.filter((t) => t.isActive);
+  const monthlyCommitment = activeTemplates.reduce(
+    (sum, t) => sum + monthlyEquivalent(t.amount, t.frequency),
+    0
+  );
+  const nextOccurrence = activeTemplates
+    .map((t) => ({ template: t, date: getUpcomingOccurrences(t, 1)[0] }))
+    .filter((o) => o.date)
+    .sort((a, b) => a.date.valueOf() - b.date.valueOf())[0];
+
+  // Calendar grid for the selected month, padded to whole weeks
+  const gridStart = calendarMonth.startOf("week");
+  const gridEnd = calendarMonth.endOf("month").endOf("week");
+  const occurrencesByDay = new Map<string, RecurringExpense[]>();
+  for (const template of templates) {
+    for (const date of getOccurrences(template, gridStart, gridEnd)) {
+      const key = date.format("YYYY-MM-DD");
+      occurrencesByDay.set(key, [
+        ...(occurrencesByDay.get(key) || []),
+        template,
+      ]);
+    }
+  }
+  const calendarDays = Array.from(
+    { length: gridEnd.diff(gridStart, "day") + 1 },
+    (_, i) => gridStart.add(i, "day")
+  );
+
+  const effectiveDates = editingTemplate ? scheduledDates(editingTemplate) : [];
+
+  const categoryName = (template: RecurringExpense) =>
+    template.category?.name ||
+    expenseCategories.find((c) => c.id === template.categoryId)?.name ||
+    "Unknown";
+
+  if (isLoading) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-600"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (error) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              Error loading recurring expenses
+            </h3>
+            <p className="text-gray-600">{error.message}</p>
+            <button
+              onClick={() => window.location.reload()}
+              className="btn btn-primary mt-4"
+            >
+              Retry
+            </button>
+          </div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">
+            Recurring Expenses
+          </h1>
+          <p className="text-gray-600">
+            Manage scheduled expenses and preview upcoming payments
+          </p>
+        </div>
+
+        {/* Stats */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="card p-6">
+            <div className="flex items-center">
+              <div className="w-8 h-8 bg-primary-100 rounded-lg flex items-center justify-center">
+                <Repeat className="w-5 h-5 text-primary-600" />
+              </div>
+              <div className="ml-4">
+                <p className="text-sm font-medium text-gray-600">Active</p>
+                <p className="text-2xl font-semibold text-gray-900">
+                  {activeTemplates.length} / {templates.length}
+                </p>
+              </div>
+            </div>
+          </div>
+          <div className="card p-6">
+            <div className="flex items-center">
+              <div className="w-8 h-8 bg-danger-100 rounded-lg flex items-center justify-center">
+                <DollarSign className="w-5 h-5 text-danger-600" />
+              </div>
+              <div className="ml-4">
+                <p className="text-sm font-medium text-gray-600">
+                  Monthly Commitment
+                </p>
+                <p className="text-2xl font-semibold text-gray-900">
+                  {formatCurrency(monthlyCommitment)}
+                </p>
+              </div>
+            </div>
+          </div>
+          <div className="card p-6">
+            <div className="flex items-center">
+              <div className="w-8 h-8 bg-warning-100 rounded-lg flex items-center justify-center">
+                <Calendar className="w-5 h-5 text-warning-600" />
+              </div>
+              <div className="ml-4">
+                <p className="text-sm font-medium text-gray-600">Next Due</p>
+                <p className="text-lg font-semibold text-gray-900">
+                  {nextOccurrence
+                    ? `${nextOccurrence.date.format("MMM D")} · ${categoryName(
+                        nextOccurrence.template
+                      )}`
+                    : "None"}
+                </p>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Upcoming Calendar */}
+        <div className="card">
+          <div className="card-header flex items-center justify-between">
+            <h3 className="text-lg font-medium text-gray-900">
+              Upcoming Occurrences
+            </h3>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() =>
+                  setCalendarMonth(calendarMonth.subtract(1, "month"))
+                }
+                className="text-gray-500 hover:text-gray-700"
+              >
+                <ChevronLeft className="w-5 h-5" />
+              </button>
+              <span className="text-sm font-medium text-gray-900 w-32 text-center">
+                {calendarMonth.format("MMMM YYYY")}
+              </span>
+              <button
+                onClick={() => setCalendarMonth(calendarMonth.add(1, "month"))}
+                className="text-gray-500 hover:text-gray-700"
+              >
+                <ChevronRight className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+          <div className="card-body">
+            <div className="grid grid-cols-7 gap-px bg-gray-200 border border-gray-200 rounded-lg overflow-hidden">
+              {WEEKDAYS.map((day) => (
+                <div
+                  key={day}
+                  className="bg-gray-50 px-2 py-1 text-xs font-medium text-gray-500 text-center"
+                >
+                  {day}
+                </div>
+              ))}
+              {calendarDays.map((day) => {
+                const key = day.format("YYYY-MM-DD");
+                const dayOccurrences = occurrencesByDay.get(key) || [];
+                const inMonth = day.month() === calendarMonth.month();
+                return (
+                  <div
+                    key={key}
+                    className={`min-h-20 p-1 ${
+                      inMonth ? "bg-white" : "bg-gray-50 text-gray-400"
+                    }`}
+                  >
+                    <div
+                      className={`text-xs ${
+                        day.isSame(dayjs(), "day")
+                          ? "font-bold text-primary-600"
+                          : ""
+                      }`}
+                    >
+                      {day.date()}
+                    </div>
+                    {dayOccurrences.map((template) => (
+                      <div
+                        key={template.id}
+                        className="mt-1 truncate rounded bg-danger-50 px-1 text-xs text-danger-700"
+                        title={template.note || categoryName(template)}
+                      >
+                        {formatCurrency(template.amount)}{" "}
+                        {categoryName(template)}
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+
+        {/* Templates List */}
+        <div className="card">
+          <div className="card-header">
+            <h3 className="text-lg font-medium text-gray-900">Templates</h3>
+          </div>
+          <div className="card-body">
+            {templates.length === 0 ? (
+              <div className="text-center py-12">
+                <Repeat className="mx-auto h-12 w-12 text-gray-400" />
+                <h3 className="mt-2 text-sm font-medium text-gray-900">
+                  No recurring expenses
+                </h3>
+                <p className="mt-1 text-sm text-gray-500">
+                  Mark an expense as recurring when adding it on the Expenses
+                  page.
+                </p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Description
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Category
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Amount
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Schedule
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Next Dates
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Status
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {templates.map((template) => {
+                      const upcoming = getUpcomingOccurrences(template, 3);
+                      const hasEnded =
+                        !!template.endDate &&
+                        dayjs(template.endDate).isBefore(dayjs(), "day");
+                      return (
+                        <tr key={template.id} className="hover:bg-gray-50">
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {template.note || "No description"}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {categoryName(template)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-danger-600">
+                            -{formatCurrency(template.amount)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {FREQUENCY_LABELS[template.frequency]}
+                            <p className="text-xs text-gray-500">
+                              {dayjs(template.startDate).format("MMM D, YYYY")}
+                              {" – "}
+                              {template.endDate
+                                ? dayjs(template.endDate).format("MMM D, YYYY")
+                                : "no end"}
+                            </p>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                            {upcoming.length === 0
+                              ? "—"
+                              : upcoming
+                                  .map((date) => date.format("MMM D"))
+                                  .join(", ")}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span
+                              className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                                hasEnded
+                                  ? "bg-gray-100 text-gray-800"
+                                  : template.isActive
+                                  ? "bg-success-100 text-success-800"
+                                  : "bg-warning-100 text-warning-800"
+                              }`}
+                            >
+                              {hasEnded
+                                ? "Ended"
+                                : template.isActive
+                                ? "Active"
+                                : "Paused"}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                            {!hasEnded && (
+                              <>
+                                <button
+                                  onClick={() => handleToggleActive(template)}
+                                  disabled={updateMutation.isPending}
+                                  className="text-gray-600 hover:text-gray-900 mr-3"
+                                  title={template.isActive ? "Pause" : "Resume"}
+                                >
+                                  {template.isActive ? (
+                                    <Pause className="w-4 h-4" />
+                                  ) : (
+                                    <Play className="w-4 h-4" />
+                                  )}
+                                </button>
+                                <button
+                                  onClick={() => handleEdit(template)}
+                                  className="text-primary-600 hover:text-primary-900 mr-3"
+                                  title="Edit future occurrences"
+                                >
+                                  <Edit className="w-4 h-4" />
+                                </button>
+                                <button
+                                  onClick={() => handleEnd(template)}
+                                  disabled={updateMutation.isPending}
+                                  className="text-danger-600 hover:text-danger-900"
+                                  title="End"
+                                >
+                                  <Square className="w-4 h-4" />
+                                </button>
+                              </>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Edit Modal */}
+        {editingTemplate && (
+          <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg p-6 w-full max-w-md">
+              <h2 className="text-xl font-bold mb-1">Edit Recurring Expense</h2>
+              <p className="text-sm text-gray-500 mb-4">
+                Changes apply to occurrences from the effective date onwards.
+                Expenses already recorded are not changed.
+              </p>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Amount *
+                  </label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={formData.amount}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        amount: parseFloat(e.target.value) || 0,
+                      })
+                    }
+                    className="input w-full"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Category *
+                  </label>
+                  <select
+                    value={formData.categoryId}
+                    onChange={(e) =>
+                      setFormData({ ...formData, categoryId: e.target.value })
+                    }
+                    className="input w-full"
+                    required
+                  >
+                    <option value="">Select category</option>
+                    {expenseCategories.map((category) => (
+                      <option key={category.id} value={category.id}>
+                        {category.icon} {category.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Description
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.note}
+                    onChange={(e) =>
+                      setFormData({ ...formData, note: e.target.value })
+                    }
+                    className="input w-full"
+                    placeholder="Enter description"
+                  />
+                </div>
+
+                {effectiveDates.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Effective From *
+                    </label>
+                    <select
+                      value={formData.effectiveFrom}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          effectiveFrom: e.target.value,
+                        })
+                      }
+                      className="input w-full"
+                      required
+                    >
+                      {effectiveDates.map((date) => (
+                        <option
+                          key={date.valueOf()}
+                          value={date.format("YYYY-MM-DD")}
+                        >
+                          {date.format("MMM D, YYYY")}
+                        </option>
+                      ))}
+                    </select>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Occurrences before this date keep the current values.
+                    </p>
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    End Date
+                  </label>
+                  <input
+                    type="date"
+                    value={formData.endDate}
+                    min={formData.effectiveFrom}
+                    onChange={(e) =>
+                      setFormData({ ...formData, endDate: e.target.value })
+                    }
+                    className="input w-full"
+                  />
+                </div>
+
+                <div className="flex justify-end space-x-3 pt-4">
+                  <button
+                    type="button"
+                    onClick={() => setEditingTemplate(null)}
+                    className="btn btn-secondary"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={isSaving}
+                    className="btn btn-primary"
+                  >
+                    {isSaving ? "Saving..." : "Update"}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
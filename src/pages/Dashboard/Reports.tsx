@@ -14,37 +14,24 @@ import {
   EyeOff,
   Eye,
   Lightbulb,
+  Tags,
 } from "lucide-react";
-import { reportsAPI, expensesAPI, depositsAPI, API_HOST } from "../../lib/api";
+import {
+  reportsAPI,
+  expensesAPI,
+  depositsAPI,
+  bankAccountsAPI,
+  API_HOST,
+} from "../../lib/api";
 import { requireAuth, formatCurrency } from "../../lib/utils";
+import { toBaseCurrency, totalsByCurrency } from "../../lib/currency";
+import { expenseLines } from "../../lib/splits";
+import { hasTag, tagTotals } from "../../lib/tags";
+import type { AiSuggestion, MonthlyReport } from "../../lib/models";
 import DashboardLayout from "../../layouts/DashboardLayout";
+import OriginalAmounts from "../../components/OriginalAmounts";
 import dayjs from "dayjs";
 
-interface AISuggestion {
-  id: string;
-  userId: string;
-  title: string;
-  suggestion: string;
-  createdAt: string;
-  category: string;
-  isRead: boolean;
-  priority: "LOW" | "MEDIUM" | "HIGH";
-}
-
-interface MonthlyReport {
-  id: string;
-  month: number;
-  year: number;
-  monthName: string;
-  totalExpense: string;
-  totalIncome: string;
-  netSavings: string;
-  savingsRate: string;
-  budgetStatus: "UNDER_BUDGET" | "OVER_BUDGET" | "ON_BUDGET";
-  pdfUrl: string;
-  generatedAt: string;
-}
-
 export default function Reports() {
   // Ensure user is authenticated
   requireAuth();
@@ -56,6 +43,7 @@ export default function Reports() {
   const [priorityFilter, setPriorityFilter] = useState("");
   const [showReadSuggestions, setShowReadSuggestions] = useState(false);
   const [selectedLanguage, setSelectedLanguage] = useState("en");
+  const [selectedTag, setSelectedTag] = useState("");
 
   const queryClient = useQueryClient();
 
@@ -70,7 +58,7 @@ export default function Reports() {
     }
   );
 
-  const suggestions: AISuggestion[] = suggestionsResponse?.data || [];
+  const suggestions: AiSuggestion[] = suggestionsResponse?.data || [];
 
   // Get monthly reports
   const { data: reportsResponse, isLoading: reportsLoading } = useQuery({
@@ -96,7 +84,7 @@ export default function Reports() {
     },
   });
 
-  const expenses = expensesResponse?.data || [];
+  const rawExpenses = expensesResponse?.data || [];
 
   // Get deposits for analytics
   const { data: depositsResponse } = useQuery({
@@ -111,7 +99,22 @@ export default function Reports() {
     },
   });
 
-  const deposits = depositsResponse?.data || [];
+  const rawDeposits = depositsResponse?.data || [];
+
+  // Get bank accounts for their currencies
+  const { data: accountsResponse } = useQuery({
+    queryKey: ["bank-accounts"],
+    queryFn: async () => {
+      const response = await bankAccountsAPI.getAll();
+      return response;
+    },
+  });
+
+  const accounts = accountsResponse?.data || [];
+
+  // Analytics are computed in the base currency
+  const expenses = toBaseCurrency(rawExpenses, accounts);
+  const deposits = toBaseCurrency(rawDeposits, accounts);
 
   // Generate AI suggestions mutation
   const generateSuggestionsMutation = useMutation({
@@ -188,21 +191,23 @@ export default function Reports() {
 
   // Analytics calculations
   const totalExpenses = expenses.reduce(
-    (sum: number, expense: any) => sum + (parseFloat(expense.amount) || 0),
+    (sum, expense) => sum + expense.amount,
     0
   );
   const totalDeposits = deposits.reduce(
-    (sum: number, deposit: any) => sum + (parseFloat(deposit.amount) || 0),
+    (sum, deposit) => sum + deposit.amount,
     0
   );
   const netFlow = totalDeposits - totalExpenses;
 
-  // Category breakdown
-  const categoryBreakdown = expenses.reduce(
-    (acc: Record<string, number>, expense: any) => {
-      const categoryName = expense.category?.name || "Uncategorized";
-      acc[categoryName] =
-        (acc[categoryName] || 0) + (parseFloat(expense.amount) || 0);
+  // Category breakdown, counting each line of a split expense
+  const categoryBreakdown = toBaseCurrency(
+    rawExpenses.flatMap(expenseLines),
+    accounts
+  ).reduce(
+    (acc, line) => {
+      const categoryName = line.category?.name || "Uncategorized";
+      acc[categoryName] = (acc[categoryName] || 0) + line.amount;
       return acc;
     },
     {} as Record<string, number>
@@ -210,9 +215,36 @@ export default function Reports() {
 
   // Monthly trends
   const monthlyData = expenses.reduce(
-    (acc: Record<string, number>, expense: any) => {
+    (acc, expense) => {
+      const month = dayjs(expense.date).format("YYYY-MM");
+      acc[month] = (acc[month] || 0) + expense.amount;
+      return acc;
+    },
+    {} as Record<string, number>
+  );
+
+  // Tag breakdown, to total a trip or project across categories and months
+  const tagBreakdown = tagTotals(expenses, deposits);
+  const taggedExpenses = expenses.filter((expense) =>
+    hasTag(expense, selectedTag)
+  );
+  const tagCategoryData = toBaseCurrency(
+    rawExpenses
+      .filter((expense) => hasTag(expense, selectedTag))
+      .flatMap(expenseLines),
+    accounts
+  ).reduce(
+    (acc, line) => {
+      const categoryName = line.category?.name || "Uncategorized";
+      acc[categoryName] = (acc[categoryName] || 0) + line.amount;
+      return acc;
+    },
+    {} as Record<string, number>
+  );
+  const tagMonthlyData = taggedExpenses.reduce(
+    (acc, expense) => {
       const month = dayjs(expense.date).format("YYYY-MM");
-      acc[month] = (acc[month] || 0) + (parseFloat(expense.amount) || 0);
+      acc[month] = (acc[month] || 0) + expense.amount;
       return acc;
     },
     {} as Record<string, number>
@@ -625,6 +657,9 @@ export default function Reports() {
                     <p className="text-2xl font-semibold text-gray-900">
                       {formatCurrency(Number(totalExpenses || 0))}
                     </p>
+                    <OriginalAmounts
+                      totals={totalsByCurrency(rawExpenses, accounts)}
+                    />
                   </div>
                 </div>
               </div>
@@ -640,6 +675,9 @@ export default function Reports() {
                     <p className="text-2xl font-semibold text-gray-900">
                       {formatCurrency(Number(totalDeposits || 0))}
                     </p>
+                    <OriginalAmounts
+                      totals={totalsByCurrency(rawDeposits, accounts)}
+                    />
                   </div>
                 </div>
               </div>
@@ -727,6 +765,143 @@ export default function Reports() {
               </div>
             </div>
 
+            {/* Tag Breakdown */}
+            <div className="card">
+              <div className="card-header">
+                <h3 className="text-lg font-medium text-gray-900">
+                  Totals by Tag
+                </h3>
+              </div>
+              <div className="card-body">
+                {tagBreakdown.length === 0 ? (
+                  <div className="text-center py-8">
+                    <Tags className="mx-auto h-12 w-12 text-gray-400" />
+                    <p className="mt-2 text-sm text-gray-500">
+                      No tagged expenses or deposits yet
+                    </p>
+                  </div>
+                ) : (
+                  <div className="space-y-6">
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Tag
+                            </th>
+                            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Transactions
+                            </th>
+                            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Spent
+                            </th>
+                            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Received
+                            </th>
+                          </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                          {tagBreakdown.map((total) => (
+                            <tr
+                              key={total.tag}
+                              onClick={() =>
+                                setSelectedTag(
+                                  selectedTag === total.tag ? "" : total.tag
+                                )
+                              }
+                              className={`cursor-pointer ${
+                                selectedTag === total.tag
+                                  ? "bg-primary-50"
+                                  : "hover:bg-gray-50"
+                              }`}
+                            >
+                              <td className="px-4 py-2 text-sm font-medium text-gray-900">
+                                #{total.tag}
+                              </td>
+                              <td className="px-4 py-2 text-sm text-right text-gray-600">
+                                {total.count}
+                              </td>
+                              <td className="px-4 py-2 text-sm text-right text-gray-900">
+                                {formatCurrency(total.spent)}
+                              </td>
+                              <td className="px-4 py-2 text-sm text-right text-gray-900">
+                                {formatCurrency(total.received)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+
+                    {selectedTag ? (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <div>
+                          <h4 className="text-sm font-medium text-gray-900 mb-3">
+                            #{selectedTag} by category
+                          </h4>
+                          {Object.keys(tagCategoryData).length === 0 ? (
+                            <p className="text-sm text-gray-500">
+                              No expenses with this tag
+                            </p>
+                          ) : (
+                            <div className="space-y-2">
+                              {Object.entries(tagCategoryData)
+                                .sort(([, a], [, b]) => b - a)
+                                .map(([category, amount]) => (
+                                  <div
+                                    key={category}
+                                    className="flex items-center justify-between"
+                                  >
+                                    <span className="text-sm text-gray-900">
+                                      {category}
+                                    </span>
+                                    <span className="text-sm text-gray-600">
+                                      {formatCurrency(amount)}
+                                    </span>
+                                  </div>
+                                ))}
+                            </div>
+                          )}
+                        </div>
+                        <div>
+                          <h4 className="text-sm font-medium text-gray-900 mb-3">
+                            #{selectedTag} by month
+                          </h4>
+                          {Object.keys(tagMonthlyData).length === 0 ? (
+                            <p className="text-sm text-gray-500">
+                              No expenses with this tag
+                            </p>
+                          ) : (
+                            <div className="space-y-2">
+                              {Object.entries(tagMonthlyData)
+                                .sort(([a], [b]) => b.localeCompare(a))
+                                .map(([month, amount]) => (
+                                  <div
+                                    key={month}
+                                    className="flex items-center justify-between"
+                                  >
+                                    <span className="text-sm text-gray-900">
+                                      {dayjs(month).format("MMMM YYYY")}
+                                    </span>
+                                    <span className="text-sm text-gray-600">
+                                      {formatCurrency(amount)}
+                                    </span>
+                                  </div>
+                                ))}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    ) : (
+                      <p className="text-sm text-gray-500">
+                        Select a tag to see its spending by category and month.
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+
             {/* Monthly Trends */}
             <div className="card">
               <div className="card-header">
@@ -822,7 +997,7 @@ export default function Reports() {
                       {monthlyReports.length > 0
                         ? (
                             monthlyReports.reduce(
-                              (sum, r) => sum + parseFloat(r.savingsRate),
+                              (sum, r) => sum + (r.savingsRate ?? 0),
                               0
                             ) / monthlyReports.length
                           ).toFixed(1)
@@ -977,7 +1152,7 @@ export default function Reports() {
                               Total Income
                             </p>
                             <p className="text-sm font-semibold text-green-600">
-                              {formatCurrency(parseFloat(report.totalIncome))}
+                              {formatCurrency(report.totalIncome)}
                             </p>
                           </div>
                           <div className="text-center">
@@ -985,19 +1160,19 @@ export default function Reports() {
                               Total Expenses
                             </p>
                             <p className="text-sm font-semibold text-red-600">
-                              {formatCurrency(parseFloat(report.totalExpense))}
+                              {formatCurrency(report.totalExpense)}
                             </p>
                           </div>
                           <div className="text-center">
                             <p className="text-xs text-gray-500">Net Savings</p>
                             <p
                               className={`text-sm font-semibold ${
-                                parseFloat(report.netSavings) >= 0
+                                report.netSavings >= 0
                                   ? "text-green-600"
                                   : "text-red-600"
                               }`}
                             >
-                              {formatCurrency(parseFloat(report.netSavings))}
+                              {formatCurrency(report.netSavings)}
                             </p>
                           </div>
                           <div className="text-center">
@@ -1005,7 +1180,7 @@ export default function Reports() {
                               Savings Rate
                             </p>
                             <p className="text-sm font-semibold text-blue-600">
-                              {parseFloat(report.savingsRate).toFixed(1)}%
+                              {(report.savingsRate ?? 0).toFixed(1)}%
                             </p>
                           </div>
                         </div>
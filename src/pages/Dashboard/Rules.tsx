@@ -0,0 +1,920 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation, useNavigate } from "react-router-dom";
+import {
+  Plus,
+  Edit,
+  Trash2,
+  ArrowUp,
+  ArrowDown,
+  Play,
+  Wand2,
+} from "lucide-react";
+import {
+  bankAccountsAPI,
+  categoriesAPI,
+  depositsAPI,
+  expensesAPI,
+} from "../../lib/api";
+import { getAuthToken, getUserId, formatCurrency } from "../../lib/utils";
+import { currencyOf } from "../../lib/currency";
+import {
+  WEEKDAY_LABELS,
+  depositSubject,
+  dryRunRules,
+  expenseSubject,
+  getRules,
+  newRule,
+  regexError,
+  saveRules,
+} from "../../lib/rules";
+import { collectTags } from "../../lib/tags";
+import type {
+  DryRunChange,
+  RuleSubject,
+  RuleTarget,
+  RuleTargetOptions,
+  TransactionRule,
+} from "../../lib/rules";
+import DashboardLayout from "../../layouts/DashboardLayout";
+import TagInput from "../../components/TagInput";
+import dayjs from "dayjs";
+
+// How far back a dry run looks
+const DRY_RUN_DAYS = 90;
+
+// Summarises a rule's conditions for the list
+const describeConditions = (rule: TransactionRule, accountName: string) => {
+  const { conditions } = rule;
+  const parts: string[] = [];
+  if (conditions.noteContains) {
+    parts.push(`note contains "${conditions.noteContains}"`);
+  }
+  if (conditions.noteRegex) {
+    parts.push(`note matches /${conditions.noteRegex}/`);
+  }
+  if (conditions.merchantContains) {
+    parts.push(`merchant contains "${conditions.merchantContains}"`);
+  }
+  if (conditions.minAmount !== null) {
+    parts.push(`at least ${conditions.minAmount}`);
+  }
+  if (conditions.maxAmount !== null) {
+    parts.push(`at most ${conditions.maxAmount}`);
+  }
+  if (conditions.bankAccountId) parts.push(`from ${accountName}`);
+  if (conditions.weekdays.length > 0) {
+    parts.push(
+      `on ${conditions.weekdays.map((day) => WEEKDAY_LABELS[day]).join(", ")}`
+    );
+  }
+  return parts.length > 0 ? parts.join(", ") : "every transaction";
+};
+
+export default function Rules() {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [rules, setRules] = useState<TransactionRule[]>(getRules);
+  // A rule handed over by "Create rule from this expense" opens straight away
+  const draft: TransactionRule | undefined = location.state?.draft;
+  const [editingRule, setEditingRule] = useState<TransactionRule | null>(
+    draft || null
+  );
+  // The draft last tested in the editor; its dry run follows the history
+  const [testedRule, setTestedRule] = useState<TransactionRule | null>(null);
+  const [showDryRun, setShowDryRun] = useState(false);
+  // History is only fetched once a dry run is asked for
+  const [historyNeeded, setHistoryNeeded] = useState(false);
+
+  const historyStart = dayjs()
+    .subtract(DRY_RUN_DAYS, "day")
+    .format("YYYY-MM-DD");
+
+  // Drop the draft from the history entry so a reload does not reopen it
+  useEffect(() => {
+    if (location.state?.draft) {
+      navigate(location.pathname, { replace: true, state: null });
+    }
+  }, [location, navigate]);
+
+  // Get expense categories
+  const { data: expenseCategoriesResponse } = useQuery({
+    queryKey: ["expense-categories"],
+    queryFn: async () => {
+      const token = getAuthToken();
+      if (!token) throw new Error("No authentication token");
+
+      const response = await categoriesAPI.getExpenseCategories();
+      return response;
+    },
+  });
+
+  // Get deposit types
+  const { data: depositTypesResponse } = useQuery({
+    queryKey: ["deposit-types"],
+    queryFn: async () => {
+      const token = getAuthToken();
+      if (!token) throw new Error("No authentication token");
+
+      const response = await categoriesAPI.getDepositTypes();
+      return response;
+    },
+  });
+
+  // Get bank accounts
+  const { data: bankAccountsResponse } = useQuery({
+    queryKey: ["bank-accounts"],
+    queryFn: async () => {
+      const token = getAuthToken();
+      if (!token) throw new Error("No authentication token");
+
+      const response = await bankAccountsAPI.getAll();
+      return response;
+    },
+  });
+
+  // Recent expenses and deposits for dry runs
+  const { data: expensesResponse, isLoading: expensesLoading } = useQuery({
+    queryKey: ["expenses", "rules", historyStart],
+    queryFn: async () => {
+      const token = getAuthToken();
+      if (!token) throw new Error("No authentication token");
+
+      const userId = getUserId();
+      if (!userId) throw new Error("No user ID found");
+
+      const response = await expensesAPI.getAll(userId, {
+        startDate: historyStart,
+      });
+      return response;
+    },
+    enabled: historyNeeded,
+  });
+
+  const { data: depositsResponse, isLoading: depositsLoading } = useQuery({
+    queryKey: ["deposits", "rules", historyStart],
+    queryFn: async () => {
+      const token = getAuthToken();
+      if (!token) throw new Error("No authentication token");
+
+      const userId = getUserId();
+      if (!userId) throw new Error("No user ID found");
+
+      const response = await depositsAPI.getAll(userId, {
+        startDate: historyStart,
+      });
+      return response;
+    },
+    enabled: historyNeeded,
+  });
+
+  const expenseCategories = expenseCategoriesResponse?.data || [];
+  const depositTypes = depositTypesResponse?.data || [];
+  const bankAccounts = bankAccountsResponse?.data || [];
+  const historyLoading = expensesLoading || depositsLoading;
+
+  const history: Record<RuleTarget, { id: string; subject: RuleSubject }[]> = {
+    expense: (expensesResponse?.data || []).map((expense) => ({
+      id: expense.id,
+      subject: expenseSubject(expense),
+    })),
+    deposit: (depositsResponse?.data || []).map((deposit) => ({
+      id: deposit.id,
+      subject: depositSubject(deposit),
+    })),
+  };
+
+  const targetOptions: Record<RuleTarget, RuleTargetOptions> = {
+    expense: expenseCategories,
+    deposit: depositTypes,
+  };
+
+  const accountName = (id: string) =>
+    bankAccounts.find((a) => a.id === id)?.name || "Unknown account";
+
+  const targetLabel = (target: RuleTarget, id?: string) => {
+    if (!id) return "—";
+    if (target === "expense") {
+      const category = expenseCategories.find((c) => c.id === id);
+      return category
+        ? `${category.icon || ""} ${category.name}`
+        : "Missing category (skipped)";
+    }
+    const type = depositTypes.find((t) => t.id === id);
+    return type
+      ? `${type.icon || ""} ${type.name}`
+      : "Missing deposit type (skipped)";
+  };
+
+  const updateRules = (next: TransactionRule[]) => {
+    setRules(next);
+    saveRules(next);
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const next = [...rules];
+    const [rule] = next.splice(index, 1);
+    next.splice(index + offset, 0, rule);
+    updateRules(next);
+  };
+
+  const handleDelete = (rule: TransactionRule) => {
+    if (window.confirm(`Delete the rule "${rule.name}"?`)) {
+      updateRules(rules.filter((r) => r.id !== rule.id));
+    }
+  };
+
+  const openEditor = (rule: TransactionRule) => {
+    setEditingRule(rule);
+    setTestedRule(null);
+  };
+
+  const closeEditor = () => {
+    setEditingRule(null);
+    setTestedRule(null);
+  };
+
+  const draftRule = (): TransactionRule | null =>
+    editingRule && { ...editingRule, name: editingRule.name.trim() };
+
+  // Tags other rules add, to keep the spelling consistent
+  const tagSuggestions = collectTags(
+    rules.map((rule) => ({ tags: rule.actions.tags }))
+  );
+
+  const setConditions = (changes: Partial<TransactionRule["conditions"]>) => {
+    if (!editingRule) return;
+    setEditingRule({
+      ...editingRule,
+      conditions: { ...editingRule.conditions, ...changes },
+    });
+    setTestedRule(null);
+  };
+
+  const setActions = (changes: Partial<TransactionRule["actions"]>) => {
+    if (!editingRule) return;
+    setEditingRule({
+      ...editingRule,
+      actions: { ...editingRule.actions, ...changes },
+    });
+    setTestedRule(null);
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!editingRule) return;
+    const { weekdays } = editingRule.conditions;
+    setConditions({
+      weekdays: weekdays.includes(day)
+        ? weekdays.filter((d) => d !== day)
+        : [...weekdays, day].sort((a, b) => a - b),
+    });
+  };
+
+  const patternError = editingRule?.conditions.noteRegex
+    ? regexError(editingRule.conditions.noteRegex)
+    : null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const rule = draftRule();
+    if (!rule) return;
+    if (!rule.name) {
+      alert("Please enter a rule name");
+      return;
+    }
+    if (patternError) {
+      alert(`The note pattern is not valid: ${patternError}`);
+      return;
+    }
+    const { actions } = rule;
+    const targetAction =
+      rule.target === "expense" ? actions.categoryId : actions.depositTypeId;
+    if (!targetAction && actions.tags.length === 0 && !actions.note) {
+      alert("Please choose at least one action");
+      return;
+    }
+    const exists = rules.some((r) => r.id === rule.id);
+    // New rules go to the bottom, below the more specific ones
+    updateRules(
+      exists
+        ? rules.map((r) => (r.id === rule.id ? rule : r))
+        : [...rules, rule]
+    );
+    closeEditor();
+  };
+
+  const handleTestRule = () => {
+    setHistoryNeeded(true);
+    setTestedRule(draftRule());
+  };
+
+  const handleDryRun = () => {
+    setHistoryNeeded(true);
+    setShowDryRun(true);
+  };
+
+  const renderChanges = (changes: DryRunChange[], target: RuleTarget) => {
+    const field = target === "expense" ? "categoryId" : "depositTypeId";
+    const differs = changes.filter(
+      (change) => change.before[field] !== change.after[field]
+    ).length;
+    const noun = target === "expense" ? "expense" : "deposit";
+
+    return (
+      <div>
+        <p className="text-sm text-gray-600 mb-2">
+          {changes.length} of {history[target].length} {noun}s in the last{" "}
+          {DRY_RUN_DAYS} days matched
+          {changes.length > 0 &&
+            `; ${differs} would be filed differently than they are now`}
+          .
+        </p>
+        {changes.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Date
+                  </th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Note
+                  </th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Amount
+                  </th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {target === "expense" ? "Category" : "Type"}
+                  </th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Tags
+                  </th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Rules
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {changes.map(({ id, before, after, matched }) => {
+                  const account = bankAccounts.find(
+                    (a) => a.id === before.bankAccountId
+                  );
+                  const changed = before[field] !== after[field];
+                  return (
+                    <tr key={id}>
+                      <td className="px-3 py-2 whitespace-nowrap text-gray-900">
+                        {dayjs(before.date).format("MMM DD, YYYY")}
+                      </td>
+                      <td className="px-3 py-2 text-gray-900">
+                        {before.note || "—"}
+                        {after.note !== before.note && (
+                          <div className="text-xs text-primary-600">
+                            → {after.note || "—"}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-right text-gray-900">
+                        {formatCurrency(before.amount, currencyOf(account))}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        {changed ? (
+                          <>
+                            <span className="text-gray-400 line-through">
+                              {targetLabel(target, before[field])}
+                            </span>{" "}
+                            <span className="text-primary-700 font-medium">
+                              → {targetLabel(target, after[field])}
+                            </span>
+                          </>
+                        ) : (
+                          <span className="text-gray-900">
+                            {targetLabel(target, before[field])}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-gray-600">
+                        {after.tags?.join(", ") || "—"}
+                      </td>
+                      <td className="px-3 py-2 text-gray-600">
+                        {matched.map((rule) => rule.name).join(", ")}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const targets: RuleTarget[] = ["expense", "deposit"];
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Rules</h1>
+            <p className="text-gray-600">
+              Fill in categories, deposit types, tags and notes on new
+              transactions automatically
+            </p>
+          </div>
+          <div className="flex space-x-3">
+            <button
+              onClick={handleDryRun}
+              disabled={rules.length === 0}
+              className="btn btn-secondary flex items-center"
+            >
+              <Play className="w-4 h-4 mr-2" />
+              Dry Run
+            </button>
+            <button
+              onClick={() => openEditor(newRule("expense"))}
+              className="btn btn-primary flex items-center"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Rule
+            </button>
+          </div>
+        </div>
+
+        {/* Rules */}
+        {rules.length === 0 ? (
+          <div className="card">
+            <div className="card-body text-center py-12">
+              <Wand2 className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">
+                No rules
+              </h3>
+              <p className="mt-1 text-sm text-gray-500">
+                Add a rule, or create one from an expense on the Expenses page.
+              </p>
+            </div>
+          </div>
+        ) : (
+          <div className="card">
+            <div className="card-header">
+              <p className="text-sm text-gray-600">
+                Rules run from top to bottom. The first rule that sets a
+                category or deposit type wins; tags and note changes from every
+                matching rule apply.
+              </p>
+            </div>
+            <ul className="divide-y divide-gray-200">
+              {rules.map((rule, index) => (
+                <li
+                  key={rule.id}
+                  className={`px-6 py-4 flex items-center justify-between ${
+                    rule.enabled ? "" : "opacity-60"
+                  }`}
+                >
+                  <div className="flex items-center min-w-0">
+                    <div className="flex flex-col mr-4">
+                      <button
+                        onClick={() => moveRule(index, -1)}
+                        disabled={index === 0}
+                        className="text-gray-400 hover:text-gray-700 disabled:text-gray-200"
+                        title="Move up"
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => moveRule(index, 1)}
+                        disabled={index === rules.length - 1}
+                        className="text-gray-400 hover:text-gray-700 disabled:text-gray-200"
+                        title="Move down"
+                      >
+                        <ArrowDown className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">
+                        {rule.name}
+                        <span
+                          className={`ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+                            rule.target === "expense"
+                              ? "bg-danger-100 text-danger-800"
+                              : "bg-success-100 text-success-800"
+                          }`}
+                        >
+                          {rule.target === "expense" ? "Expense" : "Deposit"}
+                        </span>
+                      </p>
+                      <p className="text-sm text-gray-500 truncate">
+                        When{" "}
+                        {describeConditions(
+                          rule,
+                          accountName(rule.conditions.bankAccountId)
+                        )}
+                      </p>
+                      <p className="text-sm text-gray-500 truncate">
+                        {[
+                          rule.target === "expense" && rule.actions.categoryId
+                            ? `Category: ${targetLabel("expense", rule.actions.categoryId)}`
+                            : "",
+                          rule.target === "deposit" &&
+                          rule.actions.depositTypeId
+                            ? `Type: ${targetLabel("deposit", rule.actions.depositTypeId)}`
+                            : "",
+                          rule.actions.tags.length > 0
+                            ? `Tags: ${rule.actions.tags.join(", ")}`
+                            : "",
+                          rule.actions.note
+                            ? `Note: "${rule.actions.note}"`
+                            : "",
+                        ]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-3 ml-3 shrink-0">
+                    <label className="flex items-center text-sm text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={rule.enabled}
+                        onChange={(e) =>
+                          updateRules(
+                            rules.map((r) =>
+                              r.id === rule.id
+                                ? { ...r, enabled: e.target.checked }
+                                : r
+                            )
+                          )
+                        }
+                        className="mr-2"
+                      />
+                      Enabled
+                    </label>
+                    <button
+                      onClick={() => openEditor(rule)}
+                      className="text-primary-600 hover:text-primary-900"
+                      title="Edit"
+                    >
+                      <Edit className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(rule)}
+                      className="text-danger-600 hover:text-danger-900"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Dry run of every enabled rule */}
+        {showDryRun && (
+          <div className="card">
+            <div className="card-header flex justify-between items-center">
+              <h3 className="text-lg font-medium text-gray-900">Dry Run</h3>
+              <button
+                onClick={() => setShowDryRun(false)}
+                className="text-sm text-gray-600 hover:text-gray-900"
+              >
+                Hide
+              </button>
+            </div>
+            <div className="card-body space-y-6">
+              <p className="text-sm text-gray-600">
+                What the enabled rules would do to recent transactions if they
+                were entered again without a category or type. Nothing is
+                changed.
+              </p>
+              {historyLoading ? (
+                <div className="flex items-center justify-center h-32">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+                </div>
+              ) : (
+                targets.map((target) => (
+                  <div key={target}>
+                    <h4 className="text-sm font-medium text-gray-900 mb-2">
+                      {target === "expense" ? "Expenses" : "Deposits"}
+                    </h4>
+                    {renderChanges(
+                      dryRunRules(
+                        rules,
+                        target,
+                        history[target],
+                        targetOptions[target]
+                      ),
+                      target
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Add/Edit Modal */}
+        {editingRule && (
+          <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+              <h2 className="text-xl font-bold mb-4">
+                {rules.some((r) => r.id === editingRule.id)
+                  ? "Edit Rule"
+                  : "Add Rule"}
+              </h2>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Name *
+                    </label>
+                    <input
+                      type="text"
+                      value={editingRule.name}
+                      onChange={(e) =>
+                        setEditingRule({ ...editingRule, name: e.target.value })
+                      }
+                      className="input w-full"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Applies to
+                    </label>
+                    <select
+                      value={editingRule.target}
+                      onChange={(e) => {
+                        setEditingRule({
+                          ...editingRule,
+                          target: e.target.value as RuleTarget,
+                        });
+                        setTestedRule(null);
+                      }}
+                      className="input w-full"
+                    >
+                      <option value="expense">New expenses</option>
+                      <option value="deposit">New deposits</option>
+                    </select>
+                  </div>
+                </div>
+
+                <h3 className="text-sm font-medium text-gray-900 pt-2">When</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Note contains
+                    </label>
+                    <input
+                      type="text"
+                      value={editingRule.conditions.noteContains}
+                      onChange={(e) =>
+                        setConditions({ noteContains: e.target.value })
+                      }
+                      className="input w-full"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Note matches pattern
+                    </label>
+                    <input
+                      type="text"
+                      value={editingRule.conditions.noteRegex}
+                      onChange={(e) =>
+                        setConditions({ noteRegex: e.target.value })
+                      }
+                      className="input w-full font-mono"
+                      placeholder="e.g. ^uber|ola"
+                    />
+                    {patternError && (
+                      <p className="text-xs text-danger-600 mt-1">
+                        {patternError}
+                      </p>
+                    )}
+                  </div>
+                  {editingRule.target === "expense" && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Receipt merchant contains
+                      </label>
+                      <input
+                        type="text"
+                        value={editingRule.conditions.merchantContains}
+                        onChange={(e) =>
+                          setConditions({ merchantContains: e.target.value })
+                        }
+                        className="input w-full"
+                      />
+                    </div>
+                  )}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Account
+                    </label>
+                    <select
+                      value={editingRule.conditions.bankAccountId}
+                      onChange={(e) =>
+                        setConditions({ bankAccountId: e.target.value })
+                      }
+                      className="input w-full"
+                    >
+                      <option value="">Any account</option>
+                      {bankAccounts.map((account) => (
+                        <option key={account.id} value={account.id}>
+                          {account.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Amount from
+                    </label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={editingRule.conditions.minAmount ?? ""}
+                      onChange={(e) =>
+                        setConditions({
+                          minAmount:
+                            e.target.value === ""
+                              ? null
+                              : Number(e.target.value),
+                        })
+                      }
+                      className="input w-full"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Amount to
+                    </label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={editingRule.conditions.maxAmount ?? ""}
+                      onChange={(e) =>
+                        setConditions({
+                          maxAmount:
+                            e.target.value === ""
+                              ? null
+                              : Number(e.target.value),
+                        })
+                      }
+                      className="input w-full"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    On
+                  </label>
+                  <div className="flex flex-wrap gap-2">
+                    {WEEKDAY_LABELS.map((label, day) => (
+                      <button
+                        key={label}
+                        type="button"
+                        onClick={() => toggleWeekday(day)}
+                        className={`px-3 py-1 rounded-full text-sm ${
+                          editingRule.conditions.weekdays.includes(day)
+                            ? "bg-primary-600 text-white"
+                            : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Leave every day off to match any day.
+                  </p>
+                </div>
+
+                <h3 className="text-sm font-medium text-gray-900 pt-2">Then</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {editingRule.target === "expense" ? (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Set category
+                      </label>
+                      <select
+                        value={editingRule.actions.categoryId}
+                        onChange={(e) =>
+                          setActions({ categoryId: e.target.value })
+                        }
+                        className="input w-full"
+                      >
+                        <option value="">Leave as is</option>
+                        {expenseCategories.map((category) => (
+                          <option key={category.id} value={category.id}>
+                            {category.icon} {category.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ) : (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Set deposit type
+                      </label>
+                      <select
+                        value={editingRule.actions.depositTypeId}
+                        onChange={(e) =>
+                          setActions({ depositTypeId: e.target.value })
+                        }
+                        className="input w-full"
+                      >
+                        <option value="">Leave as is</option>
+                        {depositTypes.map((type) => (
+                          <option key={type.id} value={type.id}>
+                            {type.icon} {type.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Add tags
+                    </label>
+                    <TagInput
+                      tags={editingRule.actions.tags}
+                      suggestions={tagSuggestions}
+                      onChange={(tags) => setActions({ tags })}
+                      placeholder="e.g. travel, work"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Rewrite note
+                  </label>
+                  <input
+                    type="text"
+                    value={editingRule.actions.note}
+                    onChange={(e) => setActions({ note: e.target.value })}
+                    className="input w-full"
+                    placeholder="e.g. Taxi: {note}"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    {"{note}"} stands for the original note. Leave empty to keep
+                    the note.
+                  </p>
+                </div>
+
+                {/* Test against history */}
+                <div className="border-t border-gray-200 pt-4">
+                  <button
+                    type="button"
+                    onClick={handleTestRule}
+                    disabled={!!patternError}
+                    className="text-primary-600 hover:text-primary-900 text-sm font-medium flex items-center disabled:text-gray-300"
+                  >
+                    <Play className="w-4 h-4 mr-1" />
+                    Test against the last {DRY_RUN_DAYS} days
+                  </button>
+                  {testedRule &&
+                    (historyLoading ? (
+                      <div className="flex items-center justify-center h-24">
+                        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+                      </div>
+                    ) : (
+                      <div className="mt-3">
+                        {renderChanges(
+                          dryRunRules(
+                            [{ ...testedRule, enabled: true }],
+                            testedRule.target,
+                            history[testedRule.target],
+                            targetOptions[testedRule.target]
+                          ),
+                          testedRule.target
+                        )}
+                      </div>
+                    ))}
+                </div>
+
+                <div className="flex justify-end space-x-3 pt-4">
+                  <button
+                    type="button"
+                    onClick={closeEditor}
+                    className="btn btn-secondary"
+                  >
+                    Cancel
+                  </button>
+                  <button type="submit" className="btn btn-primary">
+                    Save
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -1,8 +1,28 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { User, Lock, Bell, Shield, Save, Eye, EyeOff } from "lucide-react";
-import { authAPI } from "../../lib/api";
+import {
+  User,
+  Lock,
+  Bell,
+  Shield,
+  Save,
+  Eye,
+  EyeOff,
+  Coins,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { authAPI, bankAccountsAPI } from "../../lib/api";
 import { logout } from "../../lib/utils";
+import {
+  CURRENCIES,
+  currencyOf,
+  getBaseCurrency,
+  getExchangeRates,
+  rebaseRates,
+  saveCurrencySettings,
+} from "../../lib/currency";
+import type { ExchangeRates } from "../../lib/currency";
 import DashboardLayout from "../../layouts/DashboardLayout";
 
 interface ProfileFormData {
@@ -48,6 +68,11 @@ export default function Settings() {
       monthlyReports: true,
     });
 
+  const [baseCurrency, setBaseCurrency] = useState(getBaseCurrency);
+  const [exchangeRates, setExchangeRates] =
+    useState<ExchangeRates>(getExchangeRates);
+  const [newRateCurrency, setNewRateCurrency] = useState("");
+
   const queryClient = useQueryClient();
 
   // Get current user
@@ -59,6 +84,19 @@ export default function Settings() {
     },
   });
 
+  // Get bank accounts to flag currencies without a rate
+  const { data: accountsResponse } = useQuery({
+    queryKey: ["bank-accounts"],
+    queryFn: async () => {
+      const response = await bankAccountsAPI.getAll();
+      return response;
+    },
+  });
+
+  const missingRates = [
+    ...new Set((accountsResponse?.data || []).map(currencyOf)),
+  ].filter((currency) => currency !== baseCurrency && !exchangeRates[currency]);
+
   useEffect(() => {
     if (userData) {
       setProfileForm({
@@ -145,6 +183,38 @@ export default function Settings() {
     updateNotificationsMutation.mutate(notificationSettings);
   };
 
+  const handleBaseCurrencyChange = (currency: string) => {
+    const rebased = rebaseRates(exchangeRates, baseCurrency, currency);
+    if (!rebased) {
+      alert(`Add a rate for ${currency} before making it the base currency`);
+      return;
+    }
+    setBaseCurrency(currency);
+    setExchangeRates(rebased);
+  };
+
+  const handleAddRate = () => {
+    if (!newRateCurrency) return;
+    setExchangeRates({ ...exchangeRates, [newRateCurrency]: 1 });
+    setNewRateCurrency("");
+  };
+
+  const handleRemoveRate = (currency: string) => {
+    const remaining = { ...exchangeRates };
+    delete remaining[currency];
+    setExchangeRates(remaining);
+  };
+
+  const handleCurrencySubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (Object.values(exchangeRates).some((rate) => !(rate > 0))) {
+      alert("Exchange rates must be greater than zero");
+      return;
+    }
+    saveCurrencySettings(baseCurrency, exchangeRates);
+    alert("Currency settings updated successfully!");
+  };
+
   const handleLogout = () => {
     logout();
   };
@@ -206,6 +276,17 @@ export default function Settings() {
               <Bell className="w-4 h-4 inline mr-2" />
               Notifications
             </button>
+            <button
+              onClick={() => setActiveTab("currency")}
+              className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                activeTab === "currency"
+                  ? "border-primary-500 text-primary-600"
+                  : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+              }`}
+            >
+              <Coins className="w-4 h-4 inline mr-2" />
+              Currency
+            </button>
           </nav>
         </div>
 
@@ -546,6 +627,122 @@ export default function Settings() {
             </div>
           </div>
         )}
+
+        {/* Currency Tab */}
+        {activeTab === "currency" && (
+          <div className="card">
+            <div className="card-header">
+              <h3 className="text-lg font-medium text-gray-900">
+                Currency & Exchange Rates
+              </h3>
+              <p className="text-sm text-gray-600">
+                Totals are converted to your base currency using these rates.
+                They are stored on this device and work offline.
+              </p>
+            </div>
+            <div className="card-body">
+              <form onSubmit={handleCurrencySubmit} className="space-y-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Base Currency
+                  </label>
+                  <select
+                    value={baseCurrency}
+                    onChange={(e) => handleBaseCurrencyChange(e.target.value)}
+                    className="input w-full"
+                  >
+                    {CURRENCIES.map((currency) => (
+                      <option key={currency} value={currency}>
+                        {currency}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <h4 className="text-sm font-medium text-gray-900 mb-2">
+                    Exchange Rates
+                  </h4>
+                  {missingRates.length > 0 && (
+                    <p className="text-sm text-warning-600 mb-2">
+                      No rate set for {missingRates.join(", ")}. Those amounts
+                      are counted one-to-one.
+                    </p>
+                  )}
+                  <div className="space-y-2">
+                    {Object.entries(exchangeRates).map(([currency, rate]) => (
+                      <div key={currency} className="flex items-center gap-3">
+                        <span className="w-20 text-sm text-gray-700">
+                          1 {currency} =
+                        </span>
+                        <input
+                          type="number"
+                          step="any"
+                          min="0"
+                          value={rate}
+                          onChange={(e) =>
+                            setExchangeRates({
+                              ...exchangeRates,
+                              [currency]: parseFloat(e.target.value) || 0,
+                            })
+                          }
+                          className="input w-40"
+                        />
+                        <span className="text-sm text-gray-700">
+                          {baseCurrency}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveRate(currency)}
+                          className="text-danger-600 hover:text-danger-900"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex items-center gap-3 mt-3">
+                    <select
+                      value={newRateCurrency}
+                      onChange={(e) => setNewRateCurrency(e.target.value)}
+                      className="input w-40"
+                    >
+                      <option value="">Add currency</option>
+                      {CURRENCIES.filter(
+                        (currency) =>
+                          currency !== baseCurrency &&
+                          !(currency in exchangeRates)
+                      ).map((currency) => (
+                        <option key={currency} value={currency}>
+                          {currency}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={handleAddRate}
+                      disabled={!newRateCurrency}
+                      className="btn btn-secondary flex items-center"
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add Rate
+                    </button>
+                  </div>
+                </div>
+
+                <div className="flex justify-end">
+                  <button
+                    type="submit"
+                    className="btn btn-primary flex items-center"
+                  >
+                    <Save className="w-4 h-4 mr-2" />
+                    Save Currency Settings
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        )}
       </div>
     </DashboardLayout>
   );
@@ -0,0 +1,31 @@
+// Downscales and re-encodes a receipt photo off the main thread. Replies with
+// a JPEG blob, or null when the image cannot be decoded or would not shrink.
+
+const MAX_DIMENSION = 2000;
+const JPEG_QUALITY = 0.8;
+
+self.onmessage = async (event: MessageEvent<Blob>) => {
+  try {
+    const bitmap = await createImageBitmap(event.data);
+    const scale = Math.min(
+      1,
+      MAX_DIMENSION / Math.max(bitmap.width, bitmap.height)
+    );
+    const canvas = new OffscreenCanvas(
+      Math.round(bitmap.width * scale),
+      Math.round(bitmap.height * scale)
+    );
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("No 2D context");
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    const blob = await canvas.convertToBlob({
+      type: "image/jpeg",
+      quality: JPEG_QUALITY,
+    });
+    self.postMessage(blob.size < event.data.size ? blob : null);
+  } catch {
+    self.postMessage(null);
+  }
+};